@@ -149,7 +149,7 @@ class ExampleClient {
         this.credential.id,
         disclosedAttributes,
         requirements.serviceDID,
-        { challenge: requirements.challenge }
+        { challenge: requirements.challenge, domain: requirements.domain }
       );
 
       console.log('✅ Selective disclosure presentation created');
@@ -160,9 +160,10 @@ class ExampleClient {
     }
   }
 
+  // requestId comes from the requirements response and can be used once
   async verifyPresentationAndCreateSession(
     presentation: VerifiablePresentation,
-    endpoint: string
+    requestId: string
   ): Promise<string> {
     try {
       console.log(`\n🔐 Verifying presentation and creating session...`);
@@ -174,7 +175,7 @@ class ExampleClient {
         },
         body: JSON.stringify({
           presentation,
-          endpoint
+          requestId
         })
       });
 
@@ -234,7 +235,11 @@ class ExampleClient {
     try {
       console.log('\n📡 Setting up WebSocket monitoring...');
 
-      this.socket = io(WS_URL);
+      if (!this.sessionId) {
+        throw new Error('A session is required to open a WebSocket connection');
+      }
+
+      this.socket = io(WS_URL, { auth: { token: this.sessionId } });
 
       this.socket.on('connect', () => {
         console.log('✅ WebSocket connected');
@@ -267,6 +272,10 @@ class ExampleClient {
         }
       });
 
+      this.socket.on('connect_error', (error: Error & { data?: { code: string } }) => {
+        console.error('📡 WebSocket connection rejected:', error.data?.code, error.message);
+      });
+
       this.socket.on('error', (error) => {
         console.error('📡 WebSocket error:', error);
       });
@@ -288,13 +297,10 @@ class ExampleClient {
       // Step 1: Create user credential
       await this.createUserCredential();
 
-      // Step 2: Set up WebSocket monitoring
-      await this.setupWebSocketMonitoring();
-
-      // Step 3: Get service requirements for profile endpoint
+      // Step 2: Get service requirements for profile endpoint
       const profileRequirements = await this.getServiceRequirements('/profile');
 
-      // Step 4: Create selective disclosure presentation
+      // Step 3: Create selective disclosure presentation
       const requiredAttributes = profileRequirements.requirements.attributeConstraints
         .filter((c: any) => c.required)
         .map((c: any) => c.name);
@@ -304,8 +310,11 @@ class ExampleClient {
         requiredAttributes
       );
 
-      // Step 5: Verify presentation and create session
-      await this.verifyPresentationAndCreateSession(presentation, '/profile');
+      // Step 4: Verify presentation and create session
+      await this.verifyPresentationAndCreateSession(presentation, profileRequirements.requestId);
+
+      // Step 5: Set up WebSocket monitoring (authenticated with the session)
+      await this.setupWebSocketMonitoring();
 
       // Step 6: Access protected resources
       await this.accessProtectedResource('/profile');
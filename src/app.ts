@@ -6,10 +6,10 @@ import compression from 'compression';
 import morgan from 'morgan';
 import { config } from './config';
 import logger, { morganStream } from './utils/logger';
-import createRoutes from './routes';
+import createRoutes, { type AppServices } from './routes';
 import errorMiddleware from './middleware/error.middleware';
 
-export function createApp(): Application {
+export function createApp(services?: AppServices): Application {
   const app: Application = express();
 
   // Trust proxy for accurate IP addresses in logs
@@ -137,7 +137,7 @@ export function createApp(): Application {
 
   // API routes
   try {
-    const routes = createRoutes();
+    const routes = createRoutes(services);
     app.use('/api/v1', routes);
     
     // Legacy routes (without version prefix)
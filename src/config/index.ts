@@ -25,13 +25,19 @@ export const config = {
   session: {
     defaultDuration: parseInt(process.env.SESSION_DEFAULT_DURATION || '3600', 10),
     maxDuration: parseInt(process.env.SESSION_MAX_DURATION || '86400', 10),
-    cleanupInterval: parseInt(process.env.SESSION_CLEANUP_INTERVAL || '300', 10)
+    cleanupInterval: parseInt(process.env.SESSION_CLEANUP_INTERVAL || '300', 10),
+    store: process.env.SESSION_STORE || 'memory' // 'memory' or 'redis'
   },
 
   // Batch Processing Configuration
   batch: {
     maxConcurrency: parseInt(process.env.BATCH_MAX_CONCURRENCY || '10', 10),
-    timeoutMs: parseInt(process.env.BATCH_TIMEOUT_MS || '15000', 10)
+    timeoutMs: parseInt(process.env.BATCH_TIMEOUT_MS || '15000', 10),
+    asyncMaxPresentations: parseInt(process.env.BATCH_ASYNC_MAX_PRESENTATIONS || '5000'),
+    asyncChunkSize: parseInt(process.env.BATCH_ASYNC_CHUNK_SIZE || '50'),
+    maxConcurrentJobs: parseInt(process.env.BATCH_MAX_CONCURRENT_JOBS || '2'),
+    maxQueuedJobs: parseInt(process.env.BATCH_MAX_QUEUED_JOBS || '20'),
+    maxQueuedPresentations: parseInt(process.env.BATCH_MAX_QUEUED_PRESENTATIONS || '20000')
   },
 
   // Rate Limiting
@@ -59,16 +65,94 @@ export const config = {
     compressionEnabled: process.env.COMPRESSION_ENABLED !== 'false'
   },
 
+  // Admin API
+  admin: {
+    // Comma-separated `key:role` entries; keys without a role get full admin access
+    apiKeys: (process.env.ADMIN_API_KEYS?.split(',') || [])
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [key, role = 'admin'] = entry.split(':');
+        return { key, role };
+      }),
+    // Trusted issuers allowed to issue AdminCredential; other issuers need it in their allowedCredentialTypes
+    credentialIssuers: (process.env.ADMIN_CREDENTIAL_ISSUERS?.split(',') || [])
+      .map(did => did.trim())
+      .filter(Boolean)
+  },
+
   // Trusted Issuers
   trustedIssuers: process.env.TRUSTED_ISSUERS?.split(',') || [
     'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
     'did:key:z6MknGc3ocHs2rt5u8Kf3hX7vnbqvTJvJ4C3gXR2YsE8WqmX'
   ],
 
+  // DID Resolution
+  did: {
+    resolverTimeout: parseInt(process.env.DID_RESOLVER_TIMEOUT || '5000'),
+    cacheTtl: parseInt(process.env.DID_CACHE_TTL || '3600'),
+    negativeCacheTtl: parseInt(process.env.DID_NEGATIVE_CACHE_TTL || '60')
+  },
+
+  // Revocation Configuration
+  revocation: {
+    feed: process.env.REVOCATION_FEED || 'none', // 'none', 'file' or 'http'
+    feedLocation: process.env.REVOCATION_FEED_LOCATION, // file path or URL template containing {issuer}
+    cacheTtl: parseInt(process.env.REVOCATION_CACHE_TTL || '600'),
+    monitorIntervalMs: parseInt(process.env.REVOCATION_MONITOR_INTERVAL_MS || '30000'), // 0 disables monitoring
+    monitorBatchSize: parseInt(process.env.REVOCATION_MONITOR_BATCH_SIZE || '100'),
+    noticeMaxAge: parseInt(process.env.REVOCATION_NOTICE_MAX_AGE || '300') // seconds an issuer-pushed notice stays acceptable
+  },
+
+  // Credential Status (Bitstring Status List / StatusList2021)
+  statusList: {
+    cacheTtl: parseInt(process.env.STATUS_LIST_CACHE_TTL || '600'),
+    fetchTimeoutMs: parseInt(process.env.STATUS_LIST_FETCH_TIMEOUT_MS || '5000')
+  },
+
   // WebSocket Configuration
   websocket: {
     enabled: process.env.WEBSOCKET_ENABLED !== 'false',
-    corsOrigin: process.env.WEBSOCKET_CORS_ORIGIN || '*'
+    corsOrigin: process.env.WEBSOCKET_CORS_ORIGIN || '*',
+    adapter: process.env.WEBSOCKET_ADAPTER || 'memory', // 'memory' or 'redis' (shares rooms across instances)
+    adapterKey: process.env.WEBSOCKET_ADAPTER_KEY || 'socket.io'
+  },
+
+  // Server-Sent Events status streams
+  events: {
+    replayBufferSize: parseInt(process.env.SSE_REPLAY_BUFFER_SIZE || '100'), // events kept per channel for Last-Event-ID
+    replayTtl: parseInt(process.env.SSE_REPLAY_TTL || '900'), // seconds
+    heartbeatIntervalMs: parseInt(process.env.SSE_HEARTBEAT_INTERVAL_MS || '25000'),
+    transport: process.env.STATUS_EVENTS_TRANSPORT || 'memory', // 'memory' or 'redis' (shared event IDs and fan-out)
+    transportKey: process.env.STATUS_EVENTS_KEY || 'status-events'
+  },
+
+  // OpenID for Verifiable Presentations (signed request objects, direct_post responses)
+  oid4vp: {
+    clientId: process.env.OID4VP_CLIENT_ID, // DID of the signing key; defaults to SERVICE_DID
+    signingKey: process.env.OID4VP_SIGNING_KEY, // PKCS#8 PEM or private JWK (Ed25519, P-256 or secp256k1)
+    keyId: process.env.OID4VP_KEY_ID,
+    requestTtl: parseInt(process.env.OID4VP_REQUEST_TTL || '300') // seconds
+  },
+
+  // Credential validity periods (validFrom/validUntil, issuanceDate/expirationDate, JWT nbf/exp)
+  credentials: {
+    clockSkew: parseInt(process.env.CREDENTIAL_CLOCK_SKEW || '60'), // seconds tolerated either side of a validity window
+    unboundPresentationMaxAge: parseInt(process.env.UNBOUND_PRESENTATION_MAX_AGE || '300') // seconds an unbound (batch) JWT-VP stays acceptable
+  },
+
+  // SD-JWT VC presentations
+  sdJwt: {
+    keyBindingMaxAge: parseInt(process.env.SD_JWT_KB_MAX_AGE || '300') // seconds a key binding JWT stays acceptable
+  },
+
+  // Outbound webhook deliveries
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'), // attempts before a delivery is dead-lettered
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '1000'), // doubled after each failed attempt
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000'),
+    deliveryLogSize: parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '1000'),
+    sessionExpirySweepMs: parseInt(process.env.WEBHOOK_SESSION_EXPIRY_SWEEP_MS || '30000') // how often naturally expired sessions are announced
   },
 
   // Error Handling
@@ -84,4 +168,4 @@ export const config = {
   isTest: process.env.NODE_ENV === 'test'
 };
 
-export default config;
\ No newline at end of file
+export default config;
@@ -1,4 +1,5 @@
 import { config } from './index';
+import type { PresentationDefinition } from '../models/types';
 
 export interface AttributeConstraint {
   name: string;
@@ -8,11 +9,15 @@ export interface AttributeConstraint {
   minValue?: number;
   maxValue?: number;
   pattern?: string;
+  // 'predicate' also accepts a range proof covering minValue/maxValue in place of the disclosed value
+  mode?: 'value' | 'predicate';
 }
 
 export interface EndpointRequirement {
   credentialTypes: string[];
   attributeConstraints: AttributeConstraint[];
+  // DIF Presentation Exchange definition offered to wallets; generated from the fields above when omitted
+  presentationDefinition?: PresentationDefinition;
 }
 
 export const serviceConfig: {
@@ -38,6 +43,7 @@ export const serviceConfig: {
     defaultDuration: config.session.defaultDuration,
     maxDuration: config.session.maxDuration,
     cleanupInterval: config.session.cleanupInterval,
+    store: config.session.store,
     enableMetadata: true
   },
   
@@ -104,7 +110,8 @@ export const serviceConfig: {
           name: 'age',
           required: true,
           minValue: 18,
-          maxValue: 120
+          maxValue: 120,
+          mode: 'predicate'
         }
       ]
     } as EndpointRequirement,
@@ -126,7 +133,8 @@ export const serviceConfig: {
           name: 'creditScore',
           required: true,
           minValue: 600,
-          maxValue: 850
+          maxValue: 850,
+          mode: 'predicate'
         },
         {
           name: 'income',
@@ -134,6 +142,18 @@ export const serviceConfig: {
           minValue: 30000
         }
       ]
+    } as EndpointRequirement,
+
+    // Operators authenticate to the admin API with an admin credential
+    '/admin': {
+      credentialTypes: ['AdminCredential'],
+      attributeConstraints: [
+        {
+          name: 'adminRole',
+          required: true,
+          allowedValues: ['viewer', 'operator', 'admin']
+        }
+      ]
     } as EndpointRequirement
   },
   
@@ -149,7 +169,8 @@ export const serviceConfig: {
     creditScore: 'Credit score for financial services',
     income: 'Annual income for financial qualification (optional)',
     phoneNumber: 'Verified phone number (optional)',
-    emailAddress: 'Verified email address (optional)'
+    emailAddress: 'Verified email address (optional)',
+    adminRole: 'Operator role for the admin API (viewer, operator or admin)'
   },
   
   // Error handling configuration
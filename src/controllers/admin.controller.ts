@@ -0,0 +1,204 @@
+import type { Request, Response } from 'express';
+import type ServiceProviderService from '../services/service-provider.service';
+import type CacheService from '../services/cache.service';
+import serviceConfig from '../config/service.config';
+import { config } from '../config';
+import logger from '../utils/logger';
+import {
+  AuthorizationError,
+  ReplayedPresentationError,
+  SessionNotFoundError,
+  ValidationError
+} from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+import { isAdminRole } from '../middleware/admin.middleware';
+
+const ADMIN_ENDPOINT = '/admin';
+
+export class AdminController {
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    private cacheService: CacheService
+  ) {}
+
+  // Create a presentation request for an admin credential
+  createPresentationRequest = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const presentationRequest = await this.serviceProvider.createPresentationRequest(ADMIN_ENDPOINT, req.body?.domain);
+
+    await this.cacheService.cachePresentationRequest(
+      presentationRequest.requestId,
+      { ...presentationRequest, endpoint: ADMIN_ENDPOINT },
+      300 // 5 minutes
+    );
+
+    res.json({
+      success: true,
+      presentationRequest
+    });
+  });
+
+  // Verify an admin credential presentation and open an admin session
+  verifyPresentation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { presentation, requestId } = req.body || {};
+
+    if (!presentation || !requestId) {
+      throw new ValidationError('Presentation and requestId are required');
+    }
+
+    const cachedRequest = await this.cacheService.getCachedPresentationRequest(requestId);
+    if (!cachedRequest) {
+      if (await this.cacheService.isPresentationRequestConsumed(requestId)) {
+        throw new ReplayedPresentationError(requestId);
+      }
+      throw new ValidationError('Presentation request not found or expired', { requestId });
+    }
+    if (cachedRequest.endpoint !== ADMIN_ENDPOINT) {
+      throw new ValidationError('Presentation request was not issued for the admin API', { requestId });
+    }
+
+    const verificationResult = await this.serviceProvider.verifyPresentationWithRequest(presentation, cachedRequest);
+
+    const consumed = await this.cacheService.consumePresentationRequest(requestId);
+    if (!consumed) {
+      throw new ReplayedPresentationError(requestId);
+    }
+
+    const adminRole = (verificationResult.disclosedAttributes || verificationResult.attributes)?.adminRole;
+    if (!isAdminRole(adminRole)) {
+      throw new AuthorizationError('Admin credential does not grant a known role', { requestId });
+    }
+
+    const session = await this.serviceProvider.createSessionFromVerification(verificationResult, {
+      requestId,
+      sessionType: 'admin',
+      adminRole
+    });
+
+    logger.info('Admin session created', {
+      sessionId: session.id,
+      holderDID: verificationResult.holderDID,
+      adminRole
+    });
+
+    res.json({
+      success: true,
+      sessionId: session.id,
+      role: adminRole,
+      expiresIn: session.expiresIn || serviceConfig.sessionConfig.defaultDuration
+    });
+  });
+
+  // Describe the authenticated operator
+  getPrincipal = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      admin: req.admin
+    });
+  });
+
+  // List a holder's active sessions
+  listSessions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { holderDID } = req.query;
+    if (!holderDID || typeof holderDID !== 'string') {
+      throw new ValidationError('holderDID query parameter is required');
+    }
+
+    const sessions = await this.serviceProvider.listHolderSessions(holderDID);
+
+    res.json({
+      success: true,
+      holderDID,
+      count: sessions.length,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        lastAccessedAt: session.lastAccessedAt,
+        credentialIds: session.credentialIds,
+        sessionType: session.metadata?.sessionType || 'holder'
+      }))
+    });
+  });
+
+  // Look up any holder's session
+  getSession = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const session = await this.serviceProvider.getSession(id);
+    if (!session) {
+      throw new SessionNotFoundError(id);
+    }
+
+    const metadata = await this.cacheService.getCachedSessionMetadata(id);
+
+    res.json({
+      success: true,
+      session: {
+        id: session.id,
+        holderDID: session.holderDID,
+        credentialIds: session.credentialIds,
+        attributes: session.attributes,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        metadata: { ...session.metadata, ...metadata }
+      }
+    });
+  });
+
+  // Revoke any holder's session
+  revokeSession = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const session = await this.serviceProvider.getSession(id);
+    if (!session) {
+      throw new SessionNotFoundError(id);
+    }
+
+    await this.serviceProvider.invalidateSession(id, 'admin');
+
+    logger.warn('Session revoked by admin', {
+      sessionId: id,
+      holderDID: session.holderDID,
+      adminId: req.admin?.id,
+      reason: req.body?.reason
+    });
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+      sessionId: id
+    });
+  });
+
+  // Effective configuration with secrets redacted
+  getConfiguration = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      configuration: {
+        nodeEnv: config.nodeEnv,
+        service: this.serviceProvider.getServiceInfo(),
+        redis: {
+          db: config.redis.db,
+          passwordConfigured: Boolean(config.redis.password)
+        },
+        session: config.session,
+        batch: config.batch,
+        rateLimit: config.rateLimit,
+        revocation: config.revocation,
+        statusList: config.statusList,
+        did: config.did,
+        websocket: config.websocket,
+        webhooks: config.webhooks,
+        credentials: config.credentials,
+        sdJwt: config.sdJwt,
+        admin: {
+          apiKeys: config.admin.apiKeys.length,
+          credentialIssuers: config.admin.credentialIssuers
+        },
+        endpointRequirements: serviceConfig.endpointRequirements
+      }
+    });
+  });
+}
+
+export default AdminController;
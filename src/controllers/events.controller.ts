@@ -0,0 +1,173 @@
+import type { Request, Response } from 'express';
+import type ServiceProviderService from '../services/service-provider.service';
+import { statusChannel, type StatusEvent, type StatusEventBus } from '../services/status-events';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+
+// Server-Sent Events streams carrying the same status payloads as the WebSocket server
+export class EventsController {
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    private statusEvents: StatusEventBus,
+    private heartbeatIntervalMs: number = config.events.heartbeatIntervalMs
+  ) {}
+
+  streamCredential = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { credentialIds } = await this.serviceProvider.getHolderScope(this.getHolderDID(req));
+    if (!credentialIds.has(id)) {
+      throw new AuthorizationError('Credential does not belong to this holder', { credentialId: id });
+    }
+
+    const revocationResults = await this.serviceProvider.batchCheckRevocations([id]);
+    const isRevoked = revocationResults.get(id) || false;
+
+    this.openStream(req, res, statusChannel('credential', id), 'credential:status', {
+      credentialId: id,
+      isRevoked,
+      status: isRevoked ? 'revoked' : 'valid',
+      timestamp: Date.now()
+    });
+  });
+
+  streamSession = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { sessionIds } = await this.serviceProvider.getHolderScope(this.getHolderDID(req));
+    const session = sessionIds.has(id) ? await this.serviceProvider.getSession(id) : null;
+    if (!session) {
+      throw new AuthorizationError('Session does not belong to this holder', { sessionId: id });
+    }
+
+    this.openStream(req, res, statusChannel('session', id), 'session:status', {
+      sessionId: id,
+      isValid: true,
+      expiresAt: session.expiresAt,
+      timestamp: Date.now()
+    });
+  });
+
+  streamIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { did } = req.params;
+    const { issuerDIDs } = await this.serviceProvider.getHolderScope(this.getHolderDID(req));
+    if (!issuerDIDs.has(did)) {
+      throw new AuthorizationError('Holder has no credential from this issuer', { issuerDID: did });
+    }
+
+    this.openStream(req, res, statusChannel('issuer', did), 'issuer:subscribed', {
+      issuerDID: did,
+      timestamp: Date.now()
+    });
+  });
+
+  private getHolderDID(req: Request): string {
+    if (!req.session) {
+      throw new AuthenticationError('Session required');
+    }
+    return req.session.holderDID;
+  }
+
+  // Send the current state, replay events missed since Last-Event-ID, then follow the channel
+  // until the client disconnects or the session it authenticated with ends
+  private openStream(
+    req: Request,
+    res: Response,
+    channel: string,
+    initialEvent: string,
+    initialData: Record<string, any>
+  ): void {
+    const session = req.session!;
+    const authChannel = statusChannel('session', session.id);
+    let sessionExpiresAt = new Date(session.expiresAt).getTime();
+
+    // no-transform keeps the compression middleware from buffering the stream
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: Record<string, any>, id?: string) => {
+      res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    res.write('retry: 5000\n\n');
+    send(initialEvent, initialData);
+
+    // Events arriving while missed ones are replayed are held back, then sent unless the replay covered them
+    const lastEventId = req.get('Last-Event-ID');
+    let held: StatusEvent[] | null = lastEventId ? [] : null;
+    const forward = (event: StatusEvent) => send(event.event, event.data, event.id);
+
+    const unsubscribe = this.statusEvents.subscribe(channel, event => held ? held.push(event) : forward(event));
+    if (lastEventId) {
+      this.statusEvents.replay(channel, lastEventId)
+        .catch(error => {
+          logger.error('Failed to replay SSE events', {
+            channel,
+            lastEventId,
+            error: error instanceof Error ? error.message : error
+          });
+          return [] as StatusEvent[];
+        })
+        .then(replayed => {
+          replayed.forEach(forward);
+          const lastReplayedId = Number(replayed[replayed.length - 1]?.id ?? lastEventId);
+          held?.filter(event => !(Number(event.id) <= lastReplayedId)).forEach(forward);
+          held = null;
+        });
+    }
+
+    const unsubscribeAuth = this.statusEvents.subscribe(authChannel, event => {
+      if (event.data.isValid === false) {
+        if (authChannel !== channel) {
+          send(event.event, event.data);
+        }
+        res.end();
+      }
+    });
+
+    // Keep proxies from timing out the connection, and notice when the session lapses
+    const heartbeat = setInterval(async () => {
+      res.write(': keep-alive\n\n');
+      if (sessionExpiresAt > Date.now()) {
+        return;
+      }
+
+      try {
+        const current = await this.serviceProvider.validateSession(session.id)
+          ? await this.serviceProvider.getSession(session.id)
+          : null;
+        if (current) {
+          sessionExpiresAt = new Date(current.expiresAt).getTime();
+        } else {
+          this.statusEvents.sessionExpired(session.id);
+        }
+      } catch (error) {
+        logger.error('Failed to check SSE session expiry', {
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }, this.heartbeatIntervalMs);
+    heartbeat.unref();
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      unsubscribeAuth();
+      logger.debug('SSE stream closed', { channel, sessionId: session.id });
+    });
+
+    logger.debug('SSE stream opened', {
+      channel,
+      sessionId: session.id,
+      lastEventId
+    });
+  }
+}
+
+export default EventsController;
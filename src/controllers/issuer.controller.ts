@@ -0,0 +1,83 @@
+import type { Request, Response } from 'express';
+import type { TrustedIssuerRegistry, TrustedIssuerInput } from '../services/issuer-registry';
+import logger from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const ISSUER_FIELDS = ['name', 'allowedCredentialTypes', 'validFrom', 'validUntil', 'status'] as const;
+
+export class IssuerController {
+  constructor(private issuerRegistry: TrustedIssuerRegistry) {}
+
+  // List all registered issuers, including suspended ones
+  listIssuers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuers = await this.issuerRegistry.listIssuers();
+
+    res.json({
+      success: true,
+      total: issuers.length,
+      issuers
+    });
+  });
+
+  getIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuer = await this.issuerRegistry.getIssuer(req.params.did);
+    if (!issuer) {
+      throw new NotFoundError(`Issuer not registered: ${req.params.did}`, { did: req.params.did });
+    }
+
+    res.json({ success: true, issuer });
+  });
+
+  addIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { did } = req.body || {};
+    if (!did || typeof did !== 'string') {
+      throw new ValidationError('Issuer DID is required');
+    }
+
+    const issuer = await this.issuerRegistry.addIssuer({ did, ...this.pickIssuerFields(req.body) });
+
+    res.status(201).json({ success: true, issuer });
+  });
+
+  updateIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuer = await this.issuerRegistry.updateIssuer(req.params.did, this.pickIssuerFields(req.body || {}));
+
+    res.json({ success: true, issuer });
+  });
+
+  suspendIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuer = await this.issuerRegistry.suspendIssuer(req.params.did);
+    logger.warn('Trusted issuer suspended', { did: issuer.did, reason: req.body?.reason });
+
+    res.json({ success: true, issuer });
+  });
+
+  reactivateIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuer = await this.issuerRegistry.reactivateIssuer(req.params.did);
+
+    res.json({ success: true, issuer });
+  });
+
+  removeIssuer = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.issuerRegistry.removeIssuer(req.params.did);
+
+    res.json({
+      success: true,
+      message: 'Issuer removed',
+      did: req.params.did
+    });
+  });
+
+  private pickIssuerFields(body: Record<string, any>): Omit<TrustedIssuerInput, 'did'> {
+    const fields: Record<string, any> = {};
+    ISSUER_FIELDS.forEach(field => {
+      if (body[field] !== undefined) {
+        fields[field] = body[field];
+      }
+    });
+    return fields;
+  }
+}
+
+export default IssuerController;
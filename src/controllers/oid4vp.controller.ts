@@ -0,0 +1,49 @@
+import type { Request, Response } from 'express';
+import { OID4VP_REQUEST_OBJECT_TYPE, type OID4VPVerifier } from '../services/oid4vp';
+import { ValidationError } from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class OID4VPController {
+  constructor(private verifier: OID4VPVerifier) {}
+
+  // Start an OID4VP flow for an endpoint; keep the transactionId private and hand the wallet the authorization request URI
+  createAuthorizationRequest = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { endpoint } = req.body || {};
+    if (!endpoint || typeof endpoint !== 'string') {
+      throw new ValidationError('Endpoint parameter is required');
+    }
+
+    const authorizationRequest = await this.verifier.createAuthorizationRequest(endpoint);
+
+    res.status(201).json({
+      success: true,
+      ...authorizationRequest
+    });
+  });
+
+  // request_uri: the signed request object fetched by the wallet
+  getRequestObject = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const requestObject = await this.verifier.getRequestObject(req.params.id);
+
+    res.type(`application/${OID4VP_REQUEST_OBJECT_TYPE}`).send(requestObject);
+  });
+
+  // response_uri: direct_post from the wallet; the session goes to the relying party, not the wallet
+  receiveResponse = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.verifier.handleResponse(req.body || {});
+
+    res.json({});
+  });
+
+  // Polled by the relying party until the wallet has responded
+  getTransaction = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const transaction = await this.verifier.getTransaction(req.params.transactionId);
+
+    res.json({
+      success: true,
+      ...transaction
+    });
+  });
+}
+
+export default OID4VPController;
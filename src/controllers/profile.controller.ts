@@ -1,5 +1,6 @@
 import type { Request, Response } from 'express';
 import type CacheService from '../services/cache.service';
+import type { PredicateResult } from '../models/types';
 import logger from '../utils/logger';
 import { AuthenticationError, ValidationError } from '../utils/errors';
 import { asyncHandler } from '../middleware/error.middleware';
@@ -109,10 +110,14 @@ export class ProfileController {
     // Check age verification
     let ageVerified = false;
     let actualAge: number | undefined;
+    const agePredicate: PredicateResult | undefined = session.metadata?.predicates?.age;
 
     if (session.attributes.age) {
       actualAge = session.attributes.age;
       ageVerified = actualAge >= ageThreshold;
+    } else if (agePredicate?.gte !== undefined) {
+      // Only the proven lower bound is known, so thresholds above it can't be verified
+      ageVerified = agePredicate.gte >= ageThreshold;
     } else if (session.attributes.isOver18 && ageThreshold <= 18) {
       ageVerified = session.attributes.isOver18 === true;
     } else if (session.attributes.isOver21 && ageThreshold <= 21) {
@@ -126,7 +131,8 @@ export class ProfileController {
       holderDID: session.holderDID,
       requiredAge: ageThreshold,
       verified: ageVerified,
-      hasExactAge: Boolean(actualAge)
+      hasExactAge: Boolean(actualAge),
+      provenByPredicate: !actualAge && Boolean(agePredicate)
     });
 
     res.json({
@@ -136,7 +142,8 @@ export class ProfileController {
         requiredAge: ageThreshold,
         hasExactAge: Boolean(actualAge),
         // Only return exact age if explicitly disclosed
-        ...(actualAge !== undefined && { actualAge })
+        ...(actualAge !== undefined && { actualAge }),
+        ...(actualAge === undefined && agePredicate && { provenMinimumAge: agePredicate.gte })
       }
     });
   });
@@ -155,9 +162,12 @@ export class ProfileController {
       throw new AuthenticationError('Must be over 21 for financial services');
     }
 
-    // Check credit score if available
+    // Check credit score if available, or the range proven in its place
     const creditScore = session.attributes.creditScore;
-    if (creditScore && creditScore < 600) {
+    const creditScorePredicate: PredicateResult | undefined = session.metadata?.predicates?.creditScore;
+    const lacksMinimumProof = creditScorePredicate !== undefined &&
+      (creditScorePredicate.gte === undefined || creditScorePredicate.gte < 600);
+    if ((creditScore && creditScore < 600) || (creditScore === undefined && lacksMinimumProof)) {
       throw new AuthenticationError('Minimum credit score of 600 required');
     }
 
@@ -176,9 +186,12 @@ export class ProfileController {
         id: session.holderDID,
         qualifications: {
           ageVerified: isOver21,
-          creditScoreVerified: Boolean(creditScore),
+          creditScoreVerified: Boolean(creditScore) || Boolean(creditScorePredicate),
           incomeVerified: Boolean(session.attributes.income),
           creditScore: creditScore,
+          ...(creditScore === undefined && creditScorePredicate && {
+            creditScoreRange: { min: creditScorePredicate.gte, max: creditScorePredicate.lte }
+          }),
           ...(session.attributes.income && { 
             incomeRange: this.getIncomeRange(session.attributes.income) 
           })
@@ -0,0 +1,28 @@
+import type { Request, Response } from 'express';
+import type ServiceProviderService from '../services/service-provider.service';
+import { ValidationError } from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+
+export class RevocationController {
+  constructor(private serviceProvider: ServiceProviderService) {}
+
+  // Accept a signed revocation notice (`{ notice: "<compact JWS>" }`) pushed by a trusted issuer
+  receiveRevocationNotice = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { notice } = req.body || {};
+    if (!notice || typeof notice !== 'string') {
+      throw new ValidationError('Signed revocation notice is required');
+    }
+
+    const applied = await this.serviceProvider.ingestRevocationNotice(notice);
+
+    res.json({
+      success: true,
+      noticeId: applied.noticeId,
+      issuerDID: applied.issuerDID,
+      revokedCredentials: applied.credentialIds.length,
+      receivedAt: new Date().toISOString()
+    });
+  });
+}
+
+export default RevocationController;
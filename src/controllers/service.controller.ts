@@ -32,13 +32,17 @@ export class ServiceController {
 
   // Get trusted issuers
   getTrustedIssuers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const issuers = await this.serviceProvider.getIssuerRegistry().listIssuers();
+
     res.json({
       success: true,
-      trustedIssuers: serviceConfig.trustedIssuers.map(issuer => ({
-        did: issuer,
-        // In a real implementation, you might include additional issuer information
-        name: `Issuer ${issuer.slice(-8)}`, // Last 8 characters as a simple name
-        status: 'active'
+      trustedIssuers: issuers.map(issuer => ({
+        did: issuer.did,
+        name: issuer.name,
+        status: issuer.status,
+        allowedCredentialTypes: issuer.allowedCredentialTypes,
+        validFrom: issuer.validFrom,
+        validUntil: issuer.validUntil
       }))
     });
   });
@@ -291,9 +295,9 @@ export class ServiceController {
                 'application/json': {
                   schema: {
                     type: 'object',
+                    required: ['presentation', 'requestId'],
                     properties: {
                       presentation: { type: 'object' },
-                      endpoint: { type: 'string' },
                       requestId: { type: 'string' }
                     }
                   }
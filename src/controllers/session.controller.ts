@@ -274,8 +274,7 @@ export class SessionController {
       throw new ValidationError('Session ID is required');
     }
 
-    // Check if the requesting session matches the requested session ID
-    // or if the user has admin privileges (not implemented in this example)
+    // Holders may only read their own session; operators use GET /admin/sessions/:id
     if (req.sessionId !== id) {
       throw new AuthenticationError('Cannot access other user sessions');
     }
@@ -323,9 +322,7 @@ export class SessionController {
     }
 
     try {
-      // In a real implementation, you would query sessions by holderDID
-      // For this example, we'll just return the current session
-      const sessions = [req.session];
+      const sessions = await this.serviceProvider.listHolderSessions(req.session.holderDID);
 
       logger.debug('Sessions listed', {
         holderDID: req.session.holderDID,
@@ -336,6 +333,7 @@ export class SessionController {
         success: true,
         sessions: sessions.map(session => ({
           id: session.id,
+          current: session.id === req.sessionId,
           createdAt: session.createdAt,
           expiresAt: session.expiresAt,
           lastAccessedAt: session.lastAccessedAt,
@@ -352,6 +350,30 @@ export class SessionController {
     }
   });
 
+  // Log out everywhere: invalidate every session belonging to the caller's holder DID
+  invalidateAllSessions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!req.session) {
+      throw new AuthenticationError('Session required');
+    }
+
+    const { holderDID } = req.session;
+    const invalidatedSessions = await this.serviceProvider.invalidateHolderSessions(holderDID);
+
+    await Promise.all(invalidatedSessions.map(sessionId => this.cacheService.delete(`session:meta:${sessionId}`)));
+
+    logger.info('All holder sessions invalidated', {
+      holderDID,
+      count: invalidatedSessions.length
+    });
+
+    res.json({
+      success: true,
+      invalidatedSessions,
+      count: invalidatedSessions.length,
+      invalidatedAt: new Date().toISOString()
+    });
+  });
+
   // Get session activity/statistics
   getSessionActivity = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
@@ -2,18 +2,26 @@ import type { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import type ServiceProviderService from '../services/service-provider.service';
 import type CacheService from '../services/cache.service';
+import type BatchJobQueue from '../services/batch-jobs';
 import serviceConfig from '../config/service.config';
+import { config } from '../config';
 import logger from '../utils/logger';
 import {
   ValidationError,
-  InvalidPresentationError
+  AuthenticationError,
+  InvalidPresentationError,
+  NotFoundError,
+  ReplayedPresentationError,
+  ServiceError
 } from '../utils/errors';
+import { getPresentationDefinition } from '../utils/presentation-exchange';
 import { asyncHandler } from '../middleware/error.middleware';
 
 export class VerificationController {
   constructor(
     private serviceProvider: ServiceProviderService,
-    private cacheService: CacheService
+    private cacheService: CacheService,
+    private batchJobs: BatchJobQueue | null = null
   ) {}
 
   // Get service requirements for an endpoint
@@ -32,11 +40,10 @@ export class VerificationController {
       });
     }
 
-    const challenge = require('crypto').randomBytes(32).toString('hex');
-    const requestId = uuidv4();
-
-    // Cache the challenge for later verification
-    await this.cacheService.set(`challenge:${requestId}`, challenge, 300); // 5 minutes
+    // A single-use request, so the returned requestId and challenge can be presented to /auth/verify-presentation
+    const presentationRequest = await this.serviceProvider.createPresentationRequest(endpoint);
+    const { requestId, challenge, domain } = presentationRequest;
+    await this.cacheService.cachePresentationRequest(requestId, { ...presentationRequest, endpoint }, 300); // 5 minutes
 
     const response = {
       serviceDID: serviceConfig.serviceDID,
@@ -47,8 +54,10 @@ export class VerificationController {
         credentialTypes: requirements.credentialTypes,
         attributeConstraints: requirements.attributeConstraints
       },
+      presentationDefinition: getPresentationDefinition(endpoint, requirements),
       attributeDescriptions: serviceConfig.attributeDescriptions,
       challenge,
+      domain,
       presentationEndpoint: '/auth/verify-presentation',
       expiresIn: 300 // 5 minutes
     };
@@ -80,7 +89,7 @@ export class VerificationController {
       // Cache the presentation request for later validation
       await this.cacheService.cachePresentationRequest(
         presentationRequest.requestId,
-        presentationRequest,
+        { ...presentationRequest, endpoint },
         300 // 5 minutes
       );
 
@@ -106,49 +115,43 @@ export class VerificationController {
 
   // Verify a single presentation
   verifyPresentation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { presentation, endpoint, requestId } = req.body;
+    const { presentation, requestId } = req.body;
 
     if (!presentation) {
       throw new ValidationError('Presentation is required');
     }
 
-    if (!endpoint && !requestId) {
-      throw new ValidationError('Either endpoint or requestId is required');
+    // Sessions are only issued against a single-use request, so a captured presentation can't be replayed
+    if (!requestId) {
+      throw new ValidationError('requestId is required; create one with /auth/request-presentation');
     }
 
+    let endpoint: string | undefined;
     try {
-      let verificationResult;
-      let sessionMetadata = { endpoint };
-
-      if (requestId) {
-        // Verify against a cached presentation request
-        const cachedRequest = await this.cacheService.getCachedPresentationRequest(requestId);
-        if (!cachedRequest) {
-          throw new ValidationError('Presentation request not found or expired', { requestId });
+      const cachedRequest = await this.cacheService.getCachedPresentationRequest(requestId);
+      if (!cachedRequest) {
+        if (await this.cacheService.isPresentationRequestConsumed(requestId)) {
+          throw new ReplayedPresentationError(requestId);
         }
+        throw new ValidationError('Presentation request not found or expired', { requestId });
+      }
+      endpoint = cachedRequest.endpoint;
 
-        verificationResult = await this.serviceProvider.verifyPresentationWithRequest(
-          presentation,
-          cachedRequest
-        );
-
-        sessionMetadata = { requestId, ...sessionMetadata };
-      } else {
-        // Legacy verification by endpoint
-        const legacyResult = await this.serviceProvider.verifyPresentation(presentation, endpoint);
-        verificationResult = {
-          isValid: true,
-          holderDID: legacyResult.holderDID,
-          credentialIds: [legacyResult.credentialId],
-          disclosedAttributes: legacyResult.attributes,
-          verificationMethod: 'legacy'
-        };
+      const verificationResult = await this.serviceProvider.verifyPresentationWithRequest(
+        presentation,
+        cachedRequest
+      );
+
+      // Consume the request before issuing a session so concurrent replays can't both succeed
+      const consumed = await this.cacheService.consumePresentationRequest(requestId);
+      if (!consumed) {
+        throw new ReplayedPresentationError(requestId);
       }
 
       // Create session from verified presentation
       const session = await this.serviceProvider.createSessionFromVerification(
         verificationResult,
-        sessionMetadata
+        { requestId, endpoint }
       );
 
       // Cache session metadata
@@ -200,6 +203,11 @@ export class VerificationController {
       throw new ValidationError('At least one presentation is required');
     }
 
+    if (options.async) {
+      await this.submitBatchJob(req, presentations, res);
+      return;
+    }
+
     if (presentations.length > 50) {
       throw new ValidationError('Maximum 50 presentations allowed per batch');
     }
@@ -248,6 +256,34 @@ export class VerificationController {
     }
   });
 
+  // Queue a large batch for background verification; progress is polled or streamed over WebSocket.
+  // Jobs hold their presentations in memory until verified, so only session holders may submit them
+  private async submitBatchJob(req: Request, presentations: any[], res: Response): Promise<void> {
+    if (!req.session) {
+      throw new AuthenticationError('Session required for async batch verification');
+    }
+    if (!this.batchJobs) {
+      throw new ServiceError('Async batch verification is not available', 503, 'ASYNC_BATCH_UNAVAILABLE');
+    }
+
+    const maxPresentations = config.batch.asyncMaxPresentations;
+    if (presentations.length > maxPresentations) {
+      throw new ValidationError(`Maximum ${maxPresentations} presentations allowed per async batch`, {
+        count: presentations.length
+      });
+    }
+
+    const job = await this.batchJobs.submit(presentations, req.session.holderDID);
+
+    res.status(202).json({
+      success: true,
+      batchId: job.batchId,
+      status: job.status,
+      total: job.total,
+      statusEndpoint: `/auth/presentation/${job.batchId}`
+    });
+  }
+
   // Batch check revocation status
   batchCheckRevocations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { credentialIds } = req.body;
@@ -320,7 +356,31 @@ export class VerificationController {
 
     // In a real implementation, you would store presentation verification results
     // For this example, we'll check if there's a cached batch result
-    const batchResult = await this.cacheService.getCachedBatchResult(id);
+    const batchResult = await this.cacheService.getCachedBatchResult(id)
+      || (this.batchJobs ? await this.batchJobs.getJob(id) : null);
+
+    // Async jobs carry their own status; synchronous batch results are cached once complete.
+    // Job results hold holder attributes, so they are only shown to the submitter, as on the WebSocket
+    if (batchResult?.batchId && batchResult.status) {
+      if (!req.session || batchResult.submittedBy !== req.session.holderDID) {
+        throw new NotFoundError('Batch job not found', { id });
+      }
+
+      res.json({
+        id,
+        type: 'batch_verification',
+        status: batchResult.status,
+        progress: {
+          total: batchResult.total,
+          processed: batchResult.processed,
+          successful: batchResult.successful,
+          failed: batchResult.failed
+        },
+        result: batchResult.result,
+        error: batchResult.error
+      });
+      return;
+    }
 
     if (batchResult) {
       res.json({
@@ -345,6 +405,15 @@ export class VerificationController {
       return;
     }
 
+    if (await this.cacheService.isPresentationRequestConsumed(id)) {
+      res.json({
+        id,
+        type: 'presentation_request',
+        status: 'consumed'
+      });
+      return;
+    }
+
     throw new ValidationError('Presentation or batch result not found', { id });
   });
 
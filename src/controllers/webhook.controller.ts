@@ -0,0 +1,130 @@
+import type { Request, Response } from 'express';
+import {
+  redactSubscription,
+  type WebhookDispatcher,
+  type WebhookSubscriptionChanges
+} from '../services/webhooks';
+import type { WebhookDeliveryStatus } from '../models/types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const SUBSCRIPTION_FIELDS = ['url', 'events', 'description', 'active'] as const;
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['delivered', 'retrying', 'dead_lettered'];
+
+export class WebhookController {
+  constructor(private webhooks: WebhookDispatcher) {}
+
+  listSubscriptions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscriptions = await this.webhooks.listSubscriptions();
+
+    res.json({
+      success: true,
+      total: subscriptions.length,
+      subscriptions: subscriptions.map(redactSubscription)
+    });
+  });
+
+  getSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await this.webhooks.getSubscription(req.params.id);
+    if (!subscription) {
+      throw new NotFoundError(`Webhook subscription not found: ${req.params.id}`, { id: req.params.id });
+    }
+
+    res.json({ success: true, subscription: redactSubscription(subscription) });
+  });
+
+  // The signing secret is returned here only; store it on the receiving side
+  createSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { url, events, secret } = req.body || {};
+    if (!url || typeof url !== 'string') {
+      throw new ValidationError('Webhook URL is required');
+    }
+
+    const subscription = await this.webhooks.createSubscription({
+      ...this.pickSubscriptionFields(req.body),
+      url,
+      events,
+      secret
+    });
+
+    res.status(201).json({ success: true, subscription });
+  });
+
+  updateSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await this.webhooks.updateSubscription(
+      req.params.id,
+      this.pickSubscriptionFields(req.body || {})
+    );
+
+    res.json({ success: true, subscription: redactSubscription(subscription) });
+  });
+
+  deleteSubscription = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.webhooks.deleteSubscription(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Webhook subscription deleted',
+      id: req.params.id
+    });
+  });
+
+  // Delivery log, filterable by subscription, event and status
+  listDeliveries = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { subscriptionId, eventId, status, limit } = req.query;
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      throw new ValidationError('Invalid delivery status filter', { status, supported: DELIVERY_STATUSES });
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : 100;
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > 1000) {
+      throw new ValidationError('limit must be between 1 and 1000', { limit });
+    }
+
+    const deliveries = await this.webhooks.listDeliveries({
+      subscriptionId: typeof subscriptionId === 'string' ? subscriptionId : undefined,
+      eventId: typeof eventId === 'string' ? eventId : undefined,
+      status: status as WebhookDeliveryStatus | undefined,
+      limit: parsedLimit
+    });
+
+    res.json({
+      success: true,
+      total: deliveries.length,
+      deliveries
+    });
+  });
+
+  listDeadLetters = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const deadLetters = await this.webhooks.listDeadLetters();
+
+    res.json({
+      success: true,
+      total: deadLetters.length,
+      deadLetters
+    });
+  });
+
+  redeliver = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const deadLetter = await this.webhooks.redeliver(req.params.deliveryId);
+
+    res.status(202).json({
+      success: true,
+      message: 'Delivery requeued',
+      deliveryId: deadLetter.deliveryId,
+      eventId: deadLetter.event.id
+    });
+  });
+
+  private pickSubscriptionFields(body: Record<string, any>): WebhookSubscriptionChanges {
+    const fields: Record<string, any> = {};
+    SUBSCRIPTION_FIELDS.forEach(field => {
+      if (body[field] !== undefined) {
+        fields[field] = body[field];
+      }
+    });
+    return fields;
+  }
+}
+
+export default WebhookController;
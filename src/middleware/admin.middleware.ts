@@ -0,0 +1,142 @@
+import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import type ServiceProviderService from '../services/service-provider.service';
+import type { AdminPermission, AdminPrincipal, AdminRole } from '../models/types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { AuthenticationError, AuthorizationError } from '../utils/errors';
+
+// Extend Express Request interface with the authenticated operator
+declare global {
+  namespace Express {
+    interface Request {
+      admin?: AdminPrincipal;
+    }
+  }
+}
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: ['sessions:read', 'issuers:read', 'webhooks:read', 'config:read'],
+  operator: ['sessions:read', 'sessions:revoke', 'issuers:read', 'webhooks:read', 'config:read'],
+  admin: ['sessions:read', 'sessions:revoke', 'issuers:read', 'issuers:write', 'webhooks:read', 'webhooks:write', 'config:read']
+};
+
+export const isAdminRole = (role: any): role is AdminRole => {
+  return typeof role === 'string' && role in ADMIN_ROLE_PERMISSIONS;
+};
+
+const fingerprint = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+export class AdminMiddleware {
+  private apiKeys: Array<{ hash: Buffer; id: string; role: AdminRole }>;
+
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    apiKeys: Array<{ key: string; role: string }> = config.admin.apiKeys
+  ) {
+    this.apiKeys = apiKeys
+      .filter(({ key, role }) => {
+        if (!isAdminRole(role)) {
+          logger.warn('Ignoring admin API key with unknown role', { role });
+          return false;
+        }
+        return Boolean(key);
+      })
+      .map(({ key, role }) => {
+        const hash = fingerprint(key);
+        return { hash: Buffer.from(hash, 'hex'), id: `key:${hash.slice(0, 8)}`, role: role as AdminRole };
+      });
+  }
+
+  // Authenticate with an X-API-Key header or a Bearer admin session from an admin credential presentation
+  authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const apiKey = req.get('X-API-Key');
+      if (apiKey) {
+        req.admin = this.authenticateApiKey(apiKey);
+      } else {
+        req.admin = await this.authenticateSession(req.headers.authorization);
+      }
+
+      logger.debug('Admin request authenticated', {
+        adminId: req.admin.id,
+        role: req.admin.role,
+        method: req.admin.method,
+        path: req.originalUrl
+      });
+      next();
+    } catch (error) {
+      logger.warn('Admin authentication failed', {
+        path: req.originalUrl,
+        ip: req.ip,
+        error: error instanceof Error ? error.message : error
+      });
+      next(error);
+    }
+  };
+
+  // Require the authenticated operator's role to grant a permission
+  requirePermission = (permission: AdminPermission) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!req.admin) {
+        next(new AuthenticationError('Admin authentication required'));
+        return;
+      }
+
+      if (!ADMIN_ROLE_PERMISSIONS[req.admin.role].includes(permission)) {
+        logger.warn('Admin permission denied', {
+          adminId: req.admin.id,
+          role: req.admin.role,
+          permission,
+          path: req.originalUrl
+        });
+        next(new AuthorizationError(`Role ${req.admin.role} lacks permission ${permission}`, {
+          role: req.admin.role,
+          requiredPermission: permission
+        }));
+        return;
+      }
+
+      next();
+    };
+  };
+
+  private authenticateApiKey(apiKey: string): AdminPrincipal {
+    // Compare digests in constant time so key prefixes can't be probed
+    const hash = Buffer.from(fingerprint(apiKey), 'hex');
+    const match = this.apiKeys.find(entry => crypto.timingSafeEqual(entry.hash, hash));
+    if (!match) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return { id: match.id, role: match.role, method: 'api-key' };
+  }
+
+  private async authenticateSession(authHeader?: string): Promise<AdminPrincipal> {
+    const match = authHeader?.match(/^Bearer\s+(.+)$/);
+    if (!match) {
+      throw new AuthenticationError('Admin API requires an X-API-Key header or an admin session bearer token');
+    }
+
+    const sessionId = match[1];
+    const session = await this.serviceProvider.validateSession(sessionId)
+      ? await this.serviceProvider.getSession(sessionId)
+      : null;
+    if (!session) {
+      throw new AuthenticationError('Admin session is invalid or expired');
+    }
+
+    await this.serviceProvider.checkSessionCredentials(session);
+
+    const role = session.metadata?.adminRole;
+    if (session.metadata?.sessionType !== 'admin' || !isAdminRole(role)) {
+      throw new AuthorizationError('Session was not issued for the admin API');
+    }
+
+    return { id: session.holderDID, role, method: 'credential', sessionId };
+  }
+}
+
+export default AdminMiddleware;
@@ -56,6 +56,9 @@ export class AuthMiddleware {
         throw new SessionNotFoundError(sessionId);
       }
 
+      // Sessions derived from since-revoked or expired credentials are invalidated and refused
+      await this.serviceProvider.checkSessionCredentials(session);
+
       // Attach session to request object
       req.session = session;
       req.sessionId = sessionId;
@@ -15,6 +15,7 @@ export interface ExtendedVerificationResult {
     context?: any;
   }>;
   verificationMethod?: string;
+  predicates?: Record<string, PredicateResult>; // range predicates proven over undisclosed attributes
 }
 
 export interface ExtendedSession {
@@ -92,4 +93,289 @@ export interface SessionCreationOptions {
   attributes: Record<string, any>;
   expiresIn?: number;
   metadata?: Record<string, any>;
-}
\ No newline at end of file
+}
+export interface ConstraintEvaluationResult {
+  name: string;
+  passed: boolean;
+  reason?: string;
+  code?: 'MISSING_REQUIRED_ATTRIBUTE' | 'ATTRIBUTE_CONSTRAINT_VIOLATION';
+}
+
+export interface ConstraintEvaluationSummary {
+  satisfied: boolean;
+  results: ConstraintEvaluationResult[];
+  missingAttributes: string[];
+  violations: ConstraintEvaluationResult[];
+}
+
+// Issuer-signed commitment to a numeric attribute, carried in `credentialSubject.predicateCommitments`.
+// Anchors are the ends of two hash chains whose seeds only the holder knows: `value - min` steps for
+// lower bounds and `max - value` steps for upper bounds.
+export interface PredicateCommitment {
+  type: 'HashChainRangeCommitment';
+  min: number;
+  max: number;
+  lowerAnchor: string;
+  upperAnchor: string;
+}
+
+// Holder proof that an attribute is >= `gte` and/or <= `lte` without disclosing it
+export interface PredicateProof {
+  attribute: string;
+  credentialId?: string; // defaults to the first presented credential committing to the attribute
+  gte?: number;
+  lte?: number;
+  proof: {
+    gte?: string;
+    lte?: string;
+  };
+}
+
+// Bounds proven for an attribute, combined across the presentation's predicate proofs
+export interface PredicateResult {
+  credentialId: string;
+  gte?: number;
+  lte?: number;
+}
+
+export interface VerificationSample {
+  success: boolean;
+  processingTimeMs: number;
+  errorCode?: string;
+}
+
+export interface VerificationStatisticsWindow {
+  totalVerifications: number;
+  successful: number;
+  failed: number;
+  successRate: number;
+  averageProcessingTime: number;
+  latencyPercentiles: {
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+  errorCodes: Record<string, number>;
+}
+
+export interface VerificationStatistics extends VerificationStatisticsWindow {
+  totalBatches: number;
+  lastHour: VerificationStatisticsWindow;
+  lastDay: VerificationStatisticsWindow;
+  lastUpdated: string;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface BatchJob {
+  batchId: string;
+  status: BatchJobStatus;
+  total: number;
+  processed: number;
+  successful: number;
+  failed: number;
+  submittedBy?: string; // holder DID of the session that submitted the job
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: ExtendedBatchVerificationResult;
+  error?: string;
+}
+
+export interface SessionInvalidation {
+  sessionId: string;
+  reason: string; // e.g. logout, logout_all, admin
+}
+
+// DIF Presentation Exchange v2 presentation definitions and submissions
+export interface PresentationDefinitionField {
+  id?: string;
+  path: string[]; // JSONPath expressions, the first one that resolves is used
+  name?: string;
+  purpose?: string;
+  filter?: Record<string, any>; // JSON Schema the value must satisfy
+  optional?: boolean;
+  predicate?: 'required' | 'preferred'; // the filter may be proven by a predicate proof instead of the value
+}
+
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  group?: string[];
+  format?: Record<string, any>;
+  constraints?: {
+    limit_disclosure?: 'required' | 'preferred';
+    fields?: PresentationDefinitionField[];
+  };
+}
+
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  from?: string; // input descriptor group
+  from_nested?: SubmissionRequirement[];
+}
+
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, any>;
+  submission_requirements?: SubmissionRequirement[];
+  input_descriptors: InputDescriptor[];
+}
+
+export interface DescriptorMapEntry {
+  id: string;
+  format: string;
+  path: string;
+  path_nested?: Omit<DescriptorMapEntry, 'id'> & { id?: string };
+}
+
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+export interface PresentationExchangeError {
+  code: string;
+  message: string;
+  context?: Record<string, any>;
+}
+
+export interface PresentationSubmissionEvaluation {
+  satisfied: boolean;
+  matches: Record<string, any>; // input descriptor ID -> credential that satisfied it
+  errors: PresentationExchangeError[]; // also lists descriptors the submission requirements didn't need
+}
+
+// Outcome of a single presentation verification; holder details are only known once verification succeeds
+export interface PresentationVerificationEvent {
+  requestId: string;
+  holderDID?: string;
+  credentialIds?: string[];
+  errorCode?: string;
+}
+
+// What a holder may follow over real-time transports, derived from their active sessions
+export interface HolderScope {
+  sessionIds: Set<string>;
+  credentialIds: Set<string>;
+  issuerDIDs: Set<string>;
+}
+
+export interface BatchJobProgress {
+  batchId: string;
+  status: BatchJobStatus;
+  total: number;
+  processed: number;
+  successful: number;
+  failed: number;
+  results: ExtendedBatchVerificationResult['results'];
+  timestamp: number;
+}
+
+export interface DIDResolutionMetadata {
+  contentType?: string;
+  error?: string;
+  message?: string;
+  retrieved?: string;
+  cached?: boolean;
+  duration?: number;
+}
+
+export interface DIDResolutionResult {
+  didDocument: Record<string, any> | null;
+  didResolutionMetadata: DIDResolutionMetadata;
+  didDocumentMetadata: Record<string, any>;
+}
+
+export type TrustedIssuerStatus = 'active' | 'suspended';
+
+export interface TrustedIssuer {
+  did: string;
+  name: string;
+  allowedCredentialTypes: string[]; // empty allows any credential type
+  validFrom?: string;
+  validUntil?: string;
+  status: TrustedIssuerStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookEventType =
+  | 'presentation.verified'
+  | 'presentation.failed'
+  | 'session.created'
+  | 'session.expired'
+  | 'credential.revoked';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string; // HMAC key; only returned when the subscription is created
+  description?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookEvent {
+  id: string; // stable across retries so receivers can deduplicate
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export type WebhookDeliveryStatus = 'delivered' | 'retrying' | 'dead_lettered';
+
+// One delivery log entry per HTTP attempt
+export interface WebhookDeliveryAttempt {
+  deliveryId: string; // one event sent to one subscription
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  url: string;
+  attempt: number;
+  status: WebhookDeliveryStatus;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: string;
+  nextRetryAt?: string;
+}
+
+export interface WebhookDeadLetter {
+  deliveryId: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent;
+  attempts: number;
+  lastError: string;
+  deadLetteredAt: string;
+}
+
+export type AdminRole = 'viewer' | 'operator' | 'admin';
+
+export type AdminPermission =
+  | 'sessions:read'
+  | 'sessions:revoke'
+  | 'issuers:read'
+  | 'issuers:write'
+  | 'webhooks:read'
+  | 'webhooks:write'
+  | 'config:read';
+
+export interface AdminPrincipal {
+  id: string; // API key fingerprint or holder DID
+  role: AdminRole;
+  method: 'api-key' | 'credential';
+  sessionId?: string;
+}
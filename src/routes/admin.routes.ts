@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import type AdminController from '../controllers/admin.controller';
+import type IssuerController from '../controllers/issuer.controller';
+import type WebhookController from '../controllers/webhook.controller';
+import type AdminMiddleware from '../middleware/admin.middleware';
+import rateLimitMiddleware from '../middleware/rate-limit.middleware';
+
+export function createAdminRoutes(
+  adminController: AdminController,
+  issuerController: IssuerController,
+  webhookController: WebhookController,
+  adminMiddleware: AdminMiddleware
+): Router {
+  const router = Router();
+
+  // Admin credential login (public, strictly rate limited)
+  router.post(
+    '/auth/request-presentation',
+    rateLimitMiddleware.presentationRequestRateLimit,
+    adminController.createPresentationRequest
+  );
+
+  router.post(
+    '/auth/verify-presentation',
+    rateLimitMiddleware.sessionRateLimit,
+    adminController.verifyPresentation
+  );
+
+  // Everything below requires an API key or admin session
+  router.use(rateLimitMiddleware.standardRateLimit);
+  router.use(adminMiddleware.authenticate);
+
+  router.get('/me', adminController.getPrincipal);
+
+  // Session lookup and revocation across holders
+  router.get('/sessions', adminMiddleware.requirePermission('sessions:read'), adminController.listSessions);
+  router.get('/sessions/:id', adminMiddleware.requirePermission('sessions:read'), adminController.getSession);
+  router.delete('/sessions/:id', adminMiddleware.requirePermission('sessions:revoke'), adminController.revokeSession);
+
+  // Trusted issuer management
+  router.get('/issuers', adminMiddleware.requirePermission('issuers:read'), issuerController.listIssuers);
+  router.post('/issuers', adminMiddleware.requirePermission('issuers:write'), issuerController.addIssuer);
+  router.get('/issuers/:did', adminMiddleware.requirePermission('issuers:read'), issuerController.getIssuer);
+  router.patch('/issuers/:did', adminMiddleware.requirePermission('issuers:write'), issuerController.updateIssuer);
+  router.post(
+    '/issuers/:did/suspend',
+    adminMiddleware.requirePermission('issuers:write'),
+    issuerController.suspendIssuer
+  );
+  router.post(
+    '/issuers/:did/reactivate',
+    adminMiddleware.requirePermission('issuers:write'),
+    issuerController.reactivateIssuer
+  );
+  router.delete('/issuers/:did', adminMiddleware.requirePermission('issuers:write'), issuerController.removeIssuer);
+
+  // Outbound webhook subscriptions, delivery log and dead letters
+  router.get('/webhooks', adminMiddleware.requirePermission('webhooks:read'), webhookController.listSubscriptions);
+  router.post('/webhooks', adminMiddleware.requirePermission('webhooks:write'), webhookController.createSubscription);
+  router.get('/webhooks/deliveries', adminMiddleware.requirePermission('webhooks:read'), webhookController.listDeliveries);
+  router.get(
+    '/webhooks/dead-letters',
+    adminMiddleware.requirePermission('webhooks:read'),
+    webhookController.listDeadLetters
+  );
+  router.post(
+    '/webhooks/dead-letters/:deliveryId/redeliver',
+    adminMiddleware.requirePermission('webhooks:write'),
+    webhookController.redeliver
+  );
+  router.get('/webhooks/:id', adminMiddleware.requirePermission('webhooks:read'), webhookController.getSubscription);
+  router.patch(
+    '/webhooks/:id',
+    adminMiddleware.requirePermission('webhooks:write'),
+    webhookController.updateSubscription
+  );
+  router.delete(
+    '/webhooks/:id',
+    adminMiddleware.requirePermission('webhooks:write'),
+    webhookController.deleteSubscription
+  );
+
+  // Configuration inspection
+  router.get('/config', adminMiddleware.requirePermission('config:read'), adminController.getConfiguration);
+
+  return router;
+}
+
+export default createAdminRoutes;
@@ -27,6 +27,7 @@ export function createAuthRoutes(
   router.post(
     '/batch-verify',
     rateLimitMiddleware.batchRateLimit,
+    authMiddleware.optionalSession,
     verificationController.batchVerifyPresentations
   );
 
@@ -39,6 +40,7 @@ export function createAuthRoutes(
   router.get(
     '/presentation/:id',
     rateLimitMiddleware.standardRateLimit,
+    authMiddleware.optionalSession,
     verificationController.getPresentationStatus
   );
 
@@ -83,6 +85,13 @@ export function createAuthRoutes(
     sessionController.listSessions
   );
 
+  router.delete(
+    '/sessions',
+    rateLimitMiddleware.sessionRateLimit,
+    authMiddleware.validateSession,
+    sessionController.invalidateAllSessions
+  );
+
   router.get(
     '/session/:id/activity',
     rateLimitMiddleware.standardRateLimit,
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import type EventsController from '../controllers/events.controller';
+import type AuthMiddleware from '../middleware/auth.middleware';
+import rateLimitMiddleware from '../middleware/rate-limit.middleware';
+
+export function createEventsRoutes(
+  eventsController: EventsController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  // Streams are scoped to the authenticated holder's own sessions, credentials and issuers
+  router.use(rateLimitMiddleware.standardRateLimit);
+  router.use(authMiddleware.validateSession);
+
+  router.get('/credential/:id', eventsController.streamCredential);
+  router.get('/session/:id', eventsController.streamSession);
+  router.get('/issuer/:did', eventsController.streamIssuer);
+
+  return router;
+}
+
+export default createEventsRoutes;
@@ -1,32 +1,75 @@
 import { Router } from 'express';
-import ServiceProviderService from '../services/service-provider.service';
+import {
+  createServiceProviderService,
+  type ServiceProviderService
+} from '../services/service-provider.service';
 import CacheService from '../services/cache.service';
+import BatchJobQueue from '../services/batch-jobs';
+import { createStatusEventBus, type StatusEventBus } from '../services/status-events';
+import { createWebhookDispatcher, type WebhookDispatcher } from '../services/webhooks';
+import { createOID4VPVerifier } from '../services/oid4vp';
 import VerificationController from '../controllers/verification.controller';
 import SessionController from '../controllers/session.controller';
 import ServiceController from '../controllers/service.controller';
 import ProfileController from '../controllers/profile.controller';
+import IssuerController from '../controllers/issuer.controller';
+import AdminController from '../controllers/admin.controller';
+import RevocationController from '../controllers/revocation.controller';
+import EventsController from '../controllers/events.controller';
+import WebhookController from '../controllers/webhook.controller';
+import OID4VPController from '../controllers/oid4vp.controller';
 import AuthMiddleware from '../middleware/auth.middleware';
+import AdminMiddleware from '../middleware/admin.middleware';
 import createAuthRoutes from './auth.routes';
 import createServiceRoutes from './service.routes';
 import createProfileRoutes from './profile.routes';
+import createAdminRoutes from './admin.routes';
+import createIssuerRoutes from './issuer.routes';
+import createEventsRoutes from './events.routes';
+import createOID4VPRoutes from './oid4vp.routes';
+import { config } from '../config';
 import logger from '../utils/logger';
 
-export function createRoutes(): Router {
+// Services shared with the HTTP server (e.g. the WebSocket server); created here when not supplied
+export interface AppServices {
+  serviceProvider: ServiceProviderService;
+  cacheService: CacheService;
+  batchJobs?: BatchJobQueue;
+  statusEvents?: StatusEventBus;
+  webhooks?: WebhookDispatcher;
+}
+
+export function createRoutes(services?: AppServices): Router {
   const router = Router();
 
   try {
     // Initialize services
-    const serviceProvider = new ServiceProviderService();
-    const cacheService = new CacheService();
+    const cacheService = services?.cacheService || new CacheService();
+    const serviceProvider = services?.serviceProvider || createServiceProviderService(cacheService);
+    const batchJobs = services?.batchJobs || new BatchJobQueue(serviceProvider, cacheService, {
+      chunkSize: config.batch.asyncChunkSize,
+      maxConcurrentJobs: config.batch.maxConcurrentJobs,
+      maxQueuedJobs: config.batch.maxQueuedJobs,
+      maxQueuedPresentations: config.batch.maxQueuedPresentations
+    });
+    const statusEvents = services?.statusEvents || createStatusEventBus(serviceProvider);
+    const webhooks = services?.webhooks || createWebhookDispatcher(serviceProvider, cacheService);
 
     // Initialize controllers
-    const verificationController = new VerificationController(serviceProvider, cacheService);
+    const verificationController = new VerificationController(serviceProvider, cacheService, batchJobs);
     const sessionController = new SessionController(serviceProvider, cacheService);
     const serviceController = new ServiceController(serviceProvider, cacheService);
     const profileController = new ProfileController(cacheService);
+    const issuerController = new IssuerController(serviceProvider.getIssuerRegistry());
+    const adminController = new AdminController(serviceProvider, cacheService);
+    const revocationController = new RevocationController(serviceProvider);
+    const eventsController = new EventsController(serviceProvider, statusEvents);
+    const webhookController = new WebhookController(webhooks);
+    const oid4vpController = new OID4VPController(createOID4VPVerifier(serviceProvider, cacheService));
 
     // Initialize middleware
     const authMiddleware = new AuthMiddleware(serviceProvider);
+    const adminMiddleware = new AdminMiddleware(serviceProvider);
 
     // Root route
     router.get('/', (req, res) => {
@@ -44,6 +87,10 @@ export function createRoutes(): Router {
     router.use('/auth', createAuthRoutes(verificationController, sessionController, authMiddleware));
     router.use('/service', createServiceRoutes(serviceController, verificationController));
     router.use('/profile', createProfileRoutes(profileController, authMiddleware));
+    router.use('/admin', createAdminRoutes(adminController, issuerController, webhookController, adminMiddleware));
+    router.use('/issuer', createIssuerRoutes(revocationController));
+    router.use('/events', createEventsRoutes(eventsController, authMiddleware));
+    router.use('/oid4vp', createOID4VPRoutes(oid4vpController));
 
     // Legacy routes for backward compatibility
     router.get('/service/requirements', verificationController.getRequirements);
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import type RevocationController from '../controllers/revocation.controller';
+import rateLimitMiddleware from '../middleware/rate-limit.middleware';
+
+export function createIssuerRoutes(revocationController: RevocationController): Router {
+  const router = Router();
+
+  // Revocation notices pushed by trusted issuers (authenticated by the notice signature)
+  router.post(
+    '/revocations',
+    rateLimitMiddleware.standardRateLimit,
+    revocationController.receiveRevocationNotice
+  );
+
+  return router;
+}
+
+export default createIssuerRoutes;
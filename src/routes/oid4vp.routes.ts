@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import type OID4VPController from '../controllers/oid4vp.controller';
+import rateLimitMiddleware from '../middleware/rate-limit.middleware';
+
+export function createOID4VPRoutes(oid4vpController: OID4VPController): Router {
+  const router = Router();
+
+  // Relying party: start a flow and collect the resulting session
+  router.post(
+    '/authorize',
+    rateLimitMiddleware.presentationRequestRateLimit,
+    oid4vpController.createAuthorizationRequest
+  );
+
+  router.get(
+    '/transactions/:transactionId',
+    rateLimitMiddleware.standardRateLimit,
+    oid4vpController.getTransaction
+  );
+
+  // Wallet: fetch the signed request object and post the response (direct_post)
+  router.get(
+    '/request/:id',
+    rateLimitMiddleware.standardRateLimit,
+    oid4vpController.getRequestObject
+  );
+
+  router.post(
+    '/response',
+    rateLimitMiddleware.sessionRateLimit,
+    oid4vpController.receiveResponse
+  );
+
+  return router;
+}
+
+export default createOID4VPRoutes;
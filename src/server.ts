@@ -3,8 +3,12 @@ import { config } from './config';
 import logger from './utils/logger';
 import createApp from './app';
 import WebSocketServer from './websocket/server';
-import ServiceProviderService from './services/service-provider.service';
+import { createServiceProviderService } from './services/service-provider.service';
 import CacheService from './services/cache.service';
+import BatchJobQueue from './services/batch-jobs';
+import { createStatusEventBus } from './services/status-events';
+import attachRedisStatusEvents, { type RedisStatusEventsCloser } from './services/redis-status-events';
+import { createWebhookDispatcher } from './services/webhooks';
 
 async function startServer() {
   try {
@@ -16,7 +20,6 @@ async function startServer() {
 
     // Initialize services
     logger.info('Initializing services...');
-    const serviceProvider = new ServiceProviderService();
     const cacheService = new CacheService();
 
     // Connect to Redis
@@ -29,8 +32,31 @@ async function startServer() {
       });
     }
 
+    // Sessions and revocation lists share the Redis connection, so build the provider once it is up
+    const serviceProvider = createServiceProviderService(cacheService);
+    const batchJobs = new BatchJobQueue(serviceProvider, cacheService, {
+      chunkSize: config.batch.asyncChunkSize,
+      maxConcurrentJobs: config.batch.maxConcurrentJobs,
+      maxQueuedJobs: config.batch.maxQueuedJobs,
+      maxQueuedPresentations: config.batch.maxQueuedPresentations
+    });
+
+    // Status events feed both WebSocket rooms and SSE streams
+    const statusEvents = createStatusEventBus(serviceProvider);
+    let closeRedisStatusEvents: RedisStatusEventsCloser | null = null;
+    if (config.events.transport === 'redis') {
+      closeRedisStatusEvents = await attachRedisStatusEvents(statusEvents, {
+        key: config.events.transportKey,
+        replayBufferSize: config.events.replayBufferSize,
+        replayTtlMs: config.events.replayTtl * 1000
+      });
+    }
+
+    // Backends that can't hold a socket open receive the same events as signed webhooks
+    const webhooks = createWebhookDispatcher(serviceProvider, cacheService);
+
     // Create Express application
-    const app = createApp();
+    const app = createApp({ serviceProvider, cacheService, batchJobs, statusEvents, webhooks });
 
     // Create HTTP server
     const httpServer = createServer(app);
@@ -39,7 +65,11 @@ async function startServer() {
     let wsServer: WebSocketServer | null = null;
     if (config.websocket.enabled) {
       try {
-        wsServer = new WebSocketServer(httpServer, serviceProvider, cacheService);
+        wsServer = new WebSocketServer(httpServer, serviceProvider, cacheService, statusEvents, batchJobs);
+        if (config.websocket.adapter === 'redis') {
+          await wsServer.enableRedisAdapter();
+        }
+        batchJobs.on('progress', (progress) => wsServer?.notifyBatchProgress(progress));
         logger.info('WebSocket server initialized');
       } catch (error) {
         logger.error('Failed to initialize WebSocket server', {
@@ -84,12 +114,20 @@ async function startServer() {
         }
 
         try {
+          // Pending webhook retries are abandoned; their attempts so far stay in the delivery log
+          webhooks.shutdown();
+          serviceProvider.shutdown();
+
           // Shutdown WebSocket server
           if (wsServer) {
-            wsServer.shutdown();
+            await wsServer.shutdown();
             logger.info('WebSocket server shut down');
           }
 
+          if (closeRedisStatusEvents) {
+            await closeRedisStatusEvents();
+          }
+
           // Disconnect from cache
           await cacheService.disconnect();
           logger.info('Cache service disconnected');
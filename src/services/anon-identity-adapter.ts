@@ -8,13 +8,65 @@ import {
   MemoryStorageProvider,
   type VerifiablePresentation
 } from 'anon-identity';
+import type {
+  ExtendedSession,
+  ExtendedVerificationResult,
+  ExtendedBatchVerificationResult
+} from '../models/types';
+import { InMemorySessionStore, type SessionStore } from './session-store';
+import { getIssuersByCredential, type RevocationRegistry } from './revocation-registry';
+import CredentialStatusChecker from './credential-status';
+import type DIDResolverRegistry from './did-resolver';
+import type TrustedIssuerRegistry from './issuer-registry';
+import type SdJwtVerifier from './sd-jwt-verifier';
+import type JwtVcVerifier from './jwt-vc-verifier';
+import { mapWithConcurrency, withTimeout } from '../utils/concurrency';
+import { isJwtPresentation } from '../utils/jwt-vc';
+import { isSdJwt } from '../utils/sd-jwt';
+import { checkCredentialValidity } from '../utils/credential-validity';
+import { VerificationTimeoutError, isServiceError } from '../utils/errors';
 
 // Mock implementations for methods that might not exist in the current version
 export class ServiceProviderAdapter {
   private baseProvider: BaseServiceProvider;
+  private sessionStore: SessionStore;
+  private sessionConfig: any;
+  private revocationRegistry: RevocationRegistry | null;
+  private statusChecker: CredentialStatusChecker | null;
+  private didResolver: DIDResolverRegistry | null;
+  private issuerRegistry: TrustedIssuerRegistry | null;
+  private sdJwtVerifier: SdJwtVerifier | null;
+  private jwtVcVerifier: JwtVcVerifier | null;
+  private clockSkewSeconds: number;
+  private trustedIssuers: string[];
 
   constructor(did: string, storage: any, trustedIssuers: string[], config?: any) {
-    this.baseProvider = new BaseServiceProvider(did, storage, trustedIssuers);
+    // Keep our own copy so registry updates can be applied in place
+    this.trustedIssuers = [...trustedIssuers];
+    this.baseProvider = new BaseServiceProvider(did, storage, this.trustedIssuers);
+    this.sessionConfig = config?.sessionConfig || {};
+    this.sessionStore = config?.sessionStore || new InMemorySessionStore(this.sessionConfig.cleanupInterval);
+    this.revocationRegistry = config?.revocationRegistry || null;
+    this.statusChecker = config?.statusListResolver
+      ? new CredentialStatusChecker(
+        config.statusListResolver,
+        (credential) => this.verifyStatusListCredential(credential),
+        config.cacheService || null,
+        config.statusListCacheTtl
+      )
+      : null;
+    this.didResolver = config?.didResolver || null;
+    this.issuerRegistry = config?.issuerRegistry || null;
+    this.sdJwtVerifier = config?.sdJwtVerifier || null;
+    this.jwtVcVerifier = config?.jwtVcVerifier || null;
+    this.clockSkewSeconds = config?.clockSkewSeconds ?? 60;
+  }
+
+  setTrustedIssuers(trustedIssuers: string[]): void {
+    this.trustedIssuers.splice(0, this.trustedIssuers.length, ...trustedIssuers);
+    if (typeof (this.baseProvider as any).setTrustedIssuers === 'function') {
+      (this.baseProvider as any).setTrustedIssuers([...trustedIssuers]);
+    }
   }
 
   async createPresentationRequest(options: any): Promise<any> {
@@ -33,44 +85,84 @@ export class ServiceProviderAdapter {
   async validatePresentationAgainstRequest(presentation: any, request: any): Promise<any> {
     // If the method exists, use it; otherwise, fall back to basic verification
     if (typeof (this.baseProvider as any).validatePresentationAgainstRequest === 'function') {
-      return (this.baseProvider as any).validatePresentationAgainstRequest(presentation, request);
+      const result = await (this.baseProvider as any).validatePresentationAgainstRequest(presentation, request);
+      return this.applyVerificationChecks(result);
     }
     
     // Fallback to basic verification
     const result = await this.baseProvider.verifyPresentation(presentation);
-    return {
-      isValid: result.valid || false,
-      holder: result.holder,
-      holderDID: result.holder, // Alias
-      credentials: result.credentials || [],
-      credentialIds: (result.credentials || []).map((c: any) => c.id),
-      attributes: result.credentials?.[0]?.credentialSubject || {},
-      disclosedAttributes: result.credentials?.[0]?.credentialSubject || {},
-      errors: result.errors || []
-    };
+    return this.applyVerificationChecks(this.normalizeVerificationResult(result));
+  }
+
+  // SD-JWT VCs are verified by us rather than the base provider, then go through the same trust checks
+  async validateSdJwtPresentationAgainstRequest(
+    token: string,
+    request: any,
+    options: { enforceBinding?: boolean } = {}
+  ): Promise<any> {
+    if (!this.sdJwtVerifier) {
+      return {
+        isValid: false,
+        errors: [{ code: 'UNSUPPORTED_FORMAT', message: 'SD-JWT presentations are not supported without a DID resolver' }]
+      };
+    }
+
+    const result = await this.sdJwtVerifier.verify(
+      token,
+      options.enforceBinding === false ? {} : { nonce: request.challenge, audience: request.domain }
+    );
+    return this.applyRequestChecks(result, request);
+  }
+
+  // JWT-VPs embedding JWT-VCs, verified like SD-JWT VCs
+  async validateJwtPresentationAgainstRequest(
+    token: string,
+    request: any,
+    options: { enforceBinding?: boolean } = {}
+  ): Promise<any> {
+    if (!this.jwtVcVerifier) {
+      return {
+        isValid: false,
+        errors: [{ code: 'UNSUPPORTED_FORMAT', message: 'JWT presentations are not supported without a DID resolver' }]
+      };
+    }
+
+    const result = await this.jwtVcVerifier.verify(
+      token,
+      options.enforceBinding === false ? {} : { nonce: request.challenge, audience: request.domain }
+    );
+    return this.applyRequestChecks(result, request);
   }
 
   async createSession(options: any): Promise<any> {
-    // Mock session creation
     const sessionId = require('crypto').randomBytes(16).toString('hex');
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + (options.expiresIn || 3600) * 1000);
+    const expiresIn = options.expiresIn || this.sessionConfig.defaultDuration || 3600;
+    const expiresAt = new Date(now.getTime() + expiresIn * 1000);
     
-    return {
+    const session: ExtendedSession = {
       id: sessionId,
       holderDID: options.holderDID,
       credentialIds: options.credentialIds || [],
       attributes: options.attributes || {},
       createdAt: now,
       expiresAt: expiresAt,
-      expiresIn: options.expiresIn || 3600,
+      lastAccessedAt: now,
+      expiresIn,
       metadata: options.metadata
     };
+
+    await this.sessionStore.save(session);
+    return session;
   }
 
   async validateSession(sessionId: string): Promise<boolean> {
-    // Mock session validation - in real implementation this would check storage
-    return sessionId?.length > 0;
+    if (!sessionId) {
+      return false;
+    }
+
+    // Record the access so listings and activity reflect real usage
+    return this.sessionStore.touch(sessionId, new Date());
   }
 
   async getSession(sessionId: string): Promise<any | null> {
@@ -78,78 +170,137 @@ export class ServiceProviderAdapter {
       return null;
     }
     
-    // Mock session retrieval
-    return {
-      id: sessionId,
-      holderDID: 'did:mock:holder',
-      credentialIds: ['mock-credential'],
-      attributes: { mock: true },
-      createdAt: new Date(),
-      expiresAt: new Date(Date.now() + 3600000),
-      lastAccessedAt: new Date()
-    };
+    return this.sessionStore.get(sessionId);
   }
 
   async setSessionExpiry(sessionId: string, additionalTime: number): Promise<boolean> {
-    // Mock session extension
-    return sessionId?.length > 0;
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    // Slide the expiry forward, never shortening it and never past the maximum session lifetime
+    // or the expiry of the credentials it was derived from
+    const now = Date.now();
+    const requestedExpiry = Math.max(session.expiresAt.getTime(), now + additionalTime * 1000);
+    const maxExpiry = this.sessionConfig.maxDuration
+      ? session.createdAt.getTime() + this.sessionConfig.maxDuration * 1000
+      : requestedExpiry;
+    const credentialExpiry = session.metadata?.credentialExpiry
+      ? new Date(session.metadata.credentialExpiry.expiresAt).getTime()
+      : requestedExpiry;
+
+    session.expiresAt = new Date(Math.min(requestedExpiry, maxExpiry, credentialExpiry));
+    session.expiresIn = Math.max(0, Math.round((session.expiresAt.getTime() - now) / 1000));
+    await this.sessionStore.save(session);
+    return true;
+  }
+
+  async listSessionsByHolder(holderDID: string): Promise<ExtendedSession[]> {
+    if (!holderDID) {
+      return [];
+    }
+
+    return this.sessionStore.listByHolder(holderDID);
+  }
+
+  async listSessionsByCredential(credentialId: string): Promise<ExtendedSession[]> {
+    if (!credentialId) {
+      return [];
+    }
+
+    return this.sessionStore.listByCredential(credentialId);
+  }
+
+  async listActiveSessionCredentialIds(): Promise<string[]> {
+    return this.sessionStore.listActiveCredentialIds();
   }
 
   async invalidateSession(sessionId: string): Promise<boolean> {
-    // Mock session invalidation
-    return sessionId?.length > 0;
-  }
-
-  async batchVerifyPresentations(presentations: VerifiablePresentation[], options?: any): Promise<any> {
-    // Mock batch verification
-    const results = presentations.map((presentation, index) => ({
-      presentationIndex: index,
-      result: {
-        isValid: true,
-        holder: 'did:mock:holder',
-        holderDID: 'did:mock:holder',
-        credentials: [],
-        credentialIds: ['mock-credential'],
-        attributes: {},
-        disclosedAttributes: {}
-      },
-      processingTime: 50 + Math.random() * 100
-    }));
+    if (!sessionId) {
+      return false;
+    }
+
+    return this.sessionStore.delete(sessionId);
+  }
+
+  async batchVerifyPresentations(presentations: Array<VerifiablePresentation | string>, options?: any): Promise<ExtendedBatchVerificationResult> {
+    const maxConcurrency = options?.maxConcurrency || 10;
+    const timeoutMs = options?.timeoutMs || 0;
+    const startTime = Date.now();
+
+    const results = await mapWithConcurrency(presentations, maxConcurrency, async (presentation, index) => {
+      const itemStart = Date.now();
+      let result: ExtendedVerificationResult;
+
+      try {
+        result = await withTimeout(
+          this.verifyPresentation(presentation),
+          timeoutMs,
+          () => new VerificationTimeoutError(timeoutMs, { presentationIndex: index })
+        );
+      } catch (error) {
+        // Capture per-item failures so one bad presentation doesn't fail the whole batch
+        result = {
+          isValid: false,
+          errors: [{
+            code: isServiceError(error) ? error.code : 'VERIFICATION_ERROR',
+            message: error instanceof Error ? error.message : String(error),
+            context: { presentationIndex: index }
+          }]
+        };
+      }
+
+      return {
+        presentationIndex: index,
+        result,
+        processingTime: Date.now() - itemStart
+      };
+    });
+
+    const successful = results.filter(item => item.result.isValid).length;
 
     return {
       total: presentations.length,
-      successful: presentations.length,
-      failed: 0,
-      processingTimeMs: results.reduce((sum, r) => sum + r.processingTime, 0),
+      successful,
+      failed: presentations.length - successful,
+      processingTimeMs: Date.now() - startTime,
       results
     };
   }
 
-  async batchCheckRevocations(credentialIds: string[]): Promise<Map<string, boolean>> {
-    // Mock batch revocation check
-    const results = new Map<string, boolean>();
-    credentialIds.forEach(id => {
-      // Randomly mark 10% as revoked for testing
-      results.set(id, Math.random() < 0.1);
-    });
-    return results;
-  }
+  async batchCheckRevocations(
+    credentialIds: string[],
+    issuersByCredential: Record<string, string> = {}
+  ): Promise<Map<string, boolean>> {
+    if (!this.revocationRegistry) {
+      // Without a registry there are no revocation lists, so nothing is known to be revoked
+      return new Map(credentialIds.map(id => [id, false]));
+    }
 
-  async getBatchStatistics(): Promise<any> {
-    // Mock batch statistics
-    return {
-      totalVerifications: 100,
-      averageProcessingTime: 75,
-      successRate: 98.5,
-      lastUpdated: new Date().toISOString()
-    };
+    return this.revocationRegistry.checkRevocations(credentialIds, issuersByCredential);
   }
 
-  // Delegate other methods to the base provider
-  async verifyPresentation(presentation: VerifiablePresentation, options?: any): Promise<any> {
+  // Delegate other methods to the base provider. SD-JWT and JWT presentations are not bound to a request here,
+  // so they must be addressed to this service and recent; the result shows a valid presentation, not a live holder
+  async verifyPresentation(presentation: VerifiablePresentation | string, options?: any): Promise<any> {
+    if (isSdJwt(presentation)) {
+      return this.validateSdJwtPresentationAgainstRequest(presentation, {}, { enforceBinding: false });
+    }
+    if (isJwtPresentation(presentation)) {
+      return this.validateJwtPresentationAgainstRequest(presentation, {}, { enforceBinding: false });
+    }
+
     const result = await this.baseProvider.verifyPresentation(presentation, options);
-    
-    // Normalize the result to our expected format
+    return this.applyVerificationChecks(this.normalizeVerificationResult(result));
+  }
+
+  // Normalize the base provider result to our expected format
+  private normalizeVerificationResult(result: any): any {
     return {
       isValid: result.valid || false,
       holder: result.holder,
@@ -161,6 +312,179 @@ export class ServiceProviderAdapter {
       errors: result.errors || []
     };
   }
+
+  // Requested credential types and revocation for formats the base provider doesn't verify, then the shared checks
+  private async applyRequestChecks(result: any, request: any): Promise<any> {
+    if (!result.isValid) {
+      return result;
+    }
+
+    const errors: Array<{ code: string; message: string; context?: any }> = [];
+    const presentedTypes = (result.credentials || []).flatMap((credential: any) => credential.type);
+    const missingTypes = (request.credentialTypes || []).filter((type: string) => !presentedTypes.includes(type));
+    if (missingTypes.length > 0) {
+      errors.push({
+        code: 'MISSING_CREDENTIAL_TYPE',
+        message: `Presentation does not contain the requested credential types: ${missingTypes.join(', ')}`,
+        context: { missingTypes, presentedTypes }
+      });
+    }
+
+    const revocations = await this.batchCheckRevocations(
+      result.credentialIds || [],
+      getIssuersByCredential(result.credentials)
+    );
+    revocations.forEach((revoked, credentialId) => {
+      if (revoked) {
+        errors.push({ code: 'REVOKED_CREDENTIAL', message: 'Credential has been revoked', context: { credentialId } });
+      }
+    });
+
+    if (errors.length > 0) {
+      return { ...result, isValid: false, errors: [...(result.errors || []), ...errors] };
+    }
+    return this.applyVerificationChecks(result);
+  }
+
+  private async applyVerificationChecks(result: any): Promise<any> {
+    const checked = await this.applyCredentialStatus(
+      await this.applyDIDResolution(await this.applyIssuerTrust(this.applyValidityPeriod(result)))
+    );
+
+    // Later revocations of these credentials are only accepted from their issuers
+    if (checked?.isValid && this.revocationRegistry) {
+      await this.revocationRegistry.recordCredentialIssuers(getIssuersByCredential(checked.credentials));
+    }
+    return checked;
+  }
+
+  // Credentials must be within their validity period, give or take the configured clock skew
+  private applyValidityPeriod(result: any): any {
+    if (!result?.isValid) {
+      return result;
+    }
+
+    const errors = (result.credentials || [])
+      .map((credential: any) => checkCredentialValidity(credential, this.clockSkewSeconds))
+      .filter(Boolean);
+
+    if (errors.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      isValid: false,
+      errors: [...(result.errors || []), ...errors]
+    };
+  }
+
+  // Issuers must be active in the registry and allowed to issue the presented credential types
+  private async applyIssuerTrust(result: any): Promise<any> {
+    if (!this.issuerRegistry || !result?.isValid) {
+      return result;
+    }
+
+    const errors: Array<{ code: string; message: string; context?: any }> = [];
+    for (const credential of result.credentials || []) {
+      const issuerDID = typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+      if (!issuerDID) {
+        continue;
+      }
+
+      const { trusted, reason } = await this.issuerRegistry.checkCredential(credential);
+      if (!trusted) {
+        errors.push({
+          code: 'UNTRUSTED_ISSUER',
+          message: `Credential issuer is not trusted: ${reason}`,
+          context: { issuerDID, credentialId: credential.id, reason }
+        });
+      }
+    }
+
+    if (errors.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      isValid: false,
+      errors: [...(result.errors || []), ...errors]
+    };
+  }
+
+  // Holder and issuer DIDs must resolve; DID methods without a registered resolver are left to the base provider
+  private async applyDIDResolution(result: any): Promise<any> {
+    if (!this.didResolver || !result?.isValid) {
+      return result;
+    }
+
+    const dids = new Map<string, string>();
+    (result.credentials || []).forEach((credential: any) => {
+      const issuer = typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+      if (issuer) {
+        dids.set(issuer, 'issuer');
+      }
+    });
+    if (result.holderDID && !dids.has(result.holderDID)) {
+      dids.set(result.holderDID, 'holder');
+    }
+
+    const errors: Array<{ code: string; message: string; context?: any }> = [];
+    for (const [did, role] of dids) {
+      if (!this.didResolver.supportsMethod(did)) {
+        continue;
+      }
+
+      try {
+        await this.didResolver.resolveDocument(did);
+      } catch (error) {
+        errors.push({
+          code: isServiceError(error) ? error.code : 'DID_RESOLUTION_FAILED',
+          message: error instanceof Error ? error.message : `Failed to resolve ${role} DID`,
+          context: { did, role, ...(isServiceError(error) ? { resolutionError: error.context.resolutionError } : {}) }
+        });
+      }
+    }
+
+    if (errors.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      isValid: false,
+      errors: [...(result.errors || []), ...errors]
+    };
+  }
+
+  // Fail otherwise valid results whose credentials are revoked or suspended in their status lists
+  private async applyCredentialStatus(result: any): Promise<any> {
+    if (!this.statusChecker || !result?.isValid) {
+      return result;
+    }
+
+    const statusErrors = (await Promise.all(
+      (result.credentials || []).map((credential: any) => this.statusChecker!.checkCredential(credential))
+    )).flat();
+
+    if (statusErrors.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      isValid: false,
+      errors: [...(result.errors || []), ...statusErrors]
+    };
+  }
+
+  // Status list credentials must carry a valid proof from their issuer
+  private async verifyStatusListCredential(credential: any): Promise<boolean> {
+    if (typeof (this.baseProvider as any).verifyCredential === 'function') {
+      const result = await (this.baseProvider as any).verifyCredential(credential);
+      return Boolean(result?.valid ?? result?.isValid ?? result);
+    }
+
+    // Without a credential verifier the list can't be trusted, so fail closed
+    return false;
+  }
 }
 
 export default ServiceProviderAdapter;
\ No newline at end of file
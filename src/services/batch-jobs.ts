@@ -0,0 +1,199 @@
+/**
+ * Asynchronous batch verification jobs
+ * Jobs are queued, verified in chunks, and their state is cached under the batch ID so clients can poll it;
+ * a `progress` event with each chunk's results is emitted for the WebSocket server to forward.
+ * Queued presentations are held in memory, so the number of waiting jobs and presentations is capped
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type ServiceProviderService from './service-provider.service';
+import type CacheService from './cache.service';
+import type { BatchJob, BatchJobProgress } from '../models/types';
+import logger from '../utils/logger';
+import { BatchQueueFullError } from '../utils/errors';
+
+type PresentationBatch = Parameters<ServiceProviderService['batchVerifyPresentations']>[0];
+
+export interface BatchJobQueueOptions {
+  chunkSize?: number;
+  maxConcurrentJobs?: number;
+  maxQueuedJobs?: number; // jobs waiting for a worker
+  maxQueuedPresentations?: number; // presentations held by waiting and running jobs
+  resultTtlSeconds?: number;
+}
+
+export class BatchJobQueue extends EventEmitter {
+  private jobs = new Map<string, BatchJob>();
+  private pending: Array<{ batchId: string; presentations: PresentationBatch }> = [];
+  private running = 0;
+  private heldPresentations = 0;
+  private chunkSize: number;
+  private maxConcurrentJobs: number;
+  private maxQueuedJobs: number;
+  private maxQueuedPresentations: number;
+  private resultTtlSeconds: number;
+
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    private cacheService: CacheService | null,
+    options: BatchJobQueueOptions = {}
+  ) {
+    super();
+    this.chunkSize = Math.max(1, options.chunkSize || 50);
+    this.maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs || 1);
+    this.maxQueuedJobs = Math.max(1, options.maxQueuedJobs || 20);
+    this.maxQueuedPresentations = Math.max(1, options.maxQueuedPresentations || 20000);
+    this.resultTtlSeconds = options.resultTtlSeconds || 1800;
+  }
+
+  // Queue presentations for verification and return the job immediately; throws BatchQueueFullError when full
+  async submit(presentations: PresentationBatch, submittedBy: string): Promise<BatchJob> {
+    if (
+      this.pending.length >= this.maxQueuedJobs ||
+      this.heldPresentations + presentations.length > this.maxQueuedPresentations
+    ) {
+      throw new BatchQueueFullError('Batch verification queue is full; retry later', {
+        queuedJobs: this.pending.length,
+        queuedPresentations: this.heldPresentations
+      });
+    }
+
+    const job: BatchJob = {
+      batchId: uuidv4(),
+      status: 'queued',
+      total: presentations.length,
+      processed: 0,
+      successful: 0,
+      failed: 0,
+      submittedBy,
+      createdAt: new Date().toISOString()
+    };
+
+    // Reserve capacity before the first await so concurrent submissions can't overshoot the caps
+    this.jobs.set(job.batchId, job);
+    this.heldPresentations += presentations.length;
+    this.pending.push({ batchId: job.batchId, presentations });
+    await this.saveJob(job);
+    logger.info('Batch verification job queued', { batchId: job.batchId, total: job.total, submittedBy });
+
+    // Snapshot before the job can start, so callers see it as queued
+    const queued = { ...job };
+    this.startNext();
+    return queued;
+  }
+
+  // Local state first (always current on this instance), then the shared cache
+  async getJob(batchId: string): Promise<BatchJob | null> {
+    const local = this.jobs.get(batchId);
+    if (local) {
+      return local;
+    }
+
+    const cached = await this.cacheService?.getCachedBatchResult(batchId);
+    return cached?.batchId && cached?.status ? cached : null;
+  }
+
+  private startNext(): void {
+    while (this.running < this.maxConcurrentJobs && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+
+      this.runJob(next.batchId, next.presentations)
+        .catch(error => {
+          logger.error('Batch verification job crashed', {
+            batchId: next.batchId,
+            error: error instanceof Error ? error.message : error
+          });
+        })
+        .finally(() => {
+          this.running--;
+          this.heldPresentations -= next.presentations.length;
+          this.startNext();
+        });
+    }
+  }
+
+  private async runJob(batchId: string, presentations: PresentationBatch): Promise<void> {
+    const job = this.jobs.get(batchId)!;
+    const startTime = Date.now();
+    const results: NonNullable<BatchJob['result']>['results'] = [];
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await this.saveJob(job);
+
+    try {
+      for (let offset = 0; offset < presentations.length; offset += this.chunkSize) {
+        const chunk = presentations.slice(offset, offset + this.chunkSize);
+        const chunkResult = await this.serviceProvider.batchVerifyPresentations(chunk);
+
+        // Chunk results are indexed from zero; map them back to positions in the full batch
+        const chunkResults = chunkResult.results.map((item: any) => ({
+          ...item,
+          presentationIndex: item.presentationIndex + offset
+        }));
+        results.push(...chunkResults);
+
+        job.processed += chunk.length;
+        job.successful += chunkResult.successful;
+        job.failed += chunkResult.failed;
+        await this.saveJob(job);
+        this.emitProgress(job, chunkResults);
+      }
+
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+      job.result = {
+        total: job.total,
+        successful: job.successful,
+        failed: job.failed,
+        processingTimeMs: Date.now() - startTime,
+        results
+      };
+
+      logger.info('Batch verification job completed', {
+        batchId,
+        total: job.total,
+        successful: job.successful,
+        failed: job.failed,
+        duration: job.result.processingTimeMs
+      });
+    } catch (error) {
+      job.status = 'failed';
+      job.completedAt = new Date().toISOString();
+      job.error = error instanceof Error ? error.message : String(error);
+
+      logger.error('Batch verification job failed', { batchId, processed: job.processed, error: job.error });
+    }
+
+    await this.saveJob(job);
+    this.emitProgress(job, []);
+
+    // Drop the local copy once the cached result would have expired too
+    setTimeout(() => this.jobs.delete(batchId), this.resultTtlSeconds * 1000).unref();
+  }
+
+  private emitProgress(job: BatchJob, results: BatchJobProgress['results']): void {
+    const progress: BatchJobProgress = {
+      batchId: job.batchId,
+      status: job.status,
+      total: job.total,
+      processed: job.processed,
+      successful: job.successful,
+      failed: job.failed,
+      results,
+      timestamp: Date.now()
+    };
+    this.emit('progress', progress);
+  }
+
+  private async saveJob(job: BatchJob): Promise<void> {
+    this.jobs.set(job.batchId, job);
+    if (this.cacheService) {
+      await this.cacheService.cacheBatchResult(job.batchId, job, this.resultTtlSeconds);
+    }
+  }
+}
+
+export default BatchJobQueue;
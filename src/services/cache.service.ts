@@ -106,6 +106,22 @@ export class CacheService {
     }
   }
 
+  // Overwrite a key only if it still exists (SET XX), so a concurrent delete isn't undone
+  async update(key: string, value: any, ttlSeconds: number): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        logger.warn('Redis not connected, skipping cache update', { key });
+        return false;
+      }
+
+      const result = await this.redis.set(key, JSON.stringify(value), 'EX', ttlSeconds, 'XX');
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Cache update error', { key, error });
+      return false;
+    }
+  }
+
   async delete(key: string): Promise<boolean> {
     try {
       if (!this.isConnected) {
@@ -135,6 +151,156 @@ export class CacheService {
     }
   }
 
+  // Set operations, used for secondary indexes such as sessions by holder
+  async addToSet(key: string, members: string[], ttlSeconds?: number): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        logger.warn('Redis not connected, skipping set add', { key });
+        return false;
+      }
+
+      // Only ever extend the expiry, so a short-lived member can't expire longer-lived ones
+      const currentTtl = ttlSeconds ? await this.redis.ttl(key) : -1;
+      const transaction = this.redis.multi().sadd(key, ...members);
+      if (ttlSeconds && currentTtl !== -1 && currentTtl < ttlSeconds) {
+        transaction.expire(key, ttlSeconds);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      logger.error('Set add error', { key, error });
+      return false;
+    }
+  }
+
+  // Add members to a set that never expires; returns the members that weren't in it yet
+  async addSetMembers(key: string, members: string[]): Promise<string[] | null> {
+    try {
+      if (!this.isConnected) {
+        logger.warn('Redis not connected, skipping set add', { key });
+        return null;
+      }
+      if (members.length === 0) {
+        return [];
+      }
+
+      const transaction = this.redis.multi();
+      members.forEach(member => transaction.sadd(key, member));
+      const results = await transaction.exec();
+      return members.filter((_member, index) => results?.[index]?.[1] === 1);
+    } catch (error) {
+      logger.error('Set members add error', { key, error });
+      return null;
+    }
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    try {
+      if (!this.isConnected) {
+        logger.warn('Redis not connected, skipping set read', { key });
+        return [];
+      }
+
+      return await this.redis.smembers(key);
+    } catch (error) {
+      logger.error('Set members error', { key, error });
+      return [];
+    }
+  }
+
+  async removeFromSet(key: string, members: string[]): Promise<boolean> {
+    try {
+      if (!this.isConnected || members.length === 0) {
+        return false;
+      }
+
+      const removed = await this.redis.srem(key, ...members);
+      return removed > 0;
+    } catch (error) {
+      logger.error('Set remove error', { key, error });
+      return false;
+    }
+  }
+
+  // Sorted sets scored by expiry time, used to track members that outlive individual keys
+  async addToSortedSet(key: string, scores: Record<string, number>): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      // GT only ever raises a score, so a later expiry is never shortened
+      const transaction = this.redis.multi();
+      Object.entries(scores).forEach(([member, score]) => {
+        transaction.zadd(key, 'GT', score, member);
+      });
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      logger.error('Sorted set add error', { key, error });
+      return false;
+    }
+  }
+
+  async getSortedSetMembers(key: string, minScore: number): Promise<string[] | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      await this.redis.zremrangebyscore(key, '-inf', `(${minScore}`);
+      return await this.redis.zrangebyscore(key, minScore, '+inf');
+    } catch (error) {
+      logger.error('Sorted set range error', { key, error });
+      return null;
+    }
+  }
+
+  // String hash fields, used for small shared state maps
+  async getHashFields(key: string, fields: string[]): Promise<Record<string, string> | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+      if (fields.length === 0) {
+        return {};
+      }
+
+      const values = await this.redis.hmget(key, ...fields);
+      const result: Record<string, string> = {};
+      fields.forEach((field, index) => {
+        if (values[index] !== null) {
+          result[field] = values[index] as string;
+        }
+      });
+      return result;
+    } catch (error) {
+      logger.error('Hash fields get error', { key, error });
+      return null;
+    }
+  }
+
+  async setHashFields(key: string, values: Record<string, string>, ttlSeconds?: number): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+      if (Object.keys(values).length === 0) {
+        return true;
+      }
+
+      const transaction = this.redis.multi().hset(key, values);
+      if (ttlSeconds) {
+        transaction.expire(key, ttlSeconds);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      logger.error('Hash fields set error', { key, error });
+      return false;
+    }
+  }
+
   // Specialized cache methods for identity service
 
   // DID document caching
@@ -149,6 +315,17 @@ export class CacheService {
     return await this.get(key);
   }
 
+  // Negative caching for DIDs that failed to resolve
+  async cacheDIDResolutionFailure(did: string, metadata: any, ttlSeconds: number = 60): Promise<void> {
+    const key = `did:failed:${did}`;
+    await this.set(key, metadata, ttlSeconds);
+  }
+
+  async getCachedDIDResolutionFailure(did: string): Promise<any | null> {
+    const key = `did:failed:${did}`;
+    return await this.get(key);
+  }
+
   // Revocation list caching
   async cacheRevocationList(issuerDID: string, revocationList: string[], ttlSeconds: number = 600): Promise<void> {
     const key = `revocation:${issuerDID}`;
@@ -161,6 +338,188 @@ export class CacheService {
     return await this.get(key);
   }
 
+  // Status list caching (encoded bitstrings from status list credentials, with the issuer and purpose they were
+  // verified for so a cache hit can be re-checked against the credential being verified)
+  async cacheStatusList(
+    statusListCredentialUrl: string,
+    statusList: { encodedList: string; issuer?: string; statusPurpose?: string },
+    ttlSeconds: number = 600
+  ): Promise<void> {
+    const key = `statuslist:${statusListCredentialUrl}`;
+    await this.set(key, statusList, ttlSeconds);
+    logger.debug('Cached status list', { statusListCredentialUrl, ttl: ttlSeconds });
+  }
+
+  async getCachedStatusList(
+    statusListCredentialUrl: string
+  ): Promise<{ encodedList: string; issuer?: string; statusPurpose?: string } | null> {
+    const key = `statuslist:${statusListCredentialUrl}`;
+    const cached = await this.get<any>(key);
+    // Entries cached before the issuer and purpose were stored are bare strings; treat them as misses
+    return cached && typeof cached === 'object' && typeof cached.encodedList === 'string' ? cached : null;
+  }
+
+  // Trusted issuer registry (one hash field per issuer DID)
+  async cacheTrustedIssuer(issuer: { did: string }): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hset('issuers:trusted', issuer.did, JSON.stringify(issuer));
+      return true;
+    } catch (error) {
+      logger.error('Trusted issuer cache error', { did: issuer.did, error });
+      return false;
+    }
+  }
+
+  async getCachedTrustedIssuers<T>(): Promise<T[] | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const entries = await this.redis.hgetall('issuers:trusted');
+      return Object.values(entries).map(value => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error('Trusted issuers get error', { error });
+      return null;
+    }
+  }
+
+  async removeCachedTrustedIssuer(did: string): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hdel('issuers:trusted', did);
+      return true;
+    } catch (error) {
+      logger.error('Trusted issuer delete error', { did, error });
+      return false;
+    }
+  }
+
+  // Webhook subscriptions (one hash field per subscription ID)
+  async cacheWebhookSubscription(subscription: { id: string }): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hset('webhooks:subscriptions', subscription.id, JSON.stringify(subscription));
+      return true;
+    } catch (error) {
+      logger.error('Webhook subscription cache error', { id: subscription.id, error });
+      return false;
+    }
+  }
+
+  async getCachedWebhookSubscriptions<T>(): Promise<T[] | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const entries = await this.redis.hgetall('webhooks:subscriptions');
+      return Object.values(entries).map(value => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error('Webhook subscriptions get error', { error });
+      return null;
+    }
+  }
+
+  async removeCachedWebhookSubscription(id: string): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hdel('webhooks:subscriptions', id);
+      return true;
+    } catch (error) {
+      logger.error('Webhook subscription delete error', { id, error });
+      return false;
+    }
+  }
+
+  // Webhook delivery log, newest first and capped at maxEntries
+  async appendWebhookDeliveryLog(entry: any, maxEntries: number): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.multi()
+        .lpush('webhooks:deliveries', JSON.stringify(entry))
+        .ltrim('webhooks:deliveries', 0, maxEntries - 1)
+        .exec();
+      return true;
+    } catch (error) {
+      logger.error('Webhook delivery log error', { error });
+      return false;
+    }
+  }
+
+  async getWebhookDeliveryLog<T>(): Promise<T[] | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const entries = await this.redis.lrange('webhooks:deliveries', 0, -1);
+      return entries.map(value => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error('Webhook delivery log get error', { error });
+      return null;
+    }
+  }
+
+  // Dead-lettered webhook deliveries (one hash field per delivery ID)
+  async cacheWebhookDeadLetter(deadLetter: { deliveryId: string }): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hset('webhooks:dead-letters', deadLetter.deliveryId, JSON.stringify(deadLetter));
+      return true;
+    } catch (error) {
+      logger.error('Webhook dead letter cache error', { deliveryId: deadLetter.deliveryId, error });
+      return false;
+    }
+  }
+
+  async getWebhookDeadLetters<T>(): Promise<T[] | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const entries = await this.redis.hgetall('webhooks:dead-letters');
+      return Object.values(entries).map(value => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error('Webhook dead letters get error', { error });
+      return null;
+    }
+  }
+
+  async removeWebhookDeadLetter(deliveryId: string): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      await this.redis.hdel('webhooks:dead-letters', deliveryId);
+      return true;
+    } catch (error) {
+      logger.error('Webhook dead letter delete error', { deliveryId, error });
+      return false;
+    }
+  }
+
   // Session caching (supplementary to anon-identity's built-in session management)
   async cacheSessionMetadata(sessionId: string, metadata: any, ttlSeconds: number): Promise<void> {
     const key = `session:meta:${sessionId}`;
@@ -184,6 +543,47 @@ export class CacheService {
     return await this.get(key);
   }
 
+  // Mark a presentation request as used; only the first caller wins, so a presentation can't be replayed
+  async consumePresentationRequest(requestId: string, ttlSeconds: number = 300): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        logger.warn('Redis not connected, cannot consume presentation request', { requestId });
+        return false;
+      }
+
+      const result = await this.redis.set(`request:consumed:${requestId}`, Date.now().toString(), 'EX', ttlSeconds, 'NX');
+      if (result !== 'OK') {
+        return false;
+      }
+
+      await this.redis.del(`request:${requestId}`);
+      logger.debug('Consumed presentation request', { requestId });
+      return true;
+    } catch (error) {
+      logger.error('Presentation request consume error', { requestId, error });
+      return false;
+    }
+  }
+
+  async isPresentationRequestConsumed(requestId: string): Promise<boolean> {
+    return this.exists(`request:consumed:${requestId}`);
+  }
+
+  // Record an issuer revocation notice; false if it was already processed, null when Redis is unavailable
+  async consumeRevocationNotice(noticeId: string, ttlSeconds: number): Promise<boolean | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const result = await this.redis.set(`revocation:notice:${noticeId}`, Date.now().toString(), 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Revocation notice consume error', { noticeId, error });
+      return null;
+    }
+  }
+
   // Batch operation results caching
   async cacheBatchResult(batchId: string, result: any, ttlSeconds: number = 1800): Promise<void> {
     const key = `batch:${batchId}`;
@@ -262,6 +662,53 @@ export class CacheService {
     }
   }
 
+  // Hash counters, used to aggregate statistics across instances
+  async incrementHashFields(key: string, increments: Record<string, number>, ttlSeconds?: number): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        return false;
+      }
+
+      const transaction = this.redis.multi();
+      Object.entries(increments).forEach(([field, value]) => {
+        transaction.hincrby(key, field, value);
+      });
+      if (ttlSeconds) {
+        transaction.expire(key, ttlSeconds);
+      }
+      await transaction.exec();
+      return true;
+    } catch (error) {
+      logger.error('Hash increment error', { key, error });
+      return false;
+    }
+  }
+
+  async getHashCounters(keys: string[]): Promise<Array<Record<string, number>> | null> {
+    try {
+      if (!this.isConnected) {
+        return null;
+      }
+
+      const pipeline = this.redis.pipeline();
+      keys.forEach(key => pipeline.hgetall(key));
+      const results = await pipeline.exec();
+
+      return (results || []).map(([error, hash]) => {
+        const counters: Record<string, number> = {};
+        if (!error && hash) {
+          Object.entries(hash as Record<string, string>).forEach(([field, value]) => {
+            counters[field] = parseInt(value);
+          });
+        }
+        return counters;
+      });
+    } catch (error) {
+      logger.error('Hash counters get error', { keyCount: keys.length, error });
+      return null;
+    }
+  }
+
   // Cleanup operations
   async cleanup(): Promise<void> {
     try {
@@ -0,0 +1,214 @@
+/**
+ * W3C Bitstring Status List / StatusList2021 support for the credentialStatus field
+ * Status list credentials are resolved, signature-checked, cached and decoded to look up a credential's status bit
+ */
+
+import { gunzipSync } from 'zlib';
+import type CacheService from './cache.service';
+import logger from '../utils/logger';
+
+export const STATUS_ENTRY_TYPES = ['StatusList2021Entry', 'BitstringStatusListEntry'];
+
+export interface StatusListEntry {
+  id?: string;
+  type: string;
+  statusPurpose: string;
+  statusListIndex: string | number;
+  statusListCredential: string;
+}
+
+export interface CredentialStatusError {
+  code: string;
+  message: string;
+  context?: any;
+}
+
+export interface StatusListResolver {
+  resolve(statusListCredentialUrl: string): Promise<any>;
+}
+
+// Resolves status list credentials over HTTP(S)
+export class HttpStatusListResolver implements StatusListResolver {
+  constructor(private timeoutMs: number = 5000) {}
+
+  async resolve(statusListCredentialUrl: string): Promise<any> {
+    const response = await fetch(statusListCredentialUrl, {
+      headers: { Accept: 'application/vc+ld+json, application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Status list fetch returned HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+// Serves status list credentials from a local map, for offline deployments and tests
+export class LocalStatusListResolver implements StatusListResolver {
+  private credentials: Map<string, any>;
+
+  constructor(credentials: Record<string, any> = {}) {
+    this.credentials = new Map(Object.entries(credentials));
+  }
+
+  register(statusListCredentialUrl: string, credential: any): void {
+    this.credentials.set(statusListCredentialUrl, credential);
+  }
+
+  async resolve(statusListCredentialUrl: string): Promise<any> {
+    const credential = this.credentials.get(statusListCredentialUrl);
+    if (!credential) {
+      throw new Error(`Unknown status list credential: ${statusListCredentialUrl}`);
+    }
+    return credential;
+  }
+}
+
+// Decode a gzipped, base64 (or multibase base64url) encoded bitstring
+export const decodeStatusList = (encodedList: string): Buffer => {
+  const base64 = encodedList.startsWith('u') ? encodedList.slice(1) : encodedList;
+  return gunzipSync(Buffer.from(base64, 'base64'));
+};
+
+// Bit 0 is the most significant bit of the first byte
+export const getStatusBit = (bitstring: Buffer, index: number): boolean => {
+  const byteIndex = Math.floor(index / 8);
+  if (!Number.isInteger(index) || index < 0 || byteIndex >= bitstring.length) {
+    throw new RangeError(`Status list index out of range: ${index}`);
+  }
+  return ((bitstring[byteIndex] >> (7 - (index % 8))) & 1) === 1;
+};
+
+const getIssuerId = (credential: any): string | undefined => {
+  return typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+};
+
+export class CredentialStatusChecker {
+  constructor(
+    private resolver: StatusListResolver,
+    private verifySignature: (statusListCredential: any) => Promise<boolean>,
+    private cacheService: CacheService | null = null,
+    private cacheTtlSeconds: number = 600
+  ) {}
+
+  // Check every status entry on the credential; returns the status errors found (empty when valid)
+  async checkCredential(credential: any): Promise<CredentialStatusError[]> {
+    const rawStatus = credential?.credentialStatus;
+    if (!rawStatus) {
+      return [];
+    }
+
+    const entries: StatusListEntry[] = (Array.isArray(rawStatus) ? rawStatus : [rawStatus])
+      .filter((entry: any) => STATUS_ENTRY_TYPES.includes(entry?.type));
+
+    const errors: CredentialStatusError[] = [];
+    for (const entry of entries) {
+      const error = await this.checkEntry(credential, entry);
+      if (error) {
+        errors.push(error);
+      }
+    }
+    return errors;
+  }
+
+  private async checkEntry(credential: any, entry: StatusListEntry): Promise<CredentialStatusError | null> {
+    const credentialId = credential.id;
+    const context = {
+      credentialId,
+      statusPurpose: entry.statusPurpose,
+      statusListCredential: entry.statusListCredential
+    };
+
+    let encodedList: string;
+    try {
+      encodedList = await this.getEncodedList(entry, getIssuerId(credential));
+    } catch (error) {
+      logger.warn('Credential status list unavailable', {
+        ...context,
+        error: error instanceof Error ? error.message : error
+      });
+      return {
+        code: 'STATUS_LIST_UNAVAILABLE',
+        message: error instanceof Error ? error.message : 'Status list could not be retrieved',
+        context
+      };
+    }
+
+    let isSet: boolean;
+    try {
+      isSet = getStatusBit(decodeStatusList(encodedList), Number(entry.statusListIndex));
+    } catch (error) {
+      return {
+        code: 'INVALID_STATUS_LIST',
+        message: error instanceof Error ? error.message : 'Status list could not be decoded',
+        context
+      };
+    }
+
+    if (!isSet) {
+      return null;
+    }
+
+    if (entry.statusPurpose === 'revocation') {
+      return { code: 'REVOKED_CREDENTIAL', message: `Credential has been revoked: ${credentialId}`, context };
+    }
+    if (entry.statusPurpose === 'suspension') {
+      return { code: 'SUSPENDED_CREDENTIAL', message: `Credential is suspended: ${credentialId}`, context };
+    }
+
+    // Other purposes (e.g. "message") carry information rather than invalidating the credential
+    return null;
+  }
+
+  private async getEncodedList(entry: StatusListEntry, credentialIssuer?: string): Promise<string> {
+    const url = entry.statusListCredential;
+    const cached = this.cacheService ? await this.cacheService.getCachedStatusList(url) : null;
+    if (cached) {
+      // The cache is keyed by URL only, so a list verified for another issuer or purpose must not be reused
+      this.checkListMatchesEntry(cached, entry, credentialIssuer);
+      return cached.encodedList;
+    }
+
+    const statusListCredential = await this.resolver.resolve(url);
+    const subject = statusListCredential?.credentialSubject;
+
+    if (!subject?.encodedList) {
+      throw new Error('Status list credential has no encodedList');
+    }
+    const statusList = {
+      encodedList: subject.encodedList,
+      issuer: getIssuerId(statusListCredential),
+      statusPurpose: subject.statusPurpose
+    };
+    this.checkListMatchesEntry(statusList, entry, credentialIssuer);
+    if (!(await this.verifySignature(statusListCredential))) {
+      throw new Error('Status list credential signature could not be verified');
+    }
+
+    if (this.cacheService) {
+      // Bitstring status lists may advertise their own ttl (milliseconds); never cache longer than that
+      const ttl = subject.ttl
+        ? Math.max(1, Math.min(this.cacheTtlSeconds, Math.floor(subject.ttl / 1000)))
+        : this.cacheTtlSeconds;
+      await this.cacheService.cacheStatusList(url, statusList, ttl);
+    }
+
+    return subject.encodedList;
+  }
+
+  private checkListMatchesEntry(
+    statusList: { issuer?: string; statusPurpose?: string },
+    entry: StatusListEntry,
+    credentialIssuer?: string
+  ): void {
+    if (credentialIssuer && statusList.issuer !== credentialIssuer) {
+      throw new Error('Status list credential was not issued by the credential issuer');
+    }
+    if (statusList.statusPurpose && statusList.statusPurpose !== entry.statusPurpose) {
+      throw new Error(`Status list purpose ${statusList.statusPurpose} does not match entry purpose ${entry.statusPurpose}`);
+    }
+  }
+}
+
+export default CredentialStatusChecker;
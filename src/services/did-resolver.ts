@@ -0,0 +1,475 @@
+/**
+ * DID resolver registry with did:key, did:jwk and did:web method resolvers
+ * Resolved documents are cached via CacheService; failures are negatively cached for a shorter TTL
+ */
+
+import { ECDH } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type CacheService from './cache.service';
+import type { DIDResolutionResult } from '../models/types';
+import { DIDResolutionError } from '../utils/errors';
+import { base64UrlDecode, base64UrlEncode, decodeBase58btc } from '../utils/encoding';
+import { isSupportedJwsAlgorithm, verifyJws, type DecodedJws } from '../utils/jws';
+import logger from '../utils/logger';
+
+const DID_PATTERN = /^did:([a-z0-9]+):([A-Za-z0-9._:%-]+)$/;
+
+export interface DIDMethodResolver {
+  readonly method: string;
+  // Returns the DID document, or null when the DID does not exist; throws DIDResolutionError otherwise
+  resolve(did: string): Promise<Record<string, any> | null>;
+}
+
+export interface DIDDocumentFetcher {
+  // Returns the parsed document, or null on 404/410
+  fetchDocument(url: string): Promise<Record<string, any> | null>;
+}
+
+// did:web hosts come from presented DIDs, so documents are never fetched from loopback, private, link-local,
+// shared (CGNAT), multicast or reserved addresses (IPv4 rules also match IPv4-mapped IPv6 addresses)
+const NON_PUBLIC_ADDRESSES = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const MAX_DID_DOCUMENT_BYTES = 1024 * 1024;
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Resolve the host and refuse to connect if any of its addresses is non-public; checking the addresses the
+// socket actually uses means a DNS answer can't change between the check and the connection
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+      callback(new Error(`DID document host ${hostname} does not resolve to a public address`), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export class HttpDIDDocumentFetcher implements DIDDocumentFetcher {
+  // allowPrivateAddresses is for local development and tests only
+  constructor(private timeoutMs: number = 5000, private allowPrivateAddresses: boolean = false) {}
+
+  async fetchDocument(url: string): Promise<Record<string, any> | null> {
+    const target = new URL(url);
+    // IP literals connect without a lookup, so they are checked here
+    const literal = target.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (!this.allowPrivateAddresses && isIP(literal) && !isPublicAddress(literal)) {
+      throw new Error(`DID document host ${target.hostname} is not a public address`);
+    }
+
+    const client = target.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+      const request = client.get(target, {
+        headers: { Accept: 'application/did+json, application/json' },
+        signal: AbortSignal.timeout(this.timeoutMs),
+        ...(this.allowPrivateAddresses ? {} : { lookup: publicLookup })
+      }, response => {
+        const status = response.statusCode || 0;
+        if (status === 404 || status === 410) {
+          response.resume();
+          resolve(null);
+          return;
+        }
+        // Redirects are not followed: they could point at a host that was never checked
+        if (status < 200 || status >= 300) {
+          response.resume();
+          reject(new Error(`DID document fetch returned HTTP ${status}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_DID_DOCUMENT_BYTES) {
+            response.destroy(new Error('DID document is too large'));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('error', reject);
+        response.on('end', () => {
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+          } catch {
+            reject(new Error('DID document is not valid JSON'));
+          }
+        });
+      });
+      request.on('error', reject);
+    });
+  }
+}
+
+// Build a DID document around a single verification method
+const buildDocument = (did: string, verificationMethod: Record<string, any>, keyAgreementOnly: boolean) => {
+  const methodId = verificationMethod.id;
+  const relationships = keyAgreementOnly
+    ? { keyAgreement: [methodId] }
+    : {
+      authentication: [methodId],
+      assertionMethod: [methodId],
+      capabilityInvocation: [methodId],
+      capabilityDelegation: [methodId]
+    };
+
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/jwk/v1'],
+    id: did,
+    verificationMethod: [verificationMethod],
+    ...relationships
+  };
+};
+
+const ecJwk = (compressed: Buffer, curveName: string, crv: string): Record<string, string> => {
+  const uncompressed = ECDH.convertKey(compressed, curveName, undefined, undefined, 'uncompressed') as Buffer;
+  return {
+    kty: 'EC',
+    crv,
+    x: base64UrlEncode(uncompressed.subarray(1, 33)),
+    y: base64UrlEncode(uncompressed.subarray(33, 65))
+  };
+};
+
+// Multicodec public key prefixes (unsigned varint) supported by did:key
+const KEY_CODECS: Array<{ prefix: number[]; keyLength: number; toJwk: (key: Buffer) => Record<string, string> }> = [
+  { prefix: [0xed, 0x01], keyLength: 32, toJwk: key => ({ kty: 'OKP', crv: 'Ed25519', x: base64UrlEncode(key) }) },
+  { prefix: [0xec, 0x01], keyLength: 32, toJwk: key => ({ kty: 'OKP', crv: 'X25519', x: base64UrlEncode(key) }) },
+  { prefix: [0xe7, 0x01], keyLength: 33, toJwk: key => ecJwk(key, 'secp256k1', 'secp256k1') },
+  { prefix: [0x80, 0x24], keyLength: 33, toJwk: key => ecJwk(key, 'prime256v1', 'P-256') }
+];
+
+export class KeyDIDResolver implements DIDMethodResolver {
+  readonly method = 'key';
+
+  async resolve(did: string): Promise<Record<string, any>> {
+    const fingerprint = did.slice('did:key:'.length);
+    if (!fingerprint.startsWith('z')) {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:key must use base58btc multibase encoding');
+    }
+
+    let bytes: Buffer;
+    try {
+      bytes = decodeBase58btc(fingerprint.slice(1));
+    } catch {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:key is not valid base58btc');
+    }
+
+    const codec = KEY_CODECS.find(candidate =>
+      candidate.prefix.every((byte, i) => bytes[i] === byte)
+    );
+    const key = codec ? bytes.subarray(codec.prefix.length) : null;
+    if (!codec || !key || key.length !== codec.keyLength) {
+      throw new DIDResolutionError(did, 'invalidDid', 'Unsupported or malformed did:key public key');
+    }
+
+    let publicKeyJwk: Record<string, string>;
+    try {
+      publicKeyJwk = codec.toJwk(key);
+    } catch {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:key public key is not a valid curve point');
+    }
+
+    return buildDocument(did, {
+      id: `${did}#${fingerprint}`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyMultibase: fingerprint,
+      publicKeyJwk
+    }, publicKeyJwk.crv === 'X25519');
+  }
+}
+
+export class JwkDIDResolver implements DIDMethodResolver {
+  readonly method = 'jwk';
+
+  async resolve(did: string): Promise<Record<string, any>> {
+    let jwk: Record<string, any>;
+    try {
+      jwk = JSON.parse(base64UrlDecode(did.slice('did:jwk:'.length)).toString('utf8'));
+    } catch {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:jwk does not contain a base64url-encoded JWK');
+    }
+
+    if (!jwk || typeof jwk !== 'object' || !jwk.kty) {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:jwk JWK is missing "kty"');
+    }
+    if (jwk.d) {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:jwk must not contain private key material');
+    }
+
+    return buildDocument(did, {
+      id: `${did}#0`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyJwk: jwk
+    }, jwk.use === 'enc');
+  }
+}
+
+export class WebDIDResolver implements DIDMethodResolver {
+  readonly method = 'web';
+
+  constructor(private fetcher: DIDDocumentFetcher) {}
+
+  // did:web:example.com%3A8443:users:alice -> https://example.com:8443/users/alice/did.json
+  static toUrl(did: string): string {
+    const [domain, ...path] = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+    if (!domain || domain.includes('/')) {
+      throw new DIDResolutionError(did, 'invalidDid', 'did:web has an invalid domain');
+    }
+
+    return path.length > 0
+      ? `https://${domain}/${path.join('/')}/did.json`
+      : `https://${domain}/.well-known/did.json`;
+  }
+
+  async resolve(did: string): Promise<Record<string, any> | null> {
+    const url = WebDIDResolver.toUrl(did);
+
+    let document: Record<string, any> | null;
+    try {
+      document = await this.fetcher.fetchDocument(url);
+    } catch (error) {
+      throw new DIDResolutionError(did, 'internalError', error instanceof Error ? error.message : 'DID document fetch failed', { url });
+    }
+
+    if (document && document.id !== did) {
+      throw new DIDResolutionError(did, 'invalidDidDocument', 'DID document id does not match the requested DID', { url });
+    }
+    return document;
+  }
+}
+
+export interface DIDResolverRegistryOptions {
+  cacheTtlSeconds?: number;
+  negativeCacheTtlSeconds?: number;
+  maxLocalCacheEntries?: number;
+}
+
+export class DIDResolverRegistry {
+  private resolvers = new Map<string, DIDMethodResolver>();
+  // Local copy of resolutions for when Redis is unavailable, oldest first
+  private localCache = new Map<string, { result: DIDResolutionResult; expiresAt: number }>();
+  private cacheTtlSeconds: number;
+  private negativeCacheTtlSeconds: number;
+  private maxLocalCacheEntries: number;
+
+  constructor(private cacheService: CacheService | null, options: DIDResolverRegistryOptions = {}) {
+    this.cacheTtlSeconds = options.cacheTtlSeconds || 3600;
+    this.negativeCacheTtlSeconds = options.negativeCacheTtlSeconds || 60;
+    this.maxLocalCacheEntries = options.maxLocalCacheEntries || 10000;
+  }
+
+  register(resolver: DIDMethodResolver): this {
+    this.resolvers.set(resolver.method, resolver);
+    return this;
+  }
+
+  supportsMethod(did: string): boolean {
+    const match = DID_PATTERN.exec(did || '');
+    return Boolean(match && this.resolvers.has(match[1]));
+  }
+
+  // Resolve a DID; failures are reported in didResolutionMetadata rather than thrown
+  async resolve(did: string): Promise<DIDResolutionResult> {
+    const match = DID_PATTERN.exec(did || '');
+    if (!match) {
+      return this.failure('invalidDid', `Invalid DID: ${did}`);
+    }
+
+    const cached = await this.getCached(did);
+    if (cached) {
+      return cached;
+    }
+
+    const resolver = this.resolvers.get(match[1]);
+    if (!resolver) {
+      return this.failure('methodNotSupported', `DID method not supported: ${match[1]}`);
+    }
+
+    const startTime = Date.now();
+    let result: DIDResolutionResult;
+    try {
+      const didDocument = await resolver.resolve(did);
+      result = didDocument
+        ? {
+          didDocument,
+          didResolutionMetadata: {
+            contentType: 'application/did+json',
+            retrieved: new Date().toISOString(),
+            duration: Date.now() - startTime
+          },
+          didDocumentMetadata: {}
+        }
+        : this.failure('notFound', `DID not found: ${did}`);
+    } catch (error) {
+      result = error instanceof DIDResolutionError
+        ? this.failure(error.resolutionError, error.message)
+        : this.failure('internalError', error instanceof Error ? error.message : 'DID resolution failed');
+    }
+
+    await this.store(did, result);
+    if (result.didResolutionMetadata.error) {
+      logger.warn('DID resolution failed', { did, ...result.didResolutionMetadata });
+    }
+    return result;
+  }
+
+  // Resolve a DID and return its document, throwing a DIDResolutionError on failure
+  async resolveDocument(did: string): Promise<Record<string, any>> {
+    const { didDocument, didResolutionMetadata } = await this.resolve(did);
+    if (!didDocument) {
+      throw new DIDResolutionError(did, didResolutionMetadata.error || 'internalError', didResolutionMetadata.message);
+    }
+    return didDocument;
+  }
+
+  // Find a verification method by DID URL (or the first method when only a DID is given)
+  async getVerificationMethod(didUrl: string): Promise<Record<string, any>> {
+    const [did, fragment] = didUrl.split('#');
+    const document = await this.resolveDocument(did);
+    const methods: any[] = document.verificationMethod || [];
+
+    const method = fragment
+      ? methods.find(vm => vm.id === didUrl || vm.id === `#${fragment}`)
+      : methods[0];
+    if (!method) {
+      throw new DIDResolutionError(did, 'notFound', `Verification method not found: ${didUrl}`);
+    }
+    return method;
+  }
+
+  // Verify a JWS signed by `did` with a key listed under `relationship` in its document; resolution failures throw
+  async verifyJwsSignature(
+    jws: DecodedJws,
+    did: string,
+    relationship: 'assertionMethod' | 'authentication' = 'assertionMethod'
+  ): Promise<boolean> {
+    if (!isSupportedJwsAlgorithm(jws.header.alg)) {
+      return false;
+    }
+
+    // Relative references ("#key-1") are resolved against the DID; without a kid the first method is used
+    const absolute = (id: string) => id.startsWith('#') ? `${did}${id}` : id;
+    const kid = absolute(typeof jws.header.kid === 'string' ? jws.header.kid : did);
+    if (kid.split('#')[0] !== did) {
+      return false;
+    }
+
+    const document = await this.resolveDocument(did);
+    const method = await this.getVerificationMethod(kid);
+    const authorized = (document[relationship] || []).some((entry: any) =>
+      absolute(typeof entry === 'string' ? entry : entry?.id) === absolute(method.id)
+    );
+    return authorized && Boolean(method.publicKeyJwk) && verifyJws(jws, method.publicKeyJwk);
+  }
+
+  // Drop expired entries once the cache is full, then the oldest ones if it still is
+  private pruneLocalCache(): void {
+    if (this.localCache.size <= this.maxLocalCacheEntries) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [did, entry] of this.localCache) {
+      if (entry.expiresAt <= now) {
+        this.localCache.delete(did);
+      }
+    }
+    for (const did of this.localCache.keys()) {
+      if (this.localCache.size <= this.maxLocalCacheEntries) {
+        break;
+      }
+      this.localCache.delete(did);
+    }
+  }
+
+  private failure(error: string, message: string): DIDResolutionResult {
+    return {
+      didDocument: null,
+      didResolutionMetadata: { error, message },
+      didDocumentMetadata: {}
+    };
+  }
+
+  private async getCached(did: string): Promise<DIDResolutionResult | null> {
+    if (this.cacheService) {
+      const document = await this.cacheService.getCachedDIDDocument(did);
+      if (document) {
+        return {
+          didDocument: document,
+          didResolutionMetadata: { contentType: 'application/did+json', cached: true },
+          didDocumentMetadata: {}
+        };
+      }
+
+      const failure = await this.cacheService.getCachedDIDResolutionFailure(did);
+      if (failure) {
+        return { didDocument: null, didResolutionMetadata: { ...failure, cached: true }, didDocumentMetadata: {} };
+      }
+    }
+
+    const local = this.localCache.get(did);
+    if (local && local.expiresAt > Date.now()) {
+      return {
+        ...local.result,
+        didResolutionMetadata: { ...local.result.didResolutionMetadata, cached: true }
+      };
+    }
+    if (local) {
+      this.localCache.delete(did);
+    }
+    return null;
+  }
+
+  private async store(did: string, result: DIDResolutionResult): Promise<void> {
+    const ttl = result.didDocument ? this.cacheTtlSeconds : this.negativeCacheTtlSeconds;
+    this.localCache.delete(did);
+    this.localCache.set(did, { result, expiresAt: Date.now() + ttl * 1000 });
+    this.pruneLocalCache();
+
+    if (!this.cacheService) {
+      return;
+    }
+    if (result.didDocument) {
+      await this.cacheService.cacheDIDDocument(did, result.didDocument, ttl);
+    } else {
+      await this.cacheService.cacheDIDResolutionFailure(did, result.didResolutionMetadata, ttl);
+    }
+  }
+}
+
+// Registry with the built-in did:key, did:jwk and did:web resolvers
+export const createDIDResolver = (
+  cacheService: CacheService | null,
+  options: DIDResolverRegistryOptions & { fetcher?: DIDDocumentFetcher; timeoutMs?: number } = {}
+): DIDResolverRegistry => {
+  return new DIDResolverRegistry(cacheService, options)
+    .register(new KeyDIDResolver())
+    .register(new JwkDIDResolver())
+    .register(new WebDIDResolver(options.fetcher || new HttpDIDDocumentFetcher(options.timeoutMs)));
+};
+
+export default DIDResolverRegistry;
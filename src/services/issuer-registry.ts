@@ -0,0 +1,269 @@
+/**
+ * Trusted issuer registry stored in Redis, seeded from TRUSTED_ISSUERS
+ * Each issuer carries metadata (name, allowed credential types, validity window, status) checked during verification
+ */
+
+import { EventEmitter } from 'events';
+import type CacheService from './cache.service';
+import type DIDResolverRegistry from './did-resolver';
+import type { TrustedIssuer, TrustedIssuerStatus } from '../models/types';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface TrustedIssuerInput {
+  did: string;
+  name?: string;
+  allowedCredentialTypes?: string[];
+  validFrom?: string;
+  validUntil?: string;
+  status?: TrustedIssuerStatus;
+}
+
+export interface IssuerTrustResult {
+  trusted: boolean;
+  reason?: string;
+}
+
+const DID_PATTERN = /^did:[a-z0-9]+:\S+$/;
+const GENERIC_CREDENTIAL_TYPE = 'VerifiableCredential';
+// Types granting privileges here; an issuer without allowed types may not issue them
+export const PRIVILEGED_CREDENTIAL_TYPES = ['AdminCredential'];
+
+const getCredentialIssuer = (credential: any): string | undefined => {
+  return typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+};
+
+// Emits `updated` with the active issuer DIDs whenever the registry changes
+export class TrustedIssuerRegistry extends EventEmitter {
+  private issuers = new Map<string, TrustedIssuer>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(
+    private cacheService: CacheService | null,
+    seedIssuers: string[] = [],
+    private didResolver: DIDResolverRegistry | null = null,
+    // Issuers allowed to issue privileged types on top of their allowed types (ADMIN_CREDENTIAL_ISSUERS)
+    private privilegedIssuers: string[] = []
+  ) {
+    super();
+    const now = new Date().toISOString();
+    seedIssuers.forEach(did => {
+      this.issuers.set(did, {
+        did,
+        name: `Issuer ${did.slice(-8)}`,
+        allowedCredentialTypes: [],
+        status: 'active',
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+  }
+
+  // Synchronous view for components that can't await (e.g. the revocation registry issuer list)
+  getActiveIssuerDIDs(now: Date = new Date()): string[] {
+    return Array.from(this.issuers.values())
+      .filter(issuer => this.evaluateIssuer(issuer, now).trusted)
+      .map(issuer => issuer.did);
+  }
+
+  async listIssuers(): Promise<TrustedIssuer[]> {
+    await this.refresh();
+    return Array.from(this.issuers.values());
+  }
+
+  async getIssuer(did: string): Promise<TrustedIssuer | null> {
+    await this.refresh();
+    return this.issuers.get(did) || null;
+  }
+
+  async addIssuer(input: TrustedIssuerInput): Promise<TrustedIssuer> {
+    await this.refresh();
+    if (this.issuers.has(input.did)) {
+      throw new ConflictError(`Issuer already registered: ${input.did}`, { did: input.did });
+    }
+
+    await this.validateDID(input.did);
+    const now = new Date().toISOString();
+    const issuer = this.validateIssuer({
+      did: input.did,
+      name: input.name || `Issuer ${input.did.slice(-8)}`,
+      allowedCredentialTypes: input.allowedCredentialTypes || [],
+      validFrom: input.validFrom,
+      validUntil: input.validUntil,
+      status: input.status || 'active',
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await this.save(issuer);
+    logger.info('Trusted issuer added', { did: issuer.did, allowedCredentialTypes: issuer.allowedCredentialTypes });
+    return issuer;
+  }
+
+  async updateIssuer(did: string, changes: Omit<TrustedIssuerInput, 'did'>): Promise<TrustedIssuer> {
+    const existing = await this.requireIssuer(did);
+    const issuer = this.validateIssuer({
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      did,
+      updatedAt: new Date().toISOString()
+    });
+
+    await this.save(issuer);
+    logger.info('Trusted issuer updated', { did, changes: Object.keys(changes) });
+    return issuer;
+  }
+
+  async suspendIssuer(did: string): Promise<TrustedIssuer> {
+    return this.updateIssuer(did, { status: 'suspended' });
+  }
+
+  async reactivateIssuer(did: string): Promise<TrustedIssuer> {
+    return this.updateIssuer(did, { status: 'active' });
+  }
+
+  async removeIssuer(did: string): Promise<void> {
+    await this.requireIssuer(did);
+
+    this.issuers.delete(did);
+    if (this.cacheService) {
+      await this.cacheService.removeCachedTrustedIssuer(did);
+    }
+
+    logger.info('Trusted issuer removed', { did });
+    this.emit('updated', this.getActiveIssuerDIDs());
+  }
+
+  // Check that a credential's issuer is registered, active, within its validity window and allowed to issue its types;
+  // privileged types must be allowed explicitly, either in allowedCredentialTypes or through ADMIN_CREDENTIAL_ISSUERS
+  async checkCredential(credential: any, now: Date = new Date()): Promise<IssuerTrustResult> {
+    const issuerDID = getCredentialIssuer(credential);
+    if (!issuerDID) {
+      return { trusted: false, reason: 'Credential has no issuer' };
+    }
+
+    const issuer = await this.getIssuer(issuerDID);
+    if (!issuer) {
+      return { trusted: false, reason: 'Issuer is not registered' };
+    }
+
+    const issuerResult = this.evaluateIssuer(issuer, now);
+    if (!issuerResult.trusted) {
+      return issuerResult;
+    }
+
+    const types: string[] = Array.isArray(credential.type) ? credential.type : [credential.type];
+    const disallowed = types.filter(type => {
+      if (!type || type === GENERIC_CREDENTIAL_TYPE || issuer.allowedCredentialTypes.includes(type)) {
+        return false;
+      }
+      if (PRIVILEGED_CREDENTIAL_TYPES.includes(type)) {
+        return !this.privilegedIssuers.includes(issuer.did);
+      }
+      return issuer.allowedCredentialTypes.length > 0;
+    });
+    if (disallowed.length > 0) {
+      return { trusted: false, reason: `Issuer is not allowed to issue ${disallowed.join(', ')}` };
+    }
+
+    return { trusted: true };
+  }
+
+  private evaluateIssuer(issuer: TrustedIssuer, now: Date): IssuerTrustResult {
+    if (issuer.status !== 'active') {
+      return { trusted: false, reason: `Issuer is ${issuer.status}` };
+    }
+    if (issuer.validFrom && now < new Date(issuer.validFrom)) {
+      return { trusted: false, reason: 'Issuer is not yet valid' };
+    }
+    if (issuer.validUntil && now > new Date(issuer.validUntil)) {
+      return { trusted: false, reason: 'Issuer validity has ended' };
+    }
+    return { trusted: true };
+  }
+
+  private async requireIssuer(did: string): Promise<TrustedIssuer> {
+    const issuer = await this.getIssuer(did);
+    if (!issuer) {
+      throw new NotFoundError(`Issuer not registered: ${did}`, { did });
+    }
+    return issuer;
+  }
+
+  private async validateDID(did: string): Promise<void> {
+    if (!did || typeof did !== 'string' || !DID_PATTERN.test(did)) {
+      throw new ValidationError('Issuer DID is invalid', { did });
+    }
+
+    // Only DID methods we can resolve are checked; others are accepted as configured
+    if (this.didResolver?.supportsMethod(did)) {
+      const { didResolutionMetadata } = await this.didResolver.resolve(did);
+      if (didResolutionMetadata.error) {
+        throw new ValidationError('Issuer DID could not be resolved', { did, resolutionError: didResolutionMetadata.error });
+      }
+    }
+  }
+
+  private validateIssuer(issuer: TrustedIssuer): TrustedIssuer {
+    if (!Array.isArray(issuer.allowedCredentialTypes) ||
+        issuer.allowedCredentialTypes.some(type => typeof type !== 'string')) {
+      throw new ValidationError('allowedCredentialTypes must be an array of strings', { did: issuer.did });
+    }
+    if (!['active', 'suspended'].includes(issuer.status)) {
+      throw new ValidationError('Issuer status must be active or suspended', { did: issuer.did, status: issuer.status });
+    }
+
+    const validFrom = issuer.validFrom ? new Date(issuer.validFrom) : null;
+    const validUntil = issuer.validUntil ? new Date(issuer.validUntil) : null;
+    if ((validFrom && isNaN(validFrom.getTime())) || (validUntil && isNaN(validUntil.getTime()))) {
+      throw new ValidationError('Issuer validity dates must be ISO 8601 dates', { did: issuer.did });
+    }
+    if (validFrom && validUntil && validFrom >= validUntil) {
+      throw new ValidationError('Issuer validFrom must be before validUntil', { did: issuer.did });
+    }
+
+    return issuer;
+  }
+
+  private async save(issuer: TrustedIssuer): Promise<void> {
+    this.issuers.set(issuer.did, issuer);
+    if (this.cacheService) {
+      await this.cacheService.cacheTrustedIssuer(issuer);
+    }
+    this.emit('updated', this.getActiveIssuerDIDs());
+  }
+
+  // Reload from Redis so changes made on other instances are visible; the first load seeds an empty registry
+  private async refresh(): Promise<void> {
+    if (!this.cacheService) {
+      return;
+    }
+
+    if (!this.loaded) {
+      this.loaded = this.seed();
+    }
+    await this.loaded;
+
+    const stored = await this.cacheService.getCachedTrustedIssuers<TrustedIssuer>();
+    if (stored) {
+      const previous = this.getActiveIssuerDIDs().sort().join(',');
+      this.issuers = new Map(stored.map(issuer => [issuer.did, issuer]));
+      if (this.getActiveIssuerDIDs().sort().join(',') !== previous) {
+        this.emit('updated', this.getActiveIssuerDIDs());
+      }
+    }
+  }
+
+  private async seed(): Promise<void> {
+    const stored = await this.cacheService!.getCachedTrustedIssuers<TrustedIssuer>();
+    if (stored && stored.length === 0) {
+      await Promise.all(Array.from(this.issuers.values()).map(issuer => this.cacheService!.cacheTrustedIssuer(issuer)));
+      logger.info('Seeded trusted issuer registry', { count: this.issuers.size });
+    } else if (!stored) {
+      // Redis unavailable; retry seeding on the next access
+      this.loaded = null;
+    }
+  }
+}
+
+export default TrustedIssuerRegistry;
@@ -0,0 +1,255 @@
+/**
+ * JWT VC/VP presentation verification
+ * The presentation JWT is verified with an authentication key of its holder (`iss`) and each embedded
+ * credential JWT with an assertionMethod key of its issuer, both resolved through the DID resolver
+ */
+
+import type { DIDResolverRegistry } from './did-resolver';
+import type { ExtendedVerificationResult } from '../models/types';
+import { decodeJws, type DecodedJws } from '../utils/jws';
+import {
+  JWT_VC_TYPES,
+  JWT_VP_TYPES,
+  getJwtCredentialId,
+  isNumericDate,
+  jwtClaimsToCredential
+} from '../utils/jwt-vc';
+import { isServiceError } from '../utils/errors';
+
+export interface JwtVcVerifierOptions {
+  clockSkewSeconds?: number;
+  audience?: string; // required `aud` when the presentation is not bound to a request (usually the service DID)
+  unboundMaxAgeSeconds?: number; // how old an `iat` may be on a presentation not bound to a request
+}
+
+// Nonce and audience the presentation JWT must carry; omitted when there is no request to bind to
+export interface JwtPresentationExpectation {
+  nonce?: string;
+  audience?: string;
+}
+
+type VerificationError = { code: string; message: string; context?: any };
+
+const invalid = (errors: VerificationError[]): ExtendedVerificationResult => ({
+  isValid: false,
+  errors,
+  verificationMethod: 'jwt'
+});
+
+const decode = (token: unknown, types: string[]): DecodedJws | null => {
+  try {
+    const jws = decodeJws(token as string);
+    return jws.header.typ === undefined || types.includes(jws.header.typ) ? jws : null;
+  } catch {
+    return null;
+  }
+};
+
+export class JwtVcVerifier {
+  constructor(
+    private didResolver: DIDResolverRegistry,
+    private options: JwtVcVerifierOptions = {}
+  ) {}
+
+  // Verify a JWT-VP and its JWT-VCs; failures are reported as result errors rather than thrown
+  async verify(
+    token: string,
+    expectation: JwtPresentationExpectation = {},
+    now: number = Date.now()
+  ): Promise<ExtendedVerificationResult> {
+    const presentation = decode(token, JWT_VP_TYPES);
+    const holderDID = presentation?.payload.iss ?? presentation?.payload.vp?.holder;
+    if (!presentation || !presentation.payload.vp || typeof holderDID !== 'string') {
+      return invalid([{ code: 'INVALID_JWT', message: 'Presentation must be a JWT with iss and vp claims' }]);
+    }
+
+    const signatureError = await this.checkSignature(presentation, holderDID, 'authentication');
+    if (signatureError) {
+      return invalid([signatureError]);
+    }
+
+    const errors: VerificationError[] = [
+      ...this.checkValidity(presentation.payload, 'presentation', now),
+      ...this.checkBinding(presentation.payload, expectation, now)
+    ];
+
+    const embedded = presentation.payload.vp.verifiableCredential;
+    const tokens: unknown[] = Array.isArray(embedded) ? embedded : embedded !== undefined ? [embedded] : [];
+    const credentials: Record<string, any>[] = [];
+    for (const [index, credentialToken] of tokens.entries()) {
+      const credential = decode(credentialToken, JWT_VC_TYPES);
+      if (!credential || !credential.payload.vc || typeof credential.payload.iss !== 'string') {
+        errors.push({
+          code: 'INVALID_JWT',
+          message: 'Embedded credentials must be JWTs with iss and vc claims',
+          context: { credentialIndex: index }
+        });
+        continue;
+      }
+
+      errors.push(...await this.checkCredential(credentialToken as string, credential, holderDID, now));
+      credentials.push(jwtClaimsToCredential(credentialToken as string, credential.payload));
+    }
+
+    // Attributes from every credential, like a JSON-LD presentation's disclosed credential subjects
+    const attributes: Record<string, any> = {};
+    credentials.forEach(credential => {
+      const { id: _subjectId, ...subject } = credential.credentialSubject;
+      Object.assign(attributes, subject);
+    });
+
+    return {
+      isValid: errors.length === 0,
+      holder: holderDID,
+      holderDID,
+      credentials,
+      credentialIds: credentials.map(credential => credential.id),
+      attributes,
+      disclosedAttributes: attributes,
+      errors,
+      verificationMethod: 'jwt'
+    };
+  }
+
+  private async checkCredential(
+    token: string,
+    credential: DecodedJws,
+    holderDID: string,
+    now: number
+  ): Promise<VerificationError[]> {
+    const { payload } = credential;
+    const credentialId = getJwtCredentialId(token, payload);
+
+    const signatureError = await this.checkSignature(credential, payload.iss, 'assertionMethod');
+    if (signatureError) {
+      return [{ ...signatureError, context: { ...signatureError.context, credentialId } }];
+    }
+
+    const errors = this.checkValidity(payload, 'credential', now, credentialId);
+    errors.push(...this.checkHolder(payload, holderDID, credentialId));
+    return errors;
+  }
+
+  // The credential must name its subject, in `sub` or `vc.credentialSubject.id`, and every name must be the holder
+  private checkHolder(payload: Record<string, any>, holderDID: string, credentialId: string): VerificationError[] {
+    const subjects = [payload.sub, payload.vc?.credentialSubject?.id].filter(subject => subject !== undefined);
+    if (subjects.length === 0) {
+      return [{
+        code: 'HOLDER_MISMATCH',
+        message: 'Credential is not bound to a holder (no sub or credentialSubject.id)',
+        context: { credentialId, holderDID }
+      }];
+    }
+
+    const subject = subjects.find(candidate => candidate !== holderDID);
+    if (subject !== undefined) {
+      return [{
+        code: 'HOLDER_MISMATCH',
+        message: 'Credential subject is not the presentation holder',
+        context: { credentialId, subject, holderDID }
+      }];
+    }
+    return [];
+  }
+
+  private async checkSignature(
+    jws: DecodedJws,
+    did: string,
+    relationship: 'assertionMethod' | 'authentication'
+  ): Promise<VerificationError | null> {
+    const role = relationship === 'authentication' ? 'holder' : 'issuer';
+    try {
+      if (!await this.didResolver.verifyJwsSignature(jws, did, relationship)) {
+        return {
+          code: 'INVALID_SIGNATURE',
+          message: `JWT ${role} signature is invalid`,
+          context: { did, role, kid: jws.header.kid }
+        };
+      }
+      return null;
+    } catch (error) {
+      return {
+        code: isServiceError(error) ? error.code : 'DID_RESOLUTION_FAILED',
+        message: error instanceof Error ? error.message : `Failed to resolve ${role} DID`,
+        context: { did, role }
+      };
+    }
+  }
+
+  private checkValidity(
+    payload: Record<string, any>,
+    kind: 'presentation' | 'credential',
+    now: number,
+    credentialId?: string
+  ): VerificationError[] {
+    const skewMs = (this.options.clockSkewSeconds ?? 60) * 1000;
+    const codes = kind === 'credential'
+      ? { expired: 'EXPIRED_CREDENTIAL', notYetValid: 'CREDENTIAL_NOT_YET_VALID' }
+      : { expired: 'EXPIRED_PRESENTATION', notYetValid: 'PRESENTATION_NOT_YET_VALID' };
+    const context = credentialId ? { credentialId } : {};
+
+    const malformed = ['exp', 'nbf', 'iat'].filter(claim => payload[claim] !== undefined && !isNumericDate(payload[claim]));
+    if (malformed.length > 0) {
+      return [{
+        code: 'INVALID_JWT',
+        message: `JWT ${kind} ${malformed.join(', ')} must be a NumericDate`,
+        context: { ...context, claims: malformed }
+      }];
+    }
+
+    if (typeof payload.exp === 'number' && payload.exp * 1000 + skewMs < now) {
+      return [{
+        code: codes.expired,
+        message: `JWT ${kind} has expired`,
+        context: { ...context, expiredAt: new Date(payload.exp * 1000).toISOString() }
+      }];
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf * 1000 - skewMs > now) {
+      return [{
+        code: codes.notYetValid,
+        message: `JWT ${kind} is not valid yet`,
+        context: { ...context, validFrom: new Date(payload.nbf * 1000).toISOString() }
+      }];
+    }
+    return [];
+  }
+
+  // Bound presentations must echo the request's nonce and audience. Unbound ones (batch verification) have no
+  // challenge to echo, so they must name this service and be recent, which limits how long a captured one replays
+  private checkBinding(
+    payload: Record<string, any>,
+    expectation: JwtPresentationExpectation,
+    now: number
+  ): VerificationError[] {
+    const errors: VerificationError[] = [];
+    if (expectation.nonce !== undefined && payload.nonce !== expectation.nonce) {
+      errors.push({ code: 'CHALLENGE_MISMATCH', message: 'Presentation JWT nonce does not match the presentation request' });
+    }
+
+    if (expectation.nonce === undefined) {
+      const skewMs = (this.options.clockSkewSeconds ?? 60) * 1000;
+      const maxAgeMs = (this.options.unboundMaxAgeSeconds ?? 300) * 1000;
+      const issuedAt = typeof payload.iat === 'number' ? payload.iat * 1000 : NaN;
+      if (!(issuedAt <= now + skewMs && issuedAt >= now - maxAgeMs - skewMs)) {
+        errors.push({
+          code: 'EXPIRED_PRESENTATION',
+          message: 'Unbound presentation JWT iat is missing or outside the acceptance window',
+          context: { maxAgeSeconds: maxAgeMs / 1000 }
+        });
+      }
+    }
+
+    const audiences: unknown[] = Array.isArray(payload.aud) ? payload.aud : payload.aud !== undefined ? [payload.aud] : [];
+    const expectedAudience = expectation.audience ?? this.options.audience;
+    if (expectedAudience !== undefined && !audiences.includes(expectedAudience)) {
+      errors.push({
+        code: 'DOMAIN_MISMATCH',
+        message: 'Presentation JWT audience does not match the presentation request',
+        context: { expectedDomain: expectedAudience }
+      });
+    }
+    return errors;
+  }
+}
+
+export default JwtVcVerifier;
@@ -0,0 +1,352 @@
+/**
+ * OpenID for Verifiable Presentations (OID4VP) verifier
+ * Authorization requests are signed request objects (RFC 9101) that wallets fetch from `request_uri`;
+ * wallets answer with `vp_token` and `presentation_submission` via response_mode `direct_post`
+ */
+
+import crypto from 'crypto';
+import type CacheService from './cache.service';
+import type ServiceProviderService from './service-provider.service';
+import serviceConfig from '../config/service.config';
+import { config } from '../config';
+import type { PresentationDefinition } from '../models/types';
+import { signJws } from '../utils/jws';
+import { base64UrlEncode } from '../utils/encoding';
+import { isSdJwt } from '../utils/sd-jwt';
+import { isJwtPresentation } from '../utils/jwt-vc';
+import {
+  DEFAULT_CREDENTIAL_FORMATS,
+  evaluatePresentationSubmission,
+  getPresentationDefinition
+} from '../utils/presentation-exchange';
+import logger from '../utils/logger';
+import {
+  InvalidPresentationError,
+  isServiceError,
+  NotFoundError,
+  ReplayedPresentationError,
+  ValidationError
+} from '../utils/errors';
+
+export interface OID4VPVerifierOptions {
+  baseUrl: string; // public base URL of this API, used for request_uri and response_uri
+  clientId: string;
+  keyId: string;
+  signingKey: crypto.KeyObject;
+  requestTtlSeconds?: number;
+}
+
+export interface OID4VPAuthorizationRequest {
+  requestId: string;
+  transactionId: string; // returned to the relying party only, used to collect the session
+  clientId: string;
+  requestUri: string;
+  authorizationRequestUri: string; // openid4vp:// link or QR code payload for the wallet
+  expiresIn: number;
+}
+
+export interface OID4VPResponse {
+  vp_token?: unknown;
+  presentation_submission?: unknown;
+  state?: unknown;
+}
+
+export type OID4VPTransactionStatus = 'pending' | 'complete' | 'failed';
+
+export interface OID4VPTransaction {
+  requestId: string;
+  status: OID4VPTransactionStatus;
+  sessionId?: string;
+  expiresIn?: number;
+  error?: { code: string; message: string };
+  updatedAt: string;
+}
+
+export const OID4VP_REQUEST_OBJECT_TYPE = 'oauth-authz-req+jwt';
+
+const SELF_ISSUED_AUDIENCE = 'https://self-issued.me/v2';
+
+const hashTransactionId = (transactionId: string): string => {
+  return crypto.createHash('sha256').update(transactionId).digest('hex');
+};
+
+// Form-encoded direct_post bodies carry JSON members as strings
+const parseJsonMember = (value: unknown, name: string): any => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ValidationError(`${name} is not valid JSON`);
+  }
+};
+
+// SD-JWT VCs and JWT-VPs are submitted as compact strings rather than JSON
+const isCompactPresentation = (value: unknown): value is string => isSdJwt(value) || isJwtPresentation(value);
+
+export class OID4VPVerifier {
+  private requestTtlSeconds: number;
+
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    private cacheService: CacheService,
+    private options: OID4VPVerifierOptions
+  ) {
+    this.requestTtlSeconds = options.requestTtlSeconds || 300;
+  }
+
+  getClientId(): string {
+    return this.options.clientId;
+  }
+
+  // Create and sign an authorization request for an endpoint's requirements
+  async createAuthorizationRequest(endpoint: string): Promise<OID4VPAuthorizationRequest> {
+    const requirements = serviceConfig.endpointRequirements[endpoint];
+    if (!requirements) {
+      throw new ValidationError(`No requirements defined for endpoint: ${endpoint}`, { endpoint });
+    }
+
+    // Wallets bind the presentation proof to the nonce and to our client_id as its domain
+    const presentationRequest = await this.serviceProvider.createPresentationRequest(endpoint, this.options.clientId);
+    const { requestId, challenge } = presentationRequest;
+    const transactionId = crypto.randomBytes(32).toString('base64url');
+    const presentationDefinition = getPresentationDefinition(endpoint, requirements);
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    const requestObject = signJws(
+      { typ: OID4VP_REQUEST_OBJECT_TYPE, kid: this.options.keyId },
+      {
+        iss: this.options.clientId,
+        aud: SELF_ISSUED_AUDIENCE,
+        iat: issuedAt,
+        exp: issuedAt + this.requestTtlSeconds,
+        client_id: this.options.clientId,
+        client_id_scheme: 'did',
+        response_type: 'vp_token',
+        response_mode: 'direct_post',
+        response_uri: `${this.options.baseUrl}/oid4vp/response`,
+        nonce: challenge,
+        state: requestId,
+        presentation_definition: presentationDefinition,
+        client_metadata: {
+          vp_formats: presentationDefinition.format || DEFAULT_CREDENTIAL_FORMATS
+        }
+      },
+      this.options.signingKey
+    );
+
+    await this.cacheService.cachePresentationRequest(
+      requestId,
+      {
+        ...presentationRequest,
+        endpoint,
+        oid4vp: {
+          requestObject,
+          presentationDefinition,
+          transactionKey: hashTransactionId(transactionId)
+        }
+      },
+      this.requestTtlSeconds
+    );
+    await this.saveTransaction(hashTransactionId(transactionId), { requestId, status: 'pending' });
+
+    const requestUri = `${this.options.baseUrl}/oid4vp/request/${requestId}`;
+    const query = new URLSearchParams({ client_id: this.options.clientId, request_uri: requestUri });
+
+    logger.info('OID4VP authorization request created', {
+      requestId,
+      endpoint,
+      definitionId: presentationDefinition.id
+    });
+
+    return {
+      requestId,
+      transactionId,
+      clientId: this.options.clientId,
+      requestUri,
+      authorizationRequestUri: `openid4vp://?${query.toString()}`,
+      expiresIn: this.requestTtlSeconds
+    };
+  }
+
+  // Signed request object served at request_uri
+  async getRequestObject(requestId: string): Promise<string> {
+    const cachedRequest = await this.cacheService.getCachedPresentationRequest(requestId);
+    if (!cachedRequest?.oid4vp) {
+      throw new NotFoundError('Authorization request not found or expired', { requestId });
+    }
+    return cachedRequest.oid4vp.requestObject;
+  }
+
+  // Verify a wallet's direct_post response and mint a session for the relying party to collect
+  async handleResponse(response: OID4VPResponse): Promise<OID4VPTransaction> {
+    const requestId = response.state;
+    if (!requestId || typeof requestId !== 'string') {
+      throw new ValidationError('state is required');
+    }
+
+    const cachedRequest = await this.cacheService.getCachedPresentationRequest(requestId);
+    if (!cachedRequest?.oid4vp) {
+      if (await this.cacheService.isPresentationRequestConsumed(requestId)) {
+        throw new ReplayedPresentationError(requestId);
+      }
+      throw new ValidationError('Authorization request not found or expired', { requestId });
+    }
+
+    const { transactionKey, presentationDefinition } = cachedRequest.oid4vp;
+    // `state` is public, so only a response that verified against the request may settle the transaction;
+    // anything else is rejected to its sender and the transaction stays pending until it expires
+    let verified = false;
+    try {
+      const vpToken = isCompactPresentation(response.vp_token)
+        ? response.vp_token
+        : parseJsonMember(response.vp_token, 'vp_token');
+      const presentation = this.getPresentation(vpToken);
+      this.checkSubmission(response.presentation_submission, presentationDefinition, vpToken, requestId);
+
+      const verificationResult = await this.serviceProvider.verifyPresentationWithRequest(presentation, cachedRequest);
+      verified = true;
+
+      // Consume the request before issuing a session so concurrent replays can't both succeed
+      if (!await this.cacheService.consumePresentationRequest(requestId)) {
+        throw new ReplayedPresentationError(requestId);
+      }
+
+      const session = await this.serviceProvider.createSessionFromVerification(verificationResult, {
+        endpoint: cachedRequest.endpoint,
+        requestId,
+        protocol: 'oid4vp'
+      });
+
+      logger.info('OID4VP presentation verified and session created', {
+        requestId,
+        sessionId: session.id,
+        holderDID: verificationResult.holderDID
+      });
+
+      return await this.saveTransaction(transactionKey, {
+        requestId,
+        status: 'complete',
+        sessionId: session.id,
+        expiresIn: session.expiresIn || serviceConfig.sessionConfig.defaultDuration
+      });
+    } catch (error) {
+      const code = isServiceError(error) ? error.code : 'VERIFICATION_ERROR';
+      if (!verified) {
+        logger.warn('OID4VP response rejected', { requestId, code });
+        throw error;
+      }
+
+      await this.saveTransaction(transactionKey, {
+        requestId,
+        status: 'failed',
+        error: {
+          code,
+          message: error instanceof Error ? error.message : 'Presentation verification failed'
+        }
+      });
+      throw error;
+    }
+  }
+
+  async getTransaction(transactionId: string): Promise<OID4VPTransaction> {
+    const transaction = await this.cacheService.get<OID4VPTransaction>(
+      `oid4vp:transaction:${hashTransactionId(transactionId)}`
+    );
+    if (!transaction) {
+      throw new NotFoundError('OID4VP transaction not found or expired');
+    }
+    return transaction;
+  }
+
+  // A JSON-LD presentation, SD-JWT VC or JWT-VP; a single-element array is accepted for one-presentation submissions
+  private getPresentation(vpToken: any): any {
+    const presentation = Array.isArray(vpToken) && vpToken.length === 1 ? vpToken[0] : vpToken;
+
+    if (isCompactPresentation(presentation)) {
+      return presentation;
+    }
+    if (!presentation || typeof presentation !== 'object' || Array.isArray(presentation)) {
+      throw new ValidationError('vp_token must contain exactly one JSON-LD verifiable presentation, SD-JWT VC or JWT-VP');
+    }
+    return presentation;
+  }
+
+  // Descriptor map paths are evaluated against the vp_token as submitted
+  private checkSubmission(
+    submission: unknown,
+    definition: PresentationDefinition,
+    vpToken: any,
+    requestId: string
+  ): void {
+    const evaluation = evaluatePresentationSubmission(
+      definition,
+      parseJsonMember(submission, 'presentation_submission'),
+      vpToken
+    );
+
+    if (!evaluation.satisfied) {
+      logger.warn('OID4VP presentation submission rejected', {
+        requestId,
+        definitionId: definition.id,
+        errors: evaluation.errors.map(error => error.code)
+      });
+      throw new InvalidPresentationError(evaluation.errors, { requestId, definitionId: definition.id });
+    }
+  }
+
+  private async saveTransaction(
+    transactionKey: string,
+    transaction: Omit<OID4VPTransaction, 'updatedAt'>
+  ): Promise<OID4VPTransaction> {
+    const stored = { ...transaction, updatedAt: new Date().toISOString() };
+    await this.cacheService.set(`oid4vp:transaction:${transactionKey}`, stored, this.requestTtlSeconds);
+    return stored;
+  }
+}
+
+// Load the configured request-signing key, or generate an ephemeral one identified by a did:jwk
+export const createOID4VPVerifier = (
+  serviceProvider: ServiceProviderService,
+  cacheService: CacheService
+): OID4VPVerifier => {
+  const { signingKey, clientId, keyId, requestTtl } = config.oid4vp;
+
+  if (!signingKey) {
+    // Transactions are shared through the cache, so every instance (and the next restart) must sign as the
+    // same client; a per-process key only works for a single development instance
+    if (!['development', 'test'].includes(config.nodeEnv)) {
+      throw new Error('OID4VP_SIGNING_KEY must be set outside development so all instances sign with the same key');
+    }
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const did = `did:jwk:${base64UrlEncode(JSON.stringify(publicKey.export({ format: 'jwk' })))}`;
+    logger.warn('OID4VP_SIGNING_KEY not set, signing request objects with an ephemeral key', { clientId: did });
+
+    return new OID4VPVerifier(serviceProvider, cacheService, {
+      baseUrl: config.apiBaseUrl,
+      clientId: did,
+      keyId: `${did}#0`,
+      signingKey: privateKey,
+      requestTtlSeconds: requestTtl
+    });
+  }
+
+  const trimmed = signingKey.trim();
+  const privateKey = trimmed.startsWith('{')
+    ? crypto.createPrivateKey({ key: JSON.parse(trimmed), format: 'jwk' })
+    : crypto.createPrivateKey(trimmed);
+  const did = clientId || config.serviceDID;
+
+  return new OID4VPVerifier(serviceProvider, cacheService, {
+    baseUrl: config.apiBaseUrl,
+    clientId: did,
+    // did:key documents name their single key after the fingerprint
+    keyId: keyId || (did.startsWith('did:key:') ? `${did}#${did.slice('did:key:'.length)}` : `${did}#0`),
+    signingKey: privateKey,
+    requestTtlSeconds: requestTtl
+  });
+};
+
+export default OID4VPVerifier;
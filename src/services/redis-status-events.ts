@@ -0,0 +1,130 @@
+/**
+ * Redis transport for the status event bus, so every instance delivers every event under one ID sequence
+ * IDs come from INCR, events fan out over pub/sub (including back to the publisher) and the replay buffer
+ * of each channel is a sorted set scored by ID, so Last-Event-ID resumes on any instance and across restarts.
+ * When Redis is unreachable the bus keeps its in-process delivery (single-node behaviour)
+ */
+
+import Redis from 'ioredis';
+import type { StatusEvent, StatusEventBus, StatusEventTransport } from './status-events';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+// Closes the pub/sub connections and detaches the transport
+export type RedisStatusEventsCloser = () => Promise<void>;
+
+export interface RedisStatusEventsOptions {
+  key?: string;
+  replayBufferSize?: number;
+  replayTtlMs?: number;
+}
+
+type StoredEvent = StatusEvent & { publishedAt: number };
+
+const createClient = (): Redis => {
+  return new Redis(config.redis.url, {
+    password: config.redis.password,
+    db: config.redis.db,
+    maxRetriesPerRequest: 3,
+    lazyConnect: true
+  });
+};
+
+export class RedisStatusEventTransport implements StatusEventTransport {
+  private key: string;
+  private replayBufferSize: number;
+  private replayTtlMs: number;
+
+  constructor(
+    private pubClient: Redis,
+    private subClient: Redis,
+    private bus: StatusEventBus,
+    options: RedisStatusEventsOptions = {}
+  ) {
+    this.key = options.key || 'status-events';
+    this.replayBufferSize = options.replayBufferSize || 100;
+    this.replayTtlMs = options.replayTtlMs || 15 * 60 * 1000;
+  }
+
+  // Deliver events published by any instance (this one included) on the local bus
+  async listen(): Promise<void> {
+    this.subClient.on('message', (_channel: string, message: string) => {
+      try {
+        this.bus.deliver(JSON.parse(message));
+      } catch (error) {
+        logger.error('Discarding malformed status event', { error: error instanceof Error ? error.message : error });
+      }
+    });
+    await this.subClient.subscribe(`${this.key}:events`);
+  }
+
+  async publish(event: Omit<StatusEvent, 'id'>): Promise<StatusEvent> {
+    const id = String(await this.pubClient.incr(`${this.key}:sequence`));
+    const statusEvent: StatusEvent = { id, ...event };
+    const stored: StoredEvent = { ...statusEvent, publishedAt: Date.now() };
+    const replayKey = this.replayKey(event.channel);
+
+    await this.pubClient.multi()
+      .zadd(replayKey, id, JSON.stringify(stored))
+      .zremrangebyrank(replayKey, 0, -(this.replayBufferSize + 1))
+      .pexpire(replayKey, this.replayTtlMs)
+      .publish(`${this.key}:events`, JSON.stringify(statusEvent))
+      .exec();
+    return statusEvent;
+  }
+
+  async replay(channel: string, lastEventId?: string): Promise<StatusEvent[]> {
+    const lastId = Number(lastEventId);
+    const members = await this.pubClient.zrangebyscore(
+      this.replayKey(channel),
+      Number.isFinite(lastId) ? `(${lastId}` : '-inf',
+      '+inf'
+    );
+
+    const cutoff = Date.now() - this.replayTtlMs;
+    return members
+      .map(member => JSON.parse(member) as StoredEvent)
+      .filter(event => event.publishedAt > cutoff)
+      .map(({ publishedAt: _publishedAt, ...event }) => event);
+  }
+
+  private replayKey(channel: string): string {
+    return `${this.key}:replay:${channel}`;
+  }
+}
+
+// Route the bus through Redis; returns null (leaving in-process delivery) if Redis can't be reached
+export const attachRedisStatusEvents = async (
+  bus: StatusEventBus,
+  options: RedisStatusEventsOptions = {}
+): Promise<RedisStatusEventsCloser | null> => {
+  const pubClient = createClient();
+  const subClient = pubClient.duplicate();
+  const transport = new RedisStatusEventTransport(pubClient, subClient, bus, options);
+
+  try {
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    await transport.listen();
+  } catch (error) {
+    logger.warn('Redis unavailable for status events, events stay local to this instance', {
+      error: error instanceof Error ? error.message : error
+    });
+    pubClient.disconnect();
+    subClient.disconnect();
+    return null;
+  }
+
+  [pubClient, subClient].forEach(client => client.on('error', (error) => {
+    logger.error('Status events Redis error', { error: error.message });
+  }));
+
+  bus.setTransport(transport);
+  logger.info('Status events routed through Redis', { key: options.key });
+
+  return async () => {
+    bus.setTransport(null);
+    await Promise.all([pubClient.quit(), subClient.quit()]);
+  };
+};
+
+export default attachRedisStatusEvents;
@@ -0,0 +1,163 @@
+/**
+ * Periodic revocation monitoring for credentials in active sessions and status subscriptions
+ * Statuses are diffed against the last known state in Redis so only changes are pushed
+ */
+
+import { EventEmitter } from 'events';
+import type ServiceProviderService from './service-provider.service';
+import type CacheService from './cache.service';
+import logger from '../utils/logger';
+
+export type MonitoredCredentialStatus = 'valid' | 'revoked';
+
+export interface CredentialStatusChange {
+  credentialId: string;
+  isRevoked: boolean;
+  status: MonitoredCredentialStatus;
+  previousStatus?: MonitoredCredentialStatus;
+  timestamp: number;
+}
+
+export interface RevocationMonitorOptions {
+  intervalMs: number; // 0 disables the periodic check
+  batchSize: number;
+  stateTtlSeconds?: number;
+}
+
+const STATE_KEY = 'revocation:monitor:state';
+
+// Emits `change` (CredentialStatusChange) for every credential whose revocation status changed
+export class RevocationMonitor extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Last known statuses when Redis is unavailable
+  private localState = new Map<string, MonitoredCredentialStatus>();
+
+  constructor(
+    private serviceProvider: ServiceProviderService,
+    private cacheService: CacheService | null,
+    private getSubscribedCredentialIds: () => string[],
+    private options: RevocationMonitorOptions
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.checkNow().catch(error => {
+        logger.error('Revocation monitoring error', {
+          error: error instanceof Error ? error.message : error
+        });
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+
+    logger.info('Revocation monitoring started', {
+      intervalMs: this.options.intervalMs,
+      batchSize: this.options.batchSize
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run one monitoring pass; overlapping passes are skipped
+  async checkNow(): Promise<CredentialStatusChange[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const sessionCredentialIds = await this.serviceProvider.listActiveSessionCredentialIds();
+      const credentialIds = Array.from(new Set([...this.getSubscribedCredentialIds(), ...sessionCredentialIds]));
+
+      const changes: CredentialStatusChange[] = [];
+      const batchSize = Math.max(1, this.options.batchSize);
+      for (let offset = 0; offset < credentialIds.length; offset += batchSize) {
+        changes.push(...await this.checkBatch(credentialIds.slice(offset, offset + batchSize)));
+      }
+
+      const revokedIds = changes.filter(change => change.isRevoked).map(change => change.credentialId);
+      if (revokedIds.length > 0) {
+        await this.serviceProvider.invalidateCredentialSessions(revokedIds, 'credential_revoked');
+      }
+
+      logger.debug('Revocation monitoring pass completed', {
+        checked: credentialIds.length,
+        changed: changes.length
+      });
+      return changes;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Record revocations already pushed through another channel so the next pass doesn't report them again
+  async recordRevoked(credentialIds: string[]): Promise<void> {
+    const statuses: Record<string, MonitoredCredentialStatus> = {};
+    credentialIds.forEach(credentialId => {
+      statuses[credentialId] = 'revoked';
+    });
+    await this.saveState(statuses);
+  }
+
+  private async checkBatch(credentialIds: string[]): Promise<CredentialStatusChange[]> {
+    const [results, previous] = await Promise.all([
+      this.serviceProvider.batchCheckRevocations(credentialIds),
+      this.loadState(credentialIds)
+    ]);
+
+    const timestamp = Date.now();
+    const current: Record<string, MonitoredCredentialStatus> = {};
+    const changes: CredentialStatusChange[] = [];
+    credentialIds.forEach(credentialId => {
+      const status: MonitoredCredentialStatus = results.get(credentialId) ? 'revoked' : 'valid';
+      const previousStatus = previous[credentialId];
+      current[credentialId] = status;
+
+      // A first sighting is only worth pushing when it's already revoked
+      if (previousStatus ? previousStatus !== status : status === 'revoked') {
+        changes.push({ credentialId, isRevoked: status === 'revoked', status, previousStatus, timestamp });
+      }
+    });
+
+    await this.saveState(current);
+    changes.forEach(change => this.emit('change', change));
+    return changes;
+  }
+
+  private async loadState(credentialIds: string[]): Promise<Record<string, MonitoredCredentialStatus>> {
+    const stored = this.cacheService ? await this.cacheService.getHashFields(STATE_KEY, credentialIds) : null;
+    if (stored) {
+      return stored as Record<string, MonitoredCredentialStatus>;
+    }
+
+    const local: Record<string, MonitoredCredentialStatus> = {};
+    credentialIds.forEach(credentialId => {
+      const status = this.localState.get(credentialId);
+      if (status) {
+        local[credentialId] = status;
+      }
+    });
+    return local;
+  }
+
+  private async saveState(statuses: Record<string, MonitoredCredentialStatus>): Promise<void> {
+    Object.entries(statuses).forEach(([credentialId, status]) => this.localState.set(credentialId, status));
+
+    if (this.cacheService) {
+      await this.cacheService.setHashFields(STATE_KEY, statuses, this.options.stateTtlSeconds || 86400);
+    }
+  }
+}
+
+export default RevocationMonitor;
@@ -0,0 +1,160 @@
+/**
+ * Verification of revocation notices pushed by trusted issuers
+ * A notice is a compact JWS signed with an assertionMethod key from the issuer's DID document
+ */
+
+import crypto from 'crypto';
+import type CacheService from './cache.service';
+import type { DIDResolverRegistry } from './did-resolver';
+import { decodeJws, isSupportedJwsAlgorithm, type DecodedJws } from '../utils/jws';
+import {
+  ConflictError,
+  InvalidSignatureError,
+  UntrustedIssuerError,
+  ValidationError
+} from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface RevocationNotice {
+  noticeId: string;
+  issuerDID: string;
+  credentialIds: string[];
+  reason?: string;
+  timestamp: number; // ms, from the `iat` claim
+}
+
+export interface RevocationNoticeVerifierOptions {
+  maxAgeSeconds: number;
+  clockSkewSeconds?: number;
+  maxCredentialIds?: number;
+}
+
+export class RevocationNoticeVerifier {
+  // Processed notice IDs (with expiry) when Redis is unavailable
+  private localNotices = new Map<string, number>();
+
+  constructor(
+    private didResolver: DIDResolverRegistry,
+    private isTrustedIssuer: (issuerDID: string) => boolean,
+    private cacheService: CacheService | null,
+    private options: RevocationNoticeVerifierOptions
+  ) {}
+
+  // Verify a signed notice and mark it processed; throws a ServiceError describing why it was refused
+  async verify(token: string): Promise<RevocationNotice> {
+    let jws: DecodedJws;
+    try {
+      jws = decodeJws(token);
+    } catch (error) {
+      throw new ValidationError('Revocation notice must be a compact JWS', {
+        reason: error instanceof Error ? error.message : error
+      });
+    }
+
+    const notice = this.parseNotice(jws);
+    if (!this.isTrustedIssuer(notice.issuerDID)) {
+      throw new UntrustedIssuerError(notice.issuerDID);
+    }
+
+    this.checkFreshness(notice);
+    await this.checkSignature(jws, notice.issuerDID);
+    await this.consume(notice);
+
+    logger.info('Revocation notice verified', {
+      noticeId: notice.noticeId,
+      issuerDID: notice.issuerDID,
+      credentials: notice.credentialIds.length
+    });
+    return notice;
+  }
+
+  private parseNotice(jws: DecodedJws): RevocationNotice {
+    const { header, payload } = jws;
+    if (!isSupportedJwsAlgorithm(header.alg)) {
+      throw new ValidationError('Unsupported revocation notice algorithm', { alg: header.alg });
+    }
+    if (typeof header.kid !== 'string' || !header.kid.includes('#')) {
+      throw new ValidationError('Revocation notice header must include a DID URL kid');
+    }
+
+    const issuerDID = header.kid.split('#')[0];
+    if (payload.iss !== issuerDID) {
+      throw new ValidationError('Revocation notice issuer does not match the signing key', {
+        iss: payload.iss,
+        kid: header.kid
+      });
+    }
+
+    const credentialIds = payload.credentialIds;
+    const maxCredentialIds = this.options.maxCredentialIds || 1000;
+    if (!Array.isArray(credentialIds) || credentialIds.length === 0 || credentialIds.length > maxCredentialIds ||
+        credentialIds.some(credentialId => typeof credentialId !== 'string' || !credentialId)) {
+      throw new ValidationError(`Revocation notice must list 1-${maxCredentialIds} credential IDs`);
+    }
+    if (payload.reason !== undefined && typeof payload.reason !== 'string') {
+      throw new ValidationError('Revocation notice reason must be a string');
+    }
+    if (typeof payload.iat !== 'number' || !Number.isFinite(payload.iat)) {
+      throw new ValidationError('Revocation notice must include a numeric iat timestamp');
+    }
+
+    return {
+      // Issuers should send a jti; otherwise the signed content itself identifies the notice
+      noticeId: typeof payload.jti === 'string' && payload.jti
+        ? payload.jti
+        : crypto.createHash('sha256').update(jws.signingInput).digest('hex'),
+      issuerDID,
+      credentialIds: Array.from(new Set<string>(credentialIds)),
+      reason: payload.reason,
+      timestamp: payload.iat * 1000
+    };
+  }
+
+  private checkFreshness(notice: RevocationNotice): void {
+    const age = (Date.now() - notice.timestamp) / 1000;
+    const clockSkew = this.options.clockSkewSeconds ?? 60;
+    if (age > this.options.maxAgeSeconds || age < -clockSkew) {
+      throw new ValidationError('Revocation notice timestamp is outside the accepted window', {
+        issuerDID: notice.issuerDID,
+        timestamp: new Date(notice.timestamp).toISOString(),
+        maxAgeSeconds: this.options.maxAgeSeconds
+      });
+    }
+  }
+
+  private async checkSignature(jws: DecodedJws, issuerDID: string): Promise<void> {
+    if (!await this.didResolver.verifyJwsSignature(jws, issuerDID, 'assertionMethod')) {
+      throw new InvalidSignatureError({ issuerDID, kid: jws.header.kid });
+    }
+  }
+
+  // Reject notices that were already processed within their acceptance window
+  private async consume(notice: RevocationNotice): Promise<void> {
+    const key = `${notice.issuerDID}:${notice.noticeId}`;
+    const ttlSeconds = this.options.maxAgeSeconds + (this.options.clockSkewSeconds ?? 60);
+
+    let consumed = this.cacheService ? await this.cacheService.consumeRevocationNotice(key, ttlSeconds) : null;
+    if (consumed === null) {
+      const now = Date.now();
+      this.localNotices.forEach((expiresAt, noticeKey) => {
+        if (expiresAt <= now) {
+          this.localNotices.delete(noticeKey);
+        }
+      });
+
+      consumed = !this.localNotices.has(key);
+      if (consumed) {
+        this.localNotices.set(key, now + ttlSeconds * 1000);
+      }
+    }
+
+    if (!consumed) {
+      throw new ConflictError('Revocation notice has already been processed', {
+        issuerDID: notice.issuerDID,
+        noticeId: notice.noticeId
+      });
+    }
+  }
+}
+
+export default RevocationNoticeVerifier;
@@ -0,0 +1,270 @@
+/**
+ * Revocation registry backed by issuer-published revocation lists
+ * Lists are pulled from an issuer feed (local file or HTTP endpoint) and cached via CacheService.
+ * Revocations pushed by issuers are kept apart in a set that never expires, so neither a cache expiry
+ * nor the next feed refresh can drop them
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import type CacheService from './cache.service';
+import logger from '../utils/logger';
+
+export interface RevocationFeed {
+  // Returns the issuer's revoked credential IDs, or null if the issuer publishes no list
+  fetchRevocationList(issuerDID: string): Promise<string[] | null>;
+}
+
+// Reads a JSON file mapping issuer DIDs to revoked credential IDs; re-read on every fetch
+export class FileRevocationFeed implements RevocationFeed {
+  constructor(private filePath: string) {}
+
+  async fetchRevocationList(issuerDID: string): Promise<string[] | null> {
+    const contents = await fs.readFile(this.filePath, 'utf8');
+    const lists = JSON.parse(contents) as Record<string, string[]>;
+    const list = lists[issuerDID];
+    return Array.isArray(list) ? list : null;
+  }
+}
+
+// Fetches from an HTTP endpoint; `{issuer}` in the URL template is replaced with the encoded issuer DID
+export class HttpRevocationFeed implements RevocationFeed {
+  constructor(private urlTemplate: string, private timeoutMs: number = 5000) {}
+
+  async fetchRevocationList(issuerDID: string): Promise<string[] | null> {
+    const url = this.urlTemplate.replace('{issuer}', encodeURIComponent(issuerDID));
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Revocation feed returned HTTP ${response.status} for ${issuerDID}`);
+    }
+
+    const body: any = await response.json();
+    const list = Array.isArray(body) ? body : body?.revokedCredentials;
+    if (!Array.isArray(list)) {
+      throw new Error(`Revocation feed returned an invalid list for ${issuerDID}`);
+    }
+    return list;
+  }
+}
+
+const CREDENTIAL_ISSUERS_KEY = 'revocation:credential-issuers';
+const CREDENTIAL_ISSUERS_TTL_SECONDS = 30 * 24 * 3600;
+const MAX_LOCAL_CREDENTIAL_ISSUERS = 100000;
+
+const pushedRevocationsKey = (issuerDID: string): string => `revocation:pushed:${issuerDID}`;
+
+// Emits `revoked` ({ issuerDID, credentialIds }) when an ingested list adds credentials this instance hadn't seen revoked
+export class RevocationRegistry extends EventEmitter {
+  // Local copy so lookups stay deterministic when Redis is unavailable
+  private localLists = new Map<string, { revoked: Set<string>; expiresAt: number }>();
+  private localPushed = new Map<string, Set<string>>();
+  // Issuer each verified credential was first seen with, oldest first
+  private localCredentialIssuers = new Map<string, string>();
+
+  constructor(
+    private cacheService: CacheService | null,
+    private feed: RevocationFeed | null,
+    private getIssuers: () => string[],
+    private cacheTtlSeconds: number = 600
+  ) {
+    super();
+  }
+
+  // The issuer's published list together with the revocations it pushed
+  async getRevocationList(issuerDID: string): Promise<Set<string>> {
+    const [published, pushed] = await Promise.all([this.getPublishedList(issuerDID), this.getPushedRevocations(issuerDID)]);
+    return pushed.size > 0 ? new Set([...published, ...pushed]) : published;
+  }
+
+  private async getPublishedList(issuerDID: string): Promise<Set<string>> {
+    const cached = this.cacheService ? await this.cacheService.getCachedRevocationList(issuerDID) : null;
+    if (cached) {
+      return new Set(cached);
+    }
+
+    const local = this.localLists.get(issuerDID);
+    if (local && (local.expiresAt > Date.now() || !this.feed)) {
+      return local.revoked;
+    }
+
+    return this.refreshIssuer(issuerDID);
+  }
+
+  // Pull the latest list from the issuer feed, keeping the previous list if the feed is unreachable
+  async refreshIssuer(issuerDID: string): Promise<Set<string>> {
+    if (!this.feed) {
+      return this.localLists.get(issuerDID)?.revoked || new Set();
+    }
+
+    try {
+      const list = await this.feed.fetchRevocationList(issuerDID);
+      return await this.ingestRevocationList(issuerDID, list || []);
+    } catch (error) {
+      logger.error('Failed to fetch issuer revocation list', {
+        issuerDID,
+        error: error instanceof Error ? error.message : error
+      });
+      return this.localLists.get(issuerDID)?.revoked || new Set();
+    }
+  }
+
+  // Replace the stored published list for an issuer; pushed revocations are kept
+  async ingestRevocationList(issuerDID: string, revokedCredentialIds: string[]): Promise<Set<string>> {
+    const revoked = new Set(revokedCredentialIds);
+    const previous = new Set([
+      ...(this.localLists.get(issuerDID)?.revoked || []),
+      ...await this.getPushedRevocations(issuerDID)
+    ]);
+    this.localLists.set(issuerDID, {
+      revoked,
+      expiresAt: Date.now() + this.cacheTtlSeconds * 1000
+    });
+
+    if (this.cacheService) {
+      await this.cacheService.cacheRevocationList(issuerDID, Array.from(revoked), this.cacheTtlSeconds);
+    }
+
+    logger.debug('Ingested revocation list', { issuerDID, count: revoked.size });
+
+    // Credentials verified as another issuer's stay unaffected by this list
+    const added = Array.from(revoked).filter(credentialId => !previous.has(credentialId));
+    const recorded = await this.getCredentialIssuers(added);
+    const newlyRevoked = added.filter(credentialId => !recorded[credentialId] || recorded[credentialId] === issuerDID);
+    if (newlyRevoked.length > 0) {
+      this.emit('revoked', { issuerDID, credentialIds: newlyRevoked });
+    }
+    return revoked;
+  }
+
+  // Record revocations pushed by an issuer; credentials verified as issued by another issuer are not the
+  // issuer's to revoke and are skipped. Returns the accepted credential IDs.
+  async addRevocations(issuerDID: string, credentialIds: string[]): Promise<string[]> {
+    const recorded = await this.getCredentialIssuers(credentialIds);
+    const accepted = credentialIds.filter(credentialId => !recorded[credentialId] || recorded[credentialId] === issuerDID);
+
+    const local = this.localPushed.get(issuerDID) || new Set<string>();
+    const locallyAdded = accepted.filter(credentialId => !local.has(credentialId));
+    accepted.forEach(credentialId => local.add(credentialId));
+    this.localPushed.set(issuerDID, local);
+
+    // SADD decides which instance saw a revocation first, so concurrent notices neither overwrite each other
+    // nor announce the same credential twice
+    const stored = this.cacheService
+      ? await this.cacheService.addSetMembers(pushedRevocationsKey(issuerDID), accepted)
+      : null;
+    const published = await this.getPublishedList(issuerDID);
+    const newlyRevoked = (stored || locallyAdded).filter(credentialId => !published.has(credentialId));
+    if (newlyRevoked.length > 0) {
+      this.emit('revoked', { issuerDID, credentialIds: newlyRevoked });
+    }
+    return accepted;
+  }
+
+  private async getPushedRevocations(issuerDID: string): Promise<Set<string>> {
+    const local = this.localPushed.get(issuerDID) || new Set<string>();
+    const stored = this.cacheService ? await this.cacheService.getSetMembers(pushedRevocationsKey(issuerDID)) : [];
+    return stored.length > 0 ? new Set([...stored, ...local]) : local;
+  }
+
+  // Remember the issuers of verified credentials; a credential keeps the issuer it was first verified with
+  async recordCredentialIssuers(issuersByCredential: Record<string, string>): Promise<void> {
+    const recorded = await this.getCredentialIssuers(Object.keys(issuersByCredential));
+    const added: Record<string, string> = {};
+    Object.entries(issuersByCredential).forEach(([credentialId, issuerDID]) => {
+      if (!recorded[credentialId]) {
+        added[credentialId] = issuerDID;
+        this.localCredentialIssuers.set(credentialId, issuerDID);
+      }
+    });
+
+    for (const credentialId of this.localCredentialIssuers.keys()) {
+      if (this.localCredentialIssuers.size <= MAX_LOCAL_CREDENTIAL_ISSUERS) {
+        break;
+      }
+      this.localCredentialIssuers.delete(credentialId);
+    }
+
+    if (this.cacheService && Object.keys(added).length > 0) {
+      await this.cacheService.setHashFields(CREDENTIAL_ISSUERS_KEY, added, CREDENTIAL_ISSUERS_TTL_SECONDS);
+    }
+  }
+
+  async getCredentialIssuers(credentialIds: string[]): Promise<Record<string, string>> {
+    const cached = this.cacheService ? await this.cacheService.getHashFields(CREDENTIAL_ISSUERS_KEY, credentialIds) : null;
+    const issuers: Record<string, string> = {};
+    credentialIds.forEach(credentialId => {
+      const issuerDID = cached?.[credentialId] ?? this.localCredentialIssuers.get(credentialId);
+      if (issuerDID) {
+        issuers[credentialId] = issuerDID;
+      }
+    });
+    return issuers;
+  }
+
+  async isRevoked(credentialId: string, issuerDID?: string): Promise<boolean> {
+    const results = await this.checkRevocations([credentialId], issuerDID ? { [credentialId]: issuerDID } : {});
+    return results.get(credentialId) || false;
+  }
+
+  // Check each credential against its own issuer's list (given, or recorded when it was verified), so one issuer
+  // can't revoke another's credentials. Credentials never verified here are checked against every known issuer.
+  async checkRevocations(
+    credentialIds: string[],
+    credentialIssuers: Record<string, string> = {}
+  ): Promise<Map<string, boolean>> {
+    const recorded = await this.getCredentialIssuers(credentialIds.filter(credentialId => !credentialIssuers[credentialId]));
+    const issuersByCredential = { ...recorded, ...credentialIssuers };
+
+    const attributedIssuers = credentialIds
+      .map(credentialId => issuersByCredential[credentialId])
+      .filter((issuerDID): issuerDID is string => Boolean(issuerDID));
+    const fallbackIssuers = attributedIssuers.length < credentialIds.length ? this.getIssuers() : [];
+
+    const issuers = Array.from(new Set([...attributedIssuers, ...fallbackIssuers]));
+    const lists = new Map(await Promise.all(
+      issuers.map(async issuerDID => [issuerDID, await this.getRevocationList(issuerDID)] as const)
+    ));
+
+    const results = new Map<string, boolean>();
+    credentialIds.forEach(credentialId => {
+      const issuerDID = issuersByCredential[credentialId];
+      results.set(credentialId, issuerDID
+        ? lists.get(issuerDID)!.has(credentialId)
+        : fallbackIssuers.some(fallback => lists.get(fallback)!.has(credentialId)));
+    });
+    return results;
+  }
+}
+
+// Issuer DID of each credential by ID, for revocation checks scoped to the issuer
+export const getIssuersByCredential = (credentials: any[] = []): Record<string, string> => {
+  const issuers: Record<string, string> = {};
+  credentials.forEach(credential => {
+    const issuerDID = typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+    if (typeof credential?.id === 'string' && typeof issuerDID === 'string') {
+      issuers[credential.id] = issuerDID;
+    }
+  });
+  return issuers;
+};
+
+// Select the issuer feed implementation from configuration
+export const createRevocationFeed = (type: string, location?: string): RevocationFeed | null => {
+  if (type === 'file' && location) {
+    return new FileRevocationFeed(location);
+  }
+  if (type === 'http' && location) {
+    return new HttpRevocationFeed(location);
+  }
+
+  if (type !== 'none') {
+    logger.warn('Revocation feed not configured, relying on ingested lists only', { type });
+  }
+  return null;
+};
+
+export default RevocationRegistry;
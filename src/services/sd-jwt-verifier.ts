@@ -0,0 +1,230 @@
+/**
+ * SD-JWT VC presentation verification
+ * The issuer-signed JWT is verified with an assertionMethod key from the issuer's DID document and
+ * the key binding JWT with the holder key confirmed in its `cnf` claim
+ */
+
+import type { DIDResolverRegistry } from './did-resolver';
+import type { ExtendedVerificationResult } from '../models/types';
+import { verifyJws, type DecodedJws } from '../utils/jws';
+import { base64UrlEncode } from '../utils/encoding';
+import {
+  hashSdJwtValue,
+  KEY_BINDING_JWT_TYPE,
+  parseSdJwt,
+  reconstructClaims,
+  SD_JWT_REGISTERED_CLAIMS,
+  SD_JWT_VC_TYPES,
+  type ParsedSdJwt
+} from '../utils/sd-jwt';
+import { isServiceError } from '../utils/errors';
+
+export interface SdJwtVerifierOptions {
+  clockSkewSeconds?: number;
+  keyBindingMaxAgeSeconds?: number; // how old a key binding JWT's `iat` may be
+  audience?: string; // required key binding `aud` when the presentation is not bound to a request
+}
+
+// Audience and nonce the key binding JWT must carry; omitted when there is no request to bind to
+export interface SdJwtKeyBindingExpectation {
+  nonce?: string;
+  audience?: string;
+}
+
+type VerificationError = { code: string; message: string; context?: any };
+
+const invalid = (errors: VerificationError[]): ExtendedVerificationResult => ({
+  isValid: false,
+  errors,
+  verificationMethod: 'sd-jwt'
+});
+
+export class SdJwtVerifier {
+  constructor(
+    private didResolver: DIDResolverRegistry,
+    private options: SdJwtVerifierOptions = {}
+  ) {}
+
+  // Verify a presented SD-JWT VC; failures are reported as result errors rather than thrown
+  async verify(
+    token: string,
+    expectation: SdJwtKeyBindingExpectation = {},
+    now: number = Date.now()
+  ): Promise<ExtendedVerificationResult> {
+    let parsed: ParsedSdJwt;
+    let claims: Record<string, any>;
+    try {
+      parsed = parseSdJwt(token);
+      claims = reconstructClaims(parsed.issuerJwt.payload, parsed.disclosures);
+    } catch (error) {
+      return invalid([{
+        code: 'INVALID_SD_JWT',
+        message: error instanceof Error ? error.message : 'Malformed SD-JWT'
+      }]);
+    }
+
+    const { header, payload } = parsed.issuerJwt;
+    const issuerDID = payload.iss;
+    const credentialId = typeof payload.jti === 'string'
+      ? payload.jti
+      : `urn:sd-jwt:${hashSdJwtValue(token.slice(0, token.indexOf('~')))}`;
+
+    if (!SD_JWT_VC_TYPES.includes(header.typ) || typeof issuerDID !== 'string' || typeof payload.vct !== 'string') {
+      return invalid([{
+        code: 'INVALID_SD_JWT',
+        message: 'Issuer-signed JWT must be an SD-JWT VC with iss and vct claims',
+        context: { typ: header.typ, credentialId }
+      }]);
+    }
+
+    const issuerError = await this.checkIssuerSignature(parsed.issuerJwt, issuerDID);
+    if (issuerError) {
+      return invalid([{ ...issuerError, context: { ...issuerError.context, credentialId } }]);
+    }
+
+    const errors: VerificationError[] = [
+      ...this.checkValidity(payload, credentialId, now),
+      ...await this.checkKeyBinding(parsed, expectation, now)
+    ];
+
+    const attributes = Object.fromEntries(
+      Object.entries(claims).filter(([name]) => !SD_JWT_REGISTERED_CLAIMS.includes(name))
+    );
+    const credential = {
+      id: credentialId,
+      type: [payload.vct],
+      issuer: issuerDID,
+      issuanceDate: typeof payload.iat === 'number' ? new Date(payload.iat * 1000).toISOString() : undefined,
+      expirationDate: typeof payload.exp === 'number' ? new Date(payload.exp * 1000).toISOString() : undefined,
+      credentialSubject: attributes
+    };
+    const holderDID = this.getHolderDID(payload);
+    return {
+      isValid: errors.length === 0,
+      holder: holderDID,
+      holderDID,
+      credentials: [credential],
+      credentialIds: [credentialId],
+      attributes,
+      disclosedAttributes: attributes,
+      errors,
+      verificationMethod: 'sd-jwt'
+    };
+  }
+
+  private async checkIssuerSignature(jws: DecodedJws, issuerDID: string): Promise<VerificationError | null> {
+    try {
+      if (!await this.didResolver.verifyJwsSignature(jws, issuerDID)) {
+        return {
+          code: 'INVALID_SIGNATURE',
+          message: 'SD-JWT issuer signature is invalid',
+          context: { issuerDID, kid: jws.header.kid }
+        };
+      }
+      return null;
+    } catch (error) {
+      return {
+        code: isServiceError(error) ? error.code : 'DID_RESOLUTION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to resolve issuer DID',
+        context: { did: issuerDID, role: 'issuer' }
+      };
+    }
+  }
+
+  private checkValidity(payload: Record<string, any>, credentialId: string, now: number): VerificationError[] {
+    const skewMs = (this.options.clockSkewSeconds ?? 60) * 1000;
+
+    if (typeof payload.exp === 'number' && payload.exp * 1000 + skewMs < now) {
+      return [{
+        code: 'EXPIRED_CREDENTIAL',
+        message: 'SD-JWT VC has expired',
+        context: { credentialId, expiredAt: new Date(payload.exp * 1000).toISOString() }
+      }];
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf * 1000 - skewMs > now) {
+      return [{
+        code: 'CREDENTIAL_NOT_YET_VALID',
+        message: 'SD-JWT VC is not valid yet',
+        context: { credentialId, validFrom: new Date(payload.nbf * 1000).toISOString() }
+      }];
+    }
+    return [];
+  }
+
+  // The key binding JWT proves possession of the `cnf` key and binds the disclosures to this request
+  private async checkKeyBinding(
+    parsed: ParsedSdJwt,
+    expectation: SdJwtKeyBindingExpectation,
+    now: number
+  ): Promise<VerificationError[]> {
+    const kbJwt = parsed.keyBindingJwt;
+    if (!kbJwt) {
+      return [{ code: 'MISSING_KEY_BINDING', message: 'SD-JWT presentation must include a key binding JWT' }];
+    }
+
+    const holderKey = await this.getHolderKey(parsed.issuerJwt.payload.cnf);
+    if (kbJwt.header.typ !== KEY_BINDING_JWT_TYPE || !holderKey || !verifyJws(kbJwt, holderKey)) {
+      return [{ code: 'INVALID_KEY_BINDING', message: 'Key binding JWT is not signed by the confirmed holder key' }];
+    }
+
+    const errors: VerificationError[] = [];
+    const sdAlg = parsed.issuerJwt.payload._sd_alg || 'sha-256';
+    if (kbJwt.payload.sd_hash !== hashSdJwtValue(parsed.sdHashInput, sdAlg)) {
+      errors.push({ code: 'INVALID_KEY_BINDING', message: 'Key binding JWT sd_hash does not match the presented disclosures' });
+    }
+
+    const skewMs = (this.options.clockSkewSeconds ?? 60) * 1000;
+    const maxAgeMs = (this.options.keyBindingMaxAgeSeconds ?? 300) * 1000;
+    const issuedAt = typeof kbJwt.payload.iat === 'number' ? kbJwt.payload.iat * 1000 : NaN;
+    if (!(issuedAt <= now + skewMs && issuedAt >= now - maxAgeMs - skewMs)) {
+      errors.push({
+        code: 'INVALID_KEY_BINDING',
+        message: 'Key binding JWT iat is missing or outside the acceptance window',
+        context: { maxAgeSeconds: maxAgeMs / 1000 }
+      });
+    }
+
+    if (expectation.nonce !== undefined && kbJwt.payload.nonce !== expectation.nonce) {
+      errors.push({ code: 'CHALLENGE_MISMATCH', message: 'Key binding JWT nonce does not match the presentation request' });
+    }
+    const expectedAudience = expectation.audience ?? this.options.audience;
+    if (expectedAudience !== undefined && kbJwt.payload.aud !== expectedAudience) {
+      errors.push({
+        code: 'DOMAIN_MISMATCH',
+        message: 'Key binding JWT audience does not match the presentation request',
+        context: { expectedDomain: expectedAudience }
+      });
+    }
+    return errors;
+  }
+
+  // Holder keys are confirmed either inline (`cnf.jwk`) or by DID URL (`cnf.kid`)
+  private async getHolderKey(cnf: any): Promise<Record<string, any> | null> {
+    if (cnf?.jwk && typeof cnf.jwk === 'object') {
+      return cnf.jwk;
+    }
+    if (typeof cnf?.kid === 'string' && cnf.kid.startsWith('did:')) {
+      try {
+        const method = await this.didResolver.getVerificationMethod(cnf.kid);
+        return method.publicKeyJwk || null;
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  private getHolderDID(payload: Record<string, any>): string | undefined {
+    const cnf = payload.cnf;
+    if (typeof cnf?.kid === 'string' && cnf.kid.startsWith('did:')) {
+      return cnf.kid.split('#')[0];
+    }
+    if (cnf?.jwk && typeof cnf.jwk === 'object') {
+      const { kty, crv, x, y } = cnf.jwk;
+      return `did:jwk:${base64UrlEncode(JSON.stringify({ kty, crv, x, ...(y ? { y } : {}) }))}`;
+    }
+    return typeof payload.sub === 'string' ? payload.sub : undefined;
+  }
+}
+
+export default SdJwtVerifier;
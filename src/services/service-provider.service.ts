@@ -2,27 +2,99 @@ import {
   MemoryStorageProvider,
   type VerifiablePresentation
 } from 'anon-identity';
+import { EventEmitter } from 'events';
 import ServiceProviderAdapter from './anon-identity-adapter';
+import type CacheService from './cache.service';
+import createSessionStore, { type SessionStore } from './session-store';
+import RevocationRegistry, { createRevocationFeed } from './revocation-registry';
+import { HttpStatusListResolver, type StatusListResolver } from './credential-status';
+import VerificationStatisticsRecorder from './verification-statistics';
+import { createDIDResolver, type DIDResolverRegistry } from './did-resolver';
+import TrustedIssuerRegistry from './issuer-registry';
+import RevocationNoticeVerifier, { type RevocationNotice } from './revocation-notices';
+import SdJwtVerifier from './sd-jwt-verifier';
+import JwtVcVerifier from './jwt-vc-verifier';
+import SessionExpiryScheduler from './session-expiry-scheduler';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import serviceConfig from '../config/service.config';
+import { config } from '../config';
+import type {
+  ExtendedSession,
+  HolderScope,
+  PresentationVerificationEvent,
+  SessionInvalidation
+} from '../models/types';
 import logger from '../utils/logger';
+import { evaluateConstraints } from '../utils/constraint-evaluator';
+import { isSdJwt } from '../utils/sd-jwt';
+import { isJwtPresentation } from '../utils/jwt-vc';
+import { getEarliestCredentialExpiry } from '../utils/credential-validity';
+import {
+  PREDICATE_COMMITMENTS_CLAIM,
+  getPresentedPredicateProofs,
+  verifyPredicateProofs
+} from '../utils/predicate-proofs';
 import {
   InvalidPresentationError,
   MissingAttributesError,
+  UntrustedIssuerError,
+  RevokedCredentialError,
+  ExpiredCredentialError,
+  CredentialNotYetValidError,
   createVerificationError,
   ValidationError,
-  ServiceError
+  ServiceError,
+  isServiceError
 } from '../utils/errors';
 
-export class ServiceProviderService {
+export interface ServiceProviderServiceOptions {
+  sessionStore?: SessionStore;
+  revocationRegistry?: RevocationRegistry;
+  statusListResolver?: StatusListResolver;
+  cacheService?: CacheService;
+  statistics?: VerificationStatisticsRecorder;
+  didResolver?: DIDResolverRegistry;
+  issuerRegistry?: TrustedIssuerRegistry;
+  revocationNotices?: RevocationNoticeVerifier;
+  sdJwtVerifier?: SdJwtVerifier;
+  jwtVcVerifier?: JwtVcVerifier;
+}
+
+// Emits `sessionInvalidated` (SessionInvalidation) whenever a session is revoked,
+// `revocationNotice` (RevocationNotice) whenever an issuer-pushed notice is applied,
+// `presentationVerified` / `presentationFailed` (PresentationVerificationEvent) for each verification attempt,
+// `sessionCreated` (ExtendedSession) and `credentialsRevoked` ({ issuerDID, credentialIds })
+export class ServiceProviderService extends EventEmitter {
   private serviceProvider: ServiceProviderAdapter;
   private serviceDID: string;
+  private options: ServiceProviderServiceOptions;
+  private statistics: VerificationStatisticsRecorder;
+  private issuerRegistry: TrustedIssuerRegistry;
+  private expiryScheduler: SessionExpiryScheduler;
   private isInitialized: boolean = false;
 
-  constructor() {
+  constructor(options: ServiceProviderServiceOptions = {}) {
+    super();
     this.serviceDID = serviceConfig.serviceDID;
+    this.options = options;
+    this.statistics = options.statistics || new VerificationStatisticsRecorder(null);
+    this.issuerRegistry = options.issuerRegistry || new TrustedIssuerRegistry(
+      null,
+      serviceConfig.trustedIssuers,
+      null,
+      config.admin.credentialIssuers
+    );
+    this.expiryScheduler = new SessionExpiryScheduler(sessionId => this.invalidateSession(sessionId, 'credential_expired'));
     this.initializeServiceProvider();
+
+    // Sessions must not outlive a revocation of the credentials they were derived from
+    options.revocationRegistry?.on('revoked', ({ issuerDID, credentialIds }: { issuerDID: string; credentialIds: string[] }) => {
+      this.emit('credentialsRevoked', { issuerDID, credentialIds });
+      this.invalidateCredentialSessions(credentialIds, 'credential_revoked').catch(error => {
+        logger.error('Failed to invalidate sessions for revoked credentials', { credentialIds, error });
+      });
+    });
   }
 
   private async initializeServiceProvider() {
@@ -34,18 +106,44 @@ export class ServiceProviderService {
       this.serviceProvider = new ServiceProviderAdapter(
         this.serviceDID,
         storage,
-        serviceConfig.trustedIssuers,
+        this.issuerRegistry.getActiveIssuerDIDs(),
         {
           sessionConfig: serviceConfig.sessionConfig,
           batchConfig: serviceConfig.batchConfig,
-          errorConfig: serviceConfig.errorConfig
+          errorConfig: serviceConfig.errorConfig,
+          sessionStore: this.options.sessionStore,
+          revocationRegistry: this.options.revocationRegistry,
+          statusListResolver: this.options.statusListResolver,
+          cacheService: this.options.cacheService,
+          statusListCacheTtl: config.statusList.cacheTtl,
+          didResolver: this.options.didResolver,
+          issuerRegistry: this.issuerRegistry,
+          clockSkewSeconds: config.credentials.clockSkew,
+          sdJwtVerifier: this.options.sdJwtVerifier
+            || (this.options.didResolver
+              ? new SdJwtVerifier(this.options.didResolver, {
+                audience: this.serviceDID,
+                clockSkewSeconds: config.credentials.clockSkew
+              })
+              : undefined),
+          jwtVcVerifier: this.options.jwtVcVerifier
+            || (this.options.didResolver
+              ? new JwtVcVerifier(this.options.didResolver, {
+                audience: this.serviceDID,
+                clockSkewSeconds: config.credentials.clockSkew,
+                unboundMaxAgeSeconds: config.credentials.unboundPresentationMaxAge
+              })
+              : undefined)
         }
       );
+      this.issuerRegistry.on('updated', (trustedIssuers: string[]) => {
+        this.serviceProvider.setTrustedIssuers(trustedIssuers);
+      });
       
       this.isInitialized = true;
       logger.info('ServiceProvider initialized successfully', {
         serviceDID: this.serviceDID,
-        trustedIssuers: serviceConfig.trustedIssuers.length,
+        trustedIssuers: this.issuerRegistry.getActiveIssuerDIDs().length,
         sessionConfig: serviceConfig.sessionConfig,
         batchConfig: serviceConfig.batchConfig
       });
@@ -55,6 +153,10 @@ export class ServiceProviderService {
     }
   }
 
+  getIssuerRegistry(): TrustedIssuerRegistry {
+    return this.issuerRegistry;
+  }
+
   private ensureInitialized() {
     if (!this.isInitialized) {
       throw new ServiceError('ServiceProvider not initialized', 500, 'NOT_INITIALIZED');
@@ -101,18 +203,29 @@ export class ServiceProviderService {
     }
   }
 
-  // Verify presentation against structured request
+  // Verify presentation against structured request; SD-JWT VC and JWT-VP strings are accepted alongside JSON-LD presentations
   async verifyPresentationWithRequest(
-    presentation: VerifiablePresentation,
-    request: any
+    presentation: VerifiablePresentation | string,
+    request: any,
+    options: { enforceBinding?: boolean } = {}
   ): Promise<any> {
     this.ensureInitialized();
+    const startTime = Date.now();
     
     try {
-      const result = await this.serviceProvider.validatePresentationAgainstRequest(
-        presentation,
-        request
-      );
+      let result: any;
+      if (isSdJwt(presentation)) {
+        // The key binding JWT carries the nonce and audience, so binding is checked by the SD-JWT verifier
+        result = await this.serviceProvider.validateSdJwtPresentationAgainstRequest(presentation, request, options);
+      } else if (isJwtPresentation(presentation)) {
+        // Likewise the presentation JWT's nonce and aud claims
+        result = await this.serviceProvider.validateJwtPresentationAgainstRequest(presentation, request, options);
+      } else {
+        if (options.enforceBinding !== false) {
+          this.verifyPresentationBinding(presentation as VerifiablePresentation, request);
+        }
+        result = await this.serviceProvider.validatePresentationAgainstRequest(presentation, request);
+      }
       
       if (!result.isValid) {
         logger.warn('Presentation verification failed', {
@@ -125,6 +238,15 @@ export class ServiceProviderService {
         const customErrors = result.errors.map(error => 
           createVerificationError(error.code, error.message, error.context)
         );
+
+        const credentialError = customErrors.find((error: ServiceError) =>
+          error instanceof UntrustedIssuerError ||
+          error instanceof ExpiredCredentialError ||
+          error instanceof CredentialNotYetValidError
+        );
+        if (credentialError) {
+          throw credentialError;
+        }
         
         throw new InvalidPresentationError(result.errors, {
           requestId: request.requestId,
@@ -133,16 +255,86 @@ export class ServiceProviderService {
         });
       }
       
+      // Range predicates stand in for attributes the holder chose not to disclose
+      const { predicates, errors: predicateErrors } = verifyPredicateProofs(
+        getPresentedPredicateProofs(presentation),
+        result.credentials
+      );
+      if (predicateErrors.length > 0) {
+        throw new InvalidPresentationError(predicateErrors, {
+          requestId: request.requestId,
+          holderDID: result.holderDID
+        });
+      }
+      if (Object.keys(predicates).length > 0) {
+        result = { ...result, predicates };
+      }
+      const attributes = { ...(result.disclosedAttributes || result.attributes) };
+      delete attributes[PREDICATE_COMMITMENTS_CLAIM];
+      result = { ...result, disclosedAttributes: attributes };
+
+      // Enforce attribute constraints ourselves; the base provider may not evaluate them
+      const constraintEvaluation = evaluateConstraints(request.attributeConstraints, attributes, predicates);
+
+      if (!constraintEvaluation.satisfied) {
+        logger.warn('Presentation attribute constraints not satisfied', {
+          requestId: request.requestId,
+          holderDID: result.holderDID,
+          missingAttributes: constraintEvaluation.missingAttributes,
+          violations: constraintEvaluation.violations.map(v => v.name)
+        });
+
+        if (constraintEvaluation.missingAttributes.length > 0) {
+          throw new MissingAttributesError(constraintEvaluation.missingAttributes, {
+            requestId: request.requestId,
+            constraintResults: constraintEvaluation.results
+          });
+        }
+
+        throw new InvalidPresentationError(
+          constraintEvaluation.violations.map(v => ({
+            code: v.code,
+            message: `${v.name}: ${v.reason}`,
+            context: { attribute: v.name }
+          })),
+          { requestId: request.requestId, constraintResults: constraintEvaluation.results }
+        );
+      }
+      
       logger.info('Presentation verified successfully', {
         requestId: request.requestId,
         holderDID: result.holderDID,
         credentialIds: result.credentialIds,
-        disclosedAttributeCount: Object.keys(result.disclosedAttributes || {}).length
+        disclosedAttributeCount: Object.keys(result.disclosedAttributes || {}).length,
+        provenPredicates: Object.keys(predicates)
       });
       
+      await this.statistics.recordVerification({ success: true, processingTimeMs: Date.now() - startTime });
+      this.emit('presentationVerified', {
+        requestId: request.requestId,
+        holderDID: result.holderDID,
+        credentialIds: result.credentialIds
+      } as PresentationVerificationEvent);
       return result;
     } catch (error) {
-      if (error instanceof InvalidPresentationError) {
+      const errorCode = this.getVerificationErrorCode(error);
+      await this.statistics.recordVerification({
+        success: false,
+        processingTimeMs: Date.now() - startTime,
+        errorCode
+      });
+      this.emit('presentationFailed', {
+        requestId: request.requestId,
+        errorCode
+      } as PresentationVerificationEvent);
+
+      if (
+        error instanceof InvalidPresentationError ||
+        error instanceof MissingAttributesError ||
+        error instanceof UntrustedIssuerError ||
+        error instanceof ExpiredCredentialError ||
+        error instanceof CredentialNotYetValidError
+      ) {
         throw error;
       }
       
@@ -168,15 +360,27 @@ export class ServiceProviderService {
     this.ensureInitialized();
     
     try {
+      // Sessions never outlive the credentials they were derived from
+      const credentialExpiry = getEarliestCredentialExpiry(verificationResult.credentials);
+      const secondsUntilCredentialExpiry = credentialExpiry
+        ? Math.floor((new Date(credentialExpiry.expiresAt).getTime() - Date.now()) / 1000)
+        : Infinity;
+      if (secondsUntilCredentialExpiry <= 0) {
+        throw new ExpiredCredentialError(credentialExpiry!.credentialId, { expiredAt: credentialExpiry!.expiresAt });
+      }
+
       const session = await this.serviceProvider.createSession({
         holderDID: verificationResult.holderDID,
         credentialIds: verificationResult.credentialIds,
         attributes: verificationResult.disclosedAttributes || verificationResult.attributes,
-        expiresIn: serviceConfig.sessionConfig.defaultDuration,
+        expiresIn: Math.min(serviceConfig.sessionConfig.defaultDuration, secondsUntilCredentialExpiry),
         metadata: {
           verifiedAt: Date.now(),
           verificationMethod: 'presentation',
           serviceDID: this.serviceDID,
+          credentialExpiry,
+          credentialIssuers: this.getCredentialIssuers(verificationResult.credentials),
+          ...(verificationResult.predicates ? { predicates: verificationResult.predicates } : {}),
           ...metadata
         }
       });
@@ -188,8 +392,13 @@ export class ServiceProviderService {
         expiresAt: session.expiresAt
       });
       
+      this.scheduleCredentialExpiry(session);
+      this.emit('sessionCreated', session);
       return session;
     } catch (error) {
+      if (error instanceof ExpiredCredentialError) {
+        throw error;
+      }
       logger.error('Failed to create session', {
         holderDID: verificationResult.holderDID,
         error
@@ -206,7 +415,7 @@ export class ServiceProviderService {
 
   // Batch verify multiple presentations
   async batchVerifyPresentations(
-    presentations: VerifiablePresentation[]
+    presentations: Array<VerifiablePresentation | string>
   ): Promise<any> {
     this.ensureInitialized();
     
@@ -228,6 +437,12 @@ export class ServiceProviderService {
         duration: result.processingTimeMs
       });
       
+      await this.statistics.recordBatch(result.results.map(item => ({
+        success: item.result.isValid,
+        processingTimeMs: item.processingTime,
+        errorCode: item.result.errors?.[0]?.code
+      })));
+      
       return result;
     } catch (error) {
       logger.error('Batch verification failed', {
@@ -281,8 +496,7 @@ export class ServiceProviderService {
     this.ensureInitialized();
     
     try {
-      const stats = await this.serviceProvider.getBatchStatistics();
-      return stats;
+      return await this.statistics.getStatistics();
     } catch (error) {
       logger.error('Failed to get batch statistics', { error });
       throw new ServiceError(
@@ -326,6 +540,13 @@ export class ServiceProviderService {
     try {
       const result = await this.serviceProvider.setSessionExpiry(sessionId, additionalTime);
       logger.info('Session extended', { sessionId, additionalTime });
+      if (result) {
+        // An extension capped at the credential expiry now ends with it
+        const session = await this.serviceProvider.getSession(sessionId);
+        if (session) {
+          this.scheduleCredentialExpiry(session);
+        }
+      }
       return result;
     } catch (error) {
       logger.error('Failed to extend session', { sessionId, additionalTime, error });
@@ -333,12 +554,16 @@ export class ServiceProviderService {
     }
   }
 
-  async invalidateSession(sessionId: string): Promise<boolean> {
+  async invalidateSession(sessionId: string, reason: string = 'logout'): Promise<boolean> {
     this.ensureInitialized();
     
     try {
+      this.expiryScheduler.cancel(sessionId);
       const result = await this.serviceProvider.invalidateSession(sessionId);
-      logger.info('Session invalidated', { sessionId });
+      logger.info('Session invalidated', { sessionId, reason });
+      if (result) {
+        this.emit('sessionInvalidated', { sessionId, reason } as SessionInvalidation);
+      }
       return result;
     } catch (error) {
       logger.error('Failed to invalidate session', { sessionId, error });
@@ -346,33 +571,184 @@ export class ServiceProviderService {
     }
   }
 
-  // Legacy method for backward compatibility
-  async verifyPresentation(
-    presentation: VerifiablePresentation,
-    endpoint: string
-  ): Promise<{
-    type: 'selective_disclosure' | 'full_disclosure';
-    attributes: Record<string, any>;
-    credentialId: string;
-    holderDID: string;
-  }> {
-    const request = await this.createPresentationRequest(endpoint);
-    const result = await this.verifyPresentationWithRequest(presentation, request);
-    
+  // Invalidate the session (`credential_expired`) when its earliest credential expiry is what ends it
+  private scheduleCredentialExpiry(session: ExtendedSession): void {
+    const credentialExpiry = session.metadata?.credentialExpiry;
+    if (credentialExpiry) {
+      this.expiryScheduler.schedule(session.id, new Date(credentialExpiry.expiresAt), new Date(session.expiresAt));
+    }
+  }
+
+  // Active sessions for a holder, most recently created first
+  async listHolderSessions(holderDID: string): Promise<ExtendedSession[]> {
+    this.ensureInitialized();
+
+    const sessions = await this.serviceProvider.listSessionsByHolder(holderDID);
+    return sessions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Sessions, credentials and credential issuers the holder may subscribe to for status events
+  async getHolderScope(holderDID: string): Promise<HolderScope> {
+    const sessions = await this.listHolderSessions(holderDID);
     return {
-      type: result.disclosedAttributes ? 'selective_disclosure' : 'full_disclosure',
-      attributes: result.disclosedAttributes || result.attributes,
-      credentialId: result.credentialIds[0],
-      holderDID: result.holderDID
+      sessionIds: new Set(sessions.map(session => session.id)),
+      credentialIds: new Set(sessions.flatMap(session => session.credentialIds)),
+      issuerDIDs: new Set(sessions.flatMap(session => session.metadata?.credentialIssuers || []))
     };
   }
 
+  // Credentials backing at least one active session, for periodic revocation monitoring
+  async listActiveSessionCredentialIds(): Promise<string[]> {
+    this.ensureInitialized();
+    return this.serviceProvider.listActiveSessionCredentialIds();
+  }
+
+  // Apply a signed revocation notice pushed by a trusted issuer
+  async ingestRevocationNotice(token: string): Promise<RevocationNotice> {
+    this.ensureInitialized();
+
+    const { revocationRegistry, revocationNotices } = this.options;
+    if (!revocationRegistry || !revocationNotices) {
+      throw new ServiceError('Revocation notice ingestion is not configured', 503, 'REVOCATION_NOTICES_UNAVAILABLE');
+    }
+
+    const verified = await revocationNotices.verify(token);
+    const accepted = await revocationRegistry.addRevocations(verified.issuerDID, verified.credentialIds);
+    if (accepted.length < verified.credentialIds.length) {
+      logger.warn('Revocation notice listed credentials of another issuer', {
+        noticeId: verified.noticeId,
+        issuerDID: verified.issuerDID,
+        ignored: verified.credentialIds.filter(credentialId => !accepted.includes(credentialId))
+      });
+    }
+    const notice = { ...verified, credentialIds: accepted };
+
+    logger.info('Issuer revocation notice applied', {
+      noticeId: notice.noticeId,
+      issuerDID: notice.issuerDID,
+      credentialIds: notice.credentialIds,
+      reason: notice.reason
+    });
+    this.emit('revocationNotice', notice);
+    return notice;
+  }
+
+  // Revoke every session derived from any of the given credentials; returns the invalidated session IDs
+  async invalidateCredentialSessions(credentialIds: string[], reason: string): Promise<string[]> {
+    this.ensureInitialized();
+
+    const sessionLists = await Promise.all(
+      credentialIds.map(credentialId => this.serviceProvider.listSessionsByCredential(credentialId))
+    );
+    const sessionIds = Array.from(new Set(sessionLists.flat().map(session => session.id)));
+    const results = await Promise.all(sessionIds.map(sessionId => this.invalidateSession(sessionId, reason)));
+    const invalidated = sessionIds.filter((_, index) => results[index]);
+
+    if (invalidated.length > 0) {
+      logger.warn('Sessions invalidated for credentials', { credentialIds, reason, count: invalidated.length });
+    }
+    return invalidated;
+  }
+
+  // Refuse (and invalidate) a session whose backing credentials were revoked or have expired since it was created
+  async checkSessionCredentials(session: ExtendedSession): Promise<void> {
+    this.ensureInitialized();
+
+    const credentialExpiry = session.metadata?.credentialExpiry;
+    if (credentialExpiry && new Date(credentialExpiry.expiresAt).getTime() <= Date.now()) {
+      await this.invalidateSession(session.id, 'credential_expired');
+      throw new ExpiredCredentialError(credentialExpiry.credentialId, { sessionId: session.id });
+    }
+
+    if (session.credentialIds.length === 0) {
+      return;
+    }
+
+    const revocations = await this.serviceProvider.batchCheckRevocations(session.credentialIds);
+    const revokedCredentialId = session.credentialIds.find(credentialId => revocations.get(credentialId));
+    if (revokedCredentialId) {
+      await this.invalidateSession(session.id, 'credential_revoked');
+      throw new RevokedCredentialError(revokedCredentialId, { sessionId: session.id });
+    }
+  }
+
+  // Revoke every active session for a holder; returns the invalidated session IDs
+  async invalidateHolderSessions(holderDID: string, reason: string = 'logout_all'): Promise<string[]> {
+    this.ensureInitialized();
+
+    const sessions = await this.serviceProvider.listSessionsByHolder(holderDID);
+    const results = await Promise.all(sessions.map(session => this.invalidateSession(session.id, reason)));
+    const invalidated = sessions.filter((_, index) => results[index]).map(session => session.id);
+
+    logger.info('Holder sessions invalidated', { holderDID, reason, count: invalidated.length });
+    return invalidated;
+  }
+
+  // Ensure the presentation proof was created for this request's challenge and domain
+  private verifyPresentationBinding(presentation: VerifiablePresentation, request: any): void {
+    const rawProof = (presentation as any)?.proof;
+    const proofs: any[] = Array.isArray(rawProof) ? rawProof : rawProof ? [rawProof] : [];
+    const errors: Array<{ code: string; message: string; context?: any }> = [];
+
+    if (request.challenge && !proofs.some(proof => proof?.challenge === request.challenge)) {
+      errors.push({
+        code: 'CHALLENGE_MISMATCH',
+        message: 'Presentation proof challenge does not match the presentation request',
+        context: { requestId: request.requestId }
+      });
+    }
+
+    if (request.domain) {
+      const domainMatches = proofs.some(proof => {
+        const domains = Array.isArray(proof?.domain) ? proof.domain : [proof?.domain];
+        return domains.includes(request.domain);
+      });
+
+      if (!domainMatches) {
+        errors.push({
+          code: 'DOMAIN_MISMATCH',
+          message: 'Presentation proof domain does not match the presentation request',
+          context: { requestId: request.requestId, expectedDomain: request.domain }
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      logger.warn('Presentation binding check failed', {
+        requestId: request.requestId,
+        errors: errors.map(error => error.code)
+      });
+      throw new InvalidPresentationError(errors, { requestId: request.requestId });
+    }
+  }
+
+  // Distinct issuer DIDs of the presented credentials, used to scope issuer subscriptions to the holder
+  private getCredentialIssuers(credentials: any[] = []): string[] {
+    const issuers = credentials
+      .map(credential => typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id)
+      .filter((issuer): issuer is string => typeof issuer === 'string');
+    return Array.from(new Set(issuers));
+  }
+
+  // Most specific code for the statistics error breakdown (e.g. REVOKED_CREDENTIAL rather than INVALID_PRESENTATION)
+  private getVerificationErrorCode(error: unknown): string {
+    if (isServiceError(error)) {
+      return error.context?.verificationErrors?.[0]?.code || error.code;
+    }
+    return 'VERIFICATION_ERROR';
+  }
+
+  // Drop pending credential expiry timers; sessions are still refused on use once their credentials expire
+  shutdown(): void {
+    this.expiryScheduler.shutdown();
+  }
+
   // Get service information
   getServiceInfo() {
     return {
       serviceDID: this.serviceDID,
       serviceName: serviceConfig.serviceName,
-      trustedIssuers: serviceConfig.trustedIssuers,
+      trustedIssuers: this.issuerRegistry.getActiveIssuerDIDs(),
       endpoints: Object.keys(serviceConfig.endpointRequirements),
       sessionConfig: serviceConfig.sessionConfig,
       batchConfig: serviceConfig.batchConfig
@@ -380,4 +756,50 @@ export class ServiceProviderService {
   }
 }
 
+// Build a ServiceProviderService with its storage and revocation dependencies from configuration
+export const createServiceProviderService = (cacheService: CacheService): ServiceProviderService => {
+  const didResolver = createDIDResolver(cacheService, {
+    cacheTtlSeconds: config.did.cacheTtl,
+    negativeCacheTtlSeconds: config.did.negativeCacheTtl,
+    timeoutMs: config.did.resolverTimeout
+  });
+  const issuerRegistry = new TrustedIssuerRegistry(
+    cacheService,
+    serviceConfig.trustedIssuers,
+    didResolver,
+    config.admin.credentialIssuers
+  );
+
+  return new ServiceProviderService({
+    sessionStore: createSessionStore(config.session.store, cacheService, config.session.cleanupInterval),
+    revocationRegistry: new RevocationRegistry(
+      cacheService,
+      createRevocationFeed(config.revocation.feed, config.revocation.feedLocation),
+      () => issuerRegistry.getActiveIssuerDIDs(),
+      config.revocation.cacheTtl
+    ),
+    statusListResolver: new HttpStatusListResolver(config.statusList.fetchTimeoutMs),
+    cacheService,
+    statistics: new VerificationStatisticsRecorder(cacheService),
+    didResolver,
+    issuerRegistry,
+    revocationNotices: new RevocationNoticeVerifier(
+      didResolver,
+      issuerDID => issuerRegistry.getActiveIssuerDIDs().includes(issuerDID),
+      cacheService,
+      { maxAgeSeconds: config.revocation.noticeMaxAge }
+    ),
+    sdJwtVerifier: new SdJwtVerifier(didResolver, {
+      audience: serviceConfig.serviceDID,
+      keyBindingMaxAgeSeconds: config.sdJwt.keyBindingMaxAge,
+      clockSkewSeconds: config.credentials.clockSkew
+    }),
+    jwtVcVerifier: new JwtVcVerifier(didResolver, {
+      audience: serviceConfig.serviceDID,
+      clockSkewSeconds: config.credentials.clockSkew,
+      unboundMaxAgeSeconds: config.credentials.unboundPresentationMaxAge
+    })
+  });
+};
+
 export default ServiceProviderService;
\ No newline at end of file
@@ -0,0 +1,61 @@
+/**
+ * Per-session timers that fire when a backing credential expires mid-session
+ * Timers are local to this instance; other instances still refuse the session on its next use.
+ * Only sessions the credential expiry actually ends are tracked, so every timer fires no later than its
+ * session's own expiry and the entry is gone once the session is
+ */
+
+import logger from '../utils/logger';
+
+// setTimeout delays above this overflow, so longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export class SessionExpiryScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private onExpire: (sessionId: string) => Promise<unknown>) {}
+
+  // Replace any timer for the session with one firing at `expiresAt`, the credential expiry; sessions that
+  // expire on their own first (`sessionExpiresAt`) need no timer
+  schedule(sessionId: string, expiresAt: Date, sessionExpiresAt: Date): void {
+    this.cancel(sessionId);
+    if (expiresAt.getTime() > sessionExpiresAt.getTime()) {
+      return;
+    }
+
+    const delay = expiresAt.getTime() - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(sessionId);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.schedule(sessionId, expiresAt, sessionExpiresAt);
+        return;
+      }
+      this.onExpire(sessionId).catch(error => {
+        logger.error('Failed to invalidate session for expired credential', { sessionId, error });
+      });
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS));
+
+    // Pending expiries must not keep the process alive
+    timer.unref?.();
+    this.timers.set(sessionId, timer);
+  }
+
+  cancel(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  get size(): number {
+    return this.timers.size;
+  }
+
+  shutdown(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
+
+export default SessionExpiryScheduler;
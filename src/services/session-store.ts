@@ -0,0 +1,271 @@
+/**
+ * Pluggable session storage used by the ServiceProviderAdapter
+ * Sessions are kept in process memory by default, or in Redis via the shared CacheService connection
+ */
+
+import type CacheService from './cache.service';
+import type { ExtendedSession } from '../models/types';
+import logger from '../utils/logger';
+
+export interface SessionStore {
+  save(session: ExtendedSession): Promise<void>;
+  get(sessionId: string): Promise<ExtendedSession | null>;
+  // Record an access on a session that still exists; never re-creates a deleted one
+  touch(sessionId: string, accessedAt: Date): Promise<boolean>;
+  delete(sessionId: string): Promise<boolean>;
+  listByHolder(holderDID: string): Promise<ExtendedSession[]>;
+  listByCredential(credentialId: string): Promise<ExtendedSession[]>;
+  // Credential IDs backing at least one unexpired session
+  listActiveCredentialIds(): Promise<string[]>;
+}
+
+// Dates do not survive JSON serialization, so restore them when reading a stored session
+const reviveSession = (raw: any): ExtendedSession => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  expiresAt: new Date(raw.expiresAt),
+  ...(raw.lastAccessedAt && { lastAccessedAt: new Date(raw.lastAccessedAt) })
+});
+
+const isExpired = (session: ExtendedSession): boolean => {
+  return new Date(session.expiresAt).getTime() <= Date.now();
+};
+
+// Secondary indexes a session is listed under, so it can be found by holder or by backing credential
+const indexKeys = (session: ExtendedSession): string[] => [
+  `holder:${session.holderDID}`,
+  ...(session.credentialIds || []).map(credentialId => `credential:${credentialId}`)
+];
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ExtendedSession>();
+  private indexes = new Map<string, Set<string>>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(cleanupIntervalSeconds?: number) {
+    if (cleanupIntervalSeconds && cleanupIntervalSeconds > 0) {
+      this.cleanupTimer = setInterval(() => this.purgeExpired(), cleanupIntervalSeconds * 1000);
+      // Don't keep the process alive just for session cleanup
+      this.cleanupTimer.unref();
+    }
+  }
+
+  async save(session: ExtendedSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+
+    indexKeys(session).forEach(indexKey => {
+      const sessionIds = this.indexes.get(indexKey) || new Set<string>();
+      sessionIds.add(session.id);
+      this.indexes.set(indexKey, sessionIds);
+    });
+  }
+
+  async get(sessionId: string): Promise<ExtendedSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (isExpired(session)) {
+      this.remove(session);
+      return null;
+    }
+
+    return { ...session };
+  }
+
+  async touch(sessionId: string, accessedAt: Date): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || isExpired(session)) {
+      return false;
+    }
+
+    session.lastAccessedAt = accessedAt;
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.remove(session);
+    return true;
+  }
+
+  async listByHolder(holderDID: string): Promise<ExtendedSession[]> {
+    return this.listByIndex(`holder:${holderDID}`);
+  }
+
+  async listByCredential(credentialId: string): Promise<ExtendedSession[]> {
+    return this.listByIndex(`credential:${credentialId}`);
+  }
+
+  async listActiveCredentialIds(): Promise<string[]> {
+    this.purgeExpired();
+    return Array.from(this.indexes.keys())
+      .filter(indexKey => indexKey.startsWith('credential:'))
+      .map(indexKey => indexKey.slice('credential:'.length));
+  }
+
+  purgeExpired(): number {
+    let purged = 0;
+    this.sessions.forEach(session => {
+      if (isExpired(session)) {
+        this.remove(session);
+        purged++;
+      }
+    });
+
+    if (purged > 0) {
+      logger.debug('Purged expired sessions', { count: purged });
+    }
+    return purged;
+  }
+
+  shutdown(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  private async listByIndex(indexKey: string): Promise<ExtendedSession[]> {
+    const sessions = await Promise.all(
+      Array.from(this.indexes.get(indexKey) || []).map(sessionId => this.get(sessionId))
+    );
+    return sessions.filter((session): session is ExtendedSession => session !== null);
+  }
+
+  private remove(session: ExtendedSession): void {
+    this.sessions.delete(session.id);
+
+    indexKeys(session).forEach(indexKey => {
+      const sessionIds = this.indexes.get(indexKey);
+      sessionIds?.delete(session.id);
+      if (sessionIds?.size === 0) {
+        this.indexes.delete(indexKey);
+      }
+    });
+  }
+}
+
+const ACTIVE_CREDENTIALS_KEY = 'session:credentials:active';
+
+export class RedisSessionStore implements SessionStore {
+  constructor(private cacheService: CacheService) {}
+
+  async save(session: ExtendedSession): Promise<void> {
+    const ttlSeconds = Math.ceil((new Date(session.expiresAt).getTime() - Date.now()) / 1000);
+    if (ttlSeconds <= 0) {
+      await this.delete(session.id);
+      return;
+    }
+
+    const stored = await this.cacheService.set(this.key(session.id), session, ttlSeconds);
+    if (!stored) {
+      // CacheService swallows Redis errors, so surface the failure to the caller here
+      throw new Error(`Failed to persist session ${session.id}`);
+    }
+
+    await Promise.all(indexKeys(session).map(indexKey =>
+      this.cacheService.addToSet(this.indexKey(indexKey), [session.id], ttlSeconds)
+    ));
+
+    const expiresAt = new Date(session.expiresAt).getTime();
+    if (session.credentialIds?.length) {
+      await this.cacheService.addToSortedSet(
+        ACTIVE_CREDENTIALS_KEY,
+        Object.fromEntries(session.credentialIds.map(credentialId => [credentialId, expiresAt]))
+      );
+    }
+  }
+
+  async get(sessionId: string): Promise<ExtendedSession | null> {
+    const raw = await this.cacheService.get<any>(this.key(sessionId));
+    if (!raw) {
+      return null;
+    }
+
+    const session = reviveSession(raw);
+    return isExpired(session) ? null : session;
+  }
+
+  async touch(sessionId: string, accessedAt: Date): Promise<boolean> {
+    const session = await this.get(sessionId);
+    const ttlSeconds = session ? Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000) : 0;
+    if (!session || ttlSeconds <= 0) {
+      return false;
+    }
+
+    // Conditional write: a logout or revocation between the read and this write wins
+    return this.cacheService.update(this.key(sessionId), { ...session, lastAccessedAt: accessedAt }, ttlSeconds);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const raw = await this.cacheService.get<any>(this.key(sessionId));
+    if (raw?.holderDID) {
+      await Promise.all(indexKeys(raw).map(indexKey =>
+        this.cacheService.removeFromSet(this.indexKey(indexKey), [sessionId])
+      ));
+    }
+
+    return this.cacheService.delete(this.key(sessionId));
+  }
+
+  async listByHolder(holderDID: string): Promise<ExtendedSession[]> {
+    return this.listByIndex(`holder:${holderDID}`);
+  }
+
+  async listByCredential(credentialId: string): Promise<ExtendedSession[]> {
+    return this.listByIndex(`credential:${credentialId}`);
+  }
+
+  // Scored by the latest expiry of any session using the credential; logged-out sessions linger until then
+  async listActiveCredentialIds(): Promise<string[]> {
+    return (await this.cacheService.getSortedSetMembers(ACTIVE_CREDENTIALS_KEY, Date.now())) || [];
+  }
+
+  private async listByIndex(indexKey: string): Promise<ExtendedSession[]> {
+    const sessionIds = await this.cacheService.getSetMembers(this.indexKey(indexKey));
+    const sessions = await Promise.all(sessionIds.map(sessionId => this.get(sessionId)));
+
+    // Sessions expire on their own TTL, so prune index entries that outlived them
+    const stale = sessionIds.filter((_, index) => sessions[index] === null);
+    if (stale.length > 0) {
+      await this.cacheService.removeFromSet(this.indexKey(indexKey), stale);
+    }
+
+    return sessions.filter((session): session is ExtendedSession => session !== null);
+  }
+
+  private key(sessionId: string): string {
+    return `session:data:${sessionId}`;
+  }
+
+  private indexKey(indexKey: string): string {
+    return `session:${indexKey}`;
+  }
+}
+
+// Select the session store implementation from configuration
+export const createSessionStore = (
+  type: string,
+  cacheService?: CacheService,
+  cleanupIntervalSeconds?: number
+): SessionStore => {
+  if (type === 'redis') {
+    if (!cacheService) {
+      throw new Error('Redis session store requires a CacheService instance');
+    }
+    return new RedisSessionStore(cacheService);
+  }
+
+  if (type !== 'memory') {
+    logger.warn('Unknown session store type, falling back to memory', { type });
+  }
+  return new InMemorySessionStore(cleanupIntervalSeconds);
+};
+
+export default createSessionStore;
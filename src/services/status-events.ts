@@ -0,0 +1,204 @@
+/**
+ * Bus for credential, session and issuer status events
+ * Both real-time transports (Socket.IO rooms and SSE streams) are fed from it so they deliver identical payloads;
+ * recent events are kept per channel so SSE clients can resume with Last-Event-ID. Without a transport events,
+ * IDs and replay buffers are local to this process; with one (see redis-status-events) they are shared
+ */
+
+import { EventEmitter } from 'events';
+import type { RevocationNotice } from './revocation-notices';
+import type ServiceProviderService from './service-provider.service';
+import type { SessionInvalidation } from '../models/types';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+export type StatusTopic = 'credential' | 'session' | 'issuer';
+export type StatusEventName = 'credential:status' | 'session:status' | 'issuer:revocation';
+
+export interface StatusEvent {
+  id: string;
+  channel: string; // `${topic}:${key}`, matching the WebSocket room names
+  event: StatusEventName;
+  data: Record<string, any>;
+}
+
+export interface StatusEventBusOptions {
+  replayBufferSize?: number; // events kept per channel
+  replayTtlMs?: number;
+}
+
+// Assigns event IDs, stores replay buffers and fans events out to every instance, which hand them to `deliver`
+export interface StatusEventTransport {
+  publish(event: Omit<StatusEvent, 'id'>): Promise<StatusEvent>;
+  replay(channel: string, lastEventId?: string): Promise<StatusEvent[]>;
+}
+
+export const statusChannel = (topic: StatusTopic, key: string): string => `${topic}:${key}`;
+
+// Emits `event` (StatusEvent) for every published event, and `event:<channel>` for its channel
+export class StatusEventBus extends EventEmitter {
+  private sequence = 0;
+  private transport: StatusEventTransport | null = null;
+  private buffers = new Map<string, Array<StatusEvent & { publishedAt: number }>>();
+  private listenerCounts = new Map<string, number>();
+  private replayBufferSize: number;
+  private replayTtlMs: number;
+
+  constructor(options: StatusEventBusOptions = {}) {
+    super();
+    this.replayBufferSize = options.replayBufferSize || 100;
+    this.replayTtlMs = options.replayTtlMs || 15 * 60 * 1000;
+    // Every SSE stream holds a channel listener
+    this.setMaxListeners(0);
+  }
+
+  setTransport(transport: StatusEventTransport | null): void {
+    this.transport = transport;
+  }
+
+  // Whether every instance receives the events published here (so each should deliver only to its own clients)
+  get isDistributed(): boolean {
+    return this.transport !== null;
+  }
+
+  publish(topic: StatusTopic, key: string, event: StatusEventName, data: Record<string, any>): void {
+    const channel = statusChannel(topic, key);
+    if (!this.transport) {
+      this.publishLocally(channel, event, data);
+      return;
+    }
+
+    // Delivered when the transport hands the event back; fall back to this instance if it can't
+    this.transport.publish({ channel, event, data }).catch(error => {
+      logger.error('Failed to distribute status event, delivering locally', {
+        channel,
+        event,
+        error: error instanceof Error ? error.message : error
+      });
+      this.publishLocally(channel, event, data);
+    });
+  }
+
+  // Emit an event published through the transport by any instance
+  deliver(statusEvent: StatusEvent): void {
+    this.emit('event', statusEvent);
+    this.emit(`event:${statusEvent.channel}`, statusEvent);
+  }
+
+  private publishLocally(channel: string, event: StatusEventName, data: Record<string, any>): void {
+    const statusEvent: StatusEvent = {
+      id: String(++this.sequence),
+      channel,
+      event,
+      data
+    };
+
+    // Channels that have gone quiet are dropped once their events age out
+    if (this.sequence % 100 === 0) {
+      Array.from(this.buffers.keys()).forEach(channel => this.pruneBuffer(channel));
+    }
+
+    const buffer = this.pruneBuffer(statusEvent.channel);
+    buffer.push({ ...statusEvent, publishedAt: Date.now() });
+    if (buffer.length > this.replayBufferSize) {
+      buffer.shift();
+    }
+    this.buffers.set(statusEvent.channel, buffer);
+
+    this.deliver(statusEvent);
+  }
+
+  credentialRevoked(credentialId: string, issuerDID?: string, reason: string = 'Manual revocation notification'): void {
+    this.publish('credential', credentialId, 'credential:status', {
+      credentialId,
+      isRevoked: true,
+      status: 'revoked',
+      timestamp: Date.now(),
+      reason
+    });
+
+    if (issuerDID) {
+      this.publish('issuer', issuerDID, 'issuer:revocation', {
+        issuerDID,
+        credentialId,
+        reason,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  revocationNotice(notice: RevocationNotice): void {
+    const reason = notice.reason ? `Issuer revocation notice: ${notice.reason}` : 'Issuer revocation notice';
+    notice.credentialIds.forEach(credentialId => this.credentialRevoked(credentialId, notice.issuerDID, reason));
+  }
+
+  sessionExpired(sessionId: string): void {
+    this.publish('session', sessionId, 'session:status', {
+      sessionId,
+      isValid: false,
+      status: 'expired',
+      timestamp: Date.now()
+    });
+  }
+
+  // Listen to one channel; returns the unsubscribe function
+  subscribe(channel: string, listener: (event: StatusEvent) => void): () => void {
+    this.on(`event:${channel}`, listener);
+    this.listenerCounts.set(channel, (this.listenerCounts.get(channel) || 0) + 1);
+
+    return () => {
+      this.off(`event:${channel}`, listener);
+      const remaining = (this.listenerCounts.get(channel) || 1) - 1;
+      if (remaining > 0) {
+        this.listenerCounts.set(channel, remaining);
+      } else {
+        this.listenerCounts.delete(channel);
+      }
+    };
+  }
+
+  // Buffered events published after `lastEventId` (all buffered events if it is unknown or too old)
+  async replay(channel: string, lastEventId?: string): Promise<StatusEvent[]> {
+    if (this.transport) {
+      return this.transport.replay(channel, lastEventId);
+    }
+
+    const lastId = Number(lastEventId);
+    return this.pruneBuffer(channel)
+      .filter(event => !Number.isFinite(lastId) || Number(event.id) > lastId)
+      .map(({ publishedAt: _publishedAt, ...event }) => event);
+  }
+
+  // Keys of a topic with at least one channel subscriber (e.g. credentials followed over SSE)
+  getSubscribedKeys(topic: StatusTopic): string[] {
+    const prefix = `${topic}:`;
+    return Array.from(this.listenerCounts.keys())
+      .filter(channel => channel.startsWith(prefix))
+      .map(channel => channel.slice(prefix.length));
+  }
+
+  private pruneBuffer(channel: string): Array<StatusEvent & { publishedAt: number }> {
+    const cutoff = Date.now() - this.replayTtlMs;
+    const buffer = (this.buffers.get(channel) || []).filter(event => event.publishedAt > cutoff);
+    if (buffer.length > 0) {
+      this.buffers.set(channel, buffer);
+    } else {
+      this.buffers.delete(channel);
+    }
+    return buffer;
+  }
+}
+
+// Build the bus from configuration and publish the service provider's session and revocation events on it
+export const createStatusEventBus = (serviceProvider: ServiceProviderService): StatusEventBus => {
+  const statusEvents = new StatusEventBus({
+    replayBufferSize: config.events.replayBufferSize,
+    replayTtlMs: config.events.replayTtl * 1000
+  });
+
+  serviceProvider.on('sessionInvalidated', ({ sessionId }: SessionInvalidation) => statusEvents.sessionExpired(sessionId));
+  serviceProvider.on('revocationNotice', (notice: RevocationNotice) => statusEvents.revocationNotice(notice));
+  return statusEvents;
+};
+
+export default StatusEventBus;
@@ -0,0 +1,185 @@
+/**
+ * Verification statistics aggregated from single and batch verifications
+ * Counters live in Redis hashes (all-time, per-minute and per-hour buckets) so every instance contributes
+ */
+
+import type CacheService from './cache.service';
+import type {
+  VerificationSample,
+  VerificationStatistics,
+  VerificationStatisticsWindow
+} from '../models/types';
+import logger from '../utils/logger';
+
+// Latency histogram upper bounds in milliseconds; percentiles are reported as the bucket bound
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+const KEY_PREFIX = 'stats:verification';
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MINUTE_BUCKET_TTL = 2 * 60 * 60;
+const HOUR_BUCKET_TTL = 26 * 60 * 60;
+
+type Counters = Record<string, number>;
+
+const latencyField = (processingTimeMs: number): string => {
+  const bound = LATENCY_BUCKETS_MS.find(limit => processingTimeMs <= limit);
+  return bound === undefined ? 'latency:inf' : `latency:${bound}`;
+};
+
+const mergeCounters = (target: Counters, source: Counters): Counters => {
+  Object.entries(source).forEach(([field, value]) => {
+    target[field] = (target[field] || 0) + value;
+  });
+  return target;
+};
+
+const percentile = (counters: Counters, total: number, fraction: number): number => {
+  if (total === 0) {
+    return 0;
+  }
+
+  const target = Math.ceil(total * fraction);
+  let seen = 0;
+  for (const bound of LATENCY_BUCKETS_MS) {
+    seen += counters[`latency:${bound}`] || 0;
+    if (seen >= target) {
+      return bound;
+    }
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+};
+
+export const summarizeCounters = (counters: Counters): VerificationStatisticsWindow => {
+  const total = counters.total || 0;
+  const successful = counters.successful || 0;
+
+  const errorCodes: Record<string, number> = {};
+  Object.entries(counters).forEach(([field, value]) => {
+    if (field.startsWith('error:')) {
+      errorCodes[field.slice('error:'.length)] = value;
+    }
+  });
+
+  return {
+    totalVerifications: total,
+    successful,
+    failed: counters.failed || 0,
+    successRate: total > 0 ? Math.round((successful / total) * 10000) / 100 : 0,
+    averageProcessingTime: total > 0 ? Math.round((counters.latencySum || 0) / total) : 0,
+    latencyPercentiles: {
+      p50: percentile(counters, total, 0.5),
+      p95: percentile(counters, total, 0.95),
+      p99: percentile(counters, total, 0.99)
+    },
+    errorCodes
+  };
+};
+
+export class VerificationStatisticsRecorder {
+  // Counters that couldn't be written to Redis, merged into reads so nothing recorded is lost
+  private localCounters = new Map<string, { counters: Counters; expiresAt: number }>();
+
+  constructor(private cacheService: CacheService | null) {}
+
+  async recordVerification(sample: VerificationSample): Promise<void> {
+    await this.record([sample], false);
+  }
+
+  async recordBatch(samples: VerificationSample[]): Promise<void> {
+    await this.record(samples, true);
+  }
+
+  async getStatistics(now: number = Date.now()): Promise<VerificationStatistics> {
+    const minuteKeys = Array.from({ length: 60 }, (_, i) => this.minuteKey(now - i * MINUTE_MS));
+    const hourKeys = Array.from({ length: 24 }, (_, i) => this.hourKey(now - i * HOUR_MS));
+    const totalKey = `${KEY_PREFIX}:total`;
+    const keys = [totalKey, ...minuteKeys, ...hourKeys];
+
+    const stored = this.cacheService ? await this.cacheService.getHashCounters(keys) : null;
+    const countersFor = (key: string, index: number): Counters => {
+      const counters = { ...(stored?.[index] || {}) };
+      const local = this.localCounters.get(key);
+      return local && local.expiresAt > now ? mergeCounters(counters, local.counters) : counters;
+    };
+
+    const total = countersFor(totalKey, 0);
+    const lastHour = minuteKeys.reduce(
+      (acc, key, i) => mergeCounters(acc, countersFor(key, 1 + i)),
+      {} as Counters
+    );
+    const lastDay = hourKeys.reduce(
+      (acc, key, i) => mergeCounters(acc, countersFor(key, 1 + minuteKeys.length + i)),
+      {} as Counters
+    );
+
+    return {
+      ...summarizeCounters(total),
+      totalBatches: total.batches || 0,
+      lastHour: summarizeCounters(lastHour),
+      lastDay: summarizeCounters(lastDay),
+      lastUpdated: new Date(now).toISOString()
+    };
+  }
+
+  private async record(samples: VerificationSample[], isBatch: boolean): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const increments: Counters = isBatch ? { batches: 1 } : {};
+    samples.forEach(sample => {
+      mergeCounters(increments, {
+        total: 1,
+        [sample.success ? 'successful' : 'failed']: 1,
+        latencySum: Math.round(sample.processingTimeMs),
+        [latencyField(sample.processingTimeMs)]: 1,
+        ...(sample.success ? {} : { [`error:${sample.errorCode || 'UNKNOWN_ERROR'}`]: 1 })
+      });
+    });
+
+    const now = Date.now();
+    await Promise.all([
+      this.write(`${KEY_PREFIX}:total`, increments, undefined, now),
+      this.write(this.minuteKey(now), increments, MINUTE_BUCKET_TTL, now),
+      this.write(this.hourKey(now), increments, HOUR_BUCKET_TTL, now)
+    ]);
+  }
+
+  private async write(key: string, increments: Counters, ttlSeconds: number | undefined, now: number): Promise<void> {
+    const persisted = this.cacheService
+      ? await this.cacheService.incrementHashFields(key, increments, ttlSeconds)
+      : false;
+    if (persisted) {
+      return;
+    }
+
+    if (this.cacheService) {
+      logger.debug('Recording verification statistics locally', { key });
+    }
+    const local = this.localCounters.get(key);
+    this.localCounters.set(key, {
+      counters: mergeCounters({ ...(local?.counters || {}) }, increments),
+      expiresAt: ttlSeconds ? now + ttlSeconds * 1000 : Infinity
+    });
+    this.pruneLocal(now);
+  }
+
+  private pruneLocal(now: number): void {
+    this.localCounters.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.localCounters.delete(key);
+      }
+    });
+  }
+
+  private minuteKey(timestamp: number): string {
+    return `${KEY_PREFIX}:minute:${Math.floor(timestamp / MINUTE_MS)}`;
+  }
+
+  private hourKey(timestamp: number): string {
+    return `${KEY_PREFIX}:hour:${Math.floor(timestamp / HOUR_MS)}`;
+  }
+}
+
+export default VerificationStatisticsRecorder;
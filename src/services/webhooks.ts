@@ -0,0 +1,513 @@
+/**
+ * Outbound webhook subscriptions for verification, session and revocation events
+ * Each delivery is signed with the subscription secret (HMAC-SHA256), retried with exponential backoff
+ * and moved to a dead-letter list once its last attempt fails.
+ * Retries are in-process timers: a restart or shutdown abandons pending retries without dead-lettering them,
+ * so receivers that need every event should reconcile from the delivery log (status `retrying`)
+ */
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type CacheService from './cache.service';
+import type ServiceProviderService from './service-provider.service';
+import type {
+  ExtendedSession,
+  PresentationVerificationEvent,
+  SessionInvalidation,
+  WebhookDeadLetter,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription
+} from '../models/types';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'presentation.verified',
+  'presentation.failed',
+  'session.created',
+  'session.expired',
+  'credential.revoked'
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: WebhookEventType[];
+  secret?: string; // generated when omitted
+  description?: string;
+  active?: boolean;
+}
+
+export type WebhookSubscriptionChanges = Partial<Omit<WebhookSubscriptionInput, 'secret'>>;
+
+export interface WebhookDeliveryQuery {
+  subscriptionId?: string;
+  eventId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number;
+  retryBaseDelayMs?: number;
+  timeoutMs?: number;
+  deliveryLogSize?: number;
+  sessionExpirySweepMs?: number;
+}
+
+// Current state of a tracked session, or null once it is gone
+export type SessionLookup = (sessionId: string) => Promise<{ expiresAt: Date | string } | null>;
+
+const MIN_SECRET_LENGTH = 16;
+
+// Signature over `${timestamp}.${body}`, sent as `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+};
+
+// Receiver-side check of a signature header; the timestamp bounds how long a captured delivery can be replayed
+export const verifyWebhookSignature = (
+  secret: string,
+  header: string | undefined,
+  body: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean => {
+  const parts = Object.fromEntries(
+    (header || '').split(',').map(part => part.trim().split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1 || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+// Subscriptions as returned by the admin API; the secret is only shown when a subscription is created
+export const redactSubscription = (subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> => {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+};
+
+// Emits `attempt` (WebhookDeliveryAttempt) after every delivery attempt
+export class WebhookDispatcher extends EventEmitter {
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private deliveryLog: WebhookDeliveryAttempt[] = [];
+  private deadLetters = new Map<string, WebhookDeadLetter>();
+  private retryTimers = new Set<NodeJS.Timeout>();
+  private trackedSessions = new Map<string, number>();
+  private sessionSweepTimer: NodeJS.Timeout | null = null;
+  private maxAttempts: number;
+  private retryBaseDelayMs: number;
+  private timeoutMs: number;
+  private deliveryLogSize: number;
+  private sessionExpirySweepMs: number;
+
+  constructor(private cacheService: CacheService | null, options: WebhookDispatcherOptions = {}) {
+    super();
+    this.maxAttempts = options.maxAttempts || 5;
+    this.retryBaseDelayMs = options.retryBaseDelayMs || 1000;
+    this.timeoutMs = options.timeoutMs || 5000;
+    this.deliveryLogSize = options.deliveryLogSize || 1000;
+    this.sessionExpirySweepMs = options.sessionExpirySweepMs || 30000;
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    await this.refresh();
+    return Array.from(this.subscriptions.values());
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | null> {
+    await this.refresh();
+    return this.subscriptions.get(id) || null;
+  }
+
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < MIN_SECRET_LENGTH)) {
+      throw new ValidationError(`Webhook secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+
+    const now = new Date().toISOString();
+    const subscription = this.validateSubscription({
+      id: uuidv4(),
+      url: input.url,
+      events: input.events,
+      secret: input.secret || `whsec_${crypto.randomBytes(24).toString('hex')}`,
+      description: input.description,
+      active: input.active !== false,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    await this.save(subscription);
+    logger.info('Webhook subscription created', {
+      id: subscription.id,
+      url: subscription.url,
+      events: subscription.events
+    });
+    return subscription;
+  }
+
+  async updateSubscription(id: string, changes: WebhookSubscriptionChanges): Promise<WebhookSubscription> {
+    const existing = await this.requireSubscription(id);
+    const subscription = this.validateSubscription({
+      ...existing,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      id,
+      updatedAt: new Date().toISOString()
+    });
+
+    await this.save(subscription);
+    logger.info('Webhook subscription updated', { id, changes: Object.keys(changes) });
+    return subscription;
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.requireSubscription(id);
+
+    this.subscriptions.delete(id);
+    if (this.cacheService) {
+      await this.cacheService.removeCachedWebhookSubscription(id);
+    }
+    logger.info('Webhook subscription deleted', { id });
+  }
+
+  // Send an event to every active subscription that wants it; resolves once each first attempt has finished
+  async dispatch(type: WebhookEventType, data: Record<string, any>): Promise<WebhookEvent> {
+    const event: WebhookEvent = {
+      id: uuidv4(),
+      type,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    const subscriptions = (await this.listSubscriptions())
+      .filter(subscription => subscription.active && subscription.events.includes(type));
+
+    await Promise.all(subscriptions.map(subscription => this.deliver(subscription, event, uuidv4(), 1)));
+    return event;
+  }
+
+  // Delivery attempts, newest first
+  async listDeliveries(query: WebhookDeliveryQuery = {}): Promise<WebhookDeliveryAttempt[]> {
+    const stored = this.cacheService
+      ? await this.cacheService.getWebhookDeliveryLog<WebhookDeliveryAttempt>()
+      : null;
+
+    return (stored || this.deliveryLog)
+      .filter(entry => !query.subscriptionId || entry.subscriptionId === query.subscriptionId)
+      .filter(entry => !query.eventId || entry.eventId === query.eventId)
+      .filter(entry => !query.status || entry.status === query.status)
+      .slice(0, query.limit || 100);
+  }
+
+  async listDeadLetters(): Promise<WebhookDeadLetter[]> {
+    const stored = this.cacheService
+      ? await this.cacheService.getWebhookDeadLetters<WebhookDeadLetter>()
+      : null;
+
+    return (stored || Array.from(this.deadLetters.values()))
+      .sort((a, b) => b.deadLetteredAt.localeCompare(a.deadLetteredAt));
+  }
+
+  // Take a dead-lettered delivery off the list and start a fresh round of attempts for it
+  async redeliver(deliveryId: string): Promise<WebhookDeadLetter> {
+    const deadLetter = (await this.listDeadLetters()).find(entry => entry.deliveryId === deliveryId);
+    if (!deadLetter) {
+      throw new NotFoundError(`Dead-lettered delivery not found: ${deliveryId}`, { deliveryId });
+    }
+
+    const subscription = await this.requireSubscription(deadLetter.subscriptionId);
+
+    this.deadLetters.delete(deliveryId);
+    if (this.cacheService) {
+      await this.cacheService.removeWebhookDeadLetter(deliveryId);
+    }
+
+    logger.info('Redelivering dead-lettered webhook', { deliveryId, subscriptionId: subscription.id });
+    await this.deliver(subscription, deadLetter.event, deliveryId, 1);
+    return deadLetter;
+  }
+
+  // Session stores drop expired sessions silently, so sessions are tracked from creation and swept for
+  // `session.expired`. Only the instance that created a session tracks it, and tracking does not survive a restart
+  watchSessionExpiry(lookup: SessionLookup): void {
+    if (this.sessionSweepTimer) {
+      return;
+    }
+
+    this.sessionSweepTimer = setInterval(() => {
+      this.sweepExpiredSessions(lookup).catch(error => {
+        logger.error('Webhook session expiry sweep failed', { error });
+      });
+    }, this.sessionExpirySweepMs);
+    this.sessionSweepTimer.unref();
+  }
+
+  trackSession(sessionId: string, expiresAt: Date | string): void {
+    this.trackedSessions.set(sessionId, new Date(expiresAt).getTime());
+  }
+
+  untrackSession(sessionId: string): void {
+    this.trackedSessions.delete(sessionId);
+  }
+
+  // Announce tracked sessions that are past their expiry and gone; extended sessions are tracked again
+  async sweepExpiredSessions(lookup: SessionLookup): Promise<string[]> {
+    const now = Date.now();
+    const due = Array.from(this.trackedSessions.entries())
+      .filter(([, expiresAt]) => expiresAt <= now)
+      .map(([sessionId]) => sessionId);
+    const expired: string[] = [];
+
+    for (const sessionId of due) {
+      this.trackedSessions.delete(sessionId);
+      const session = await lookup(sessionId);
+      if (session && new Date(session.expiresAt).getTime() > now) {
+        this.trackSession(sessionId, session.expiresAt);
+        continue;
+      }
+
+      expired.push(sessionId);
+      await this.dispatch('session.expired', { sessionId, reason: 'expired' });
+    }
+    return expired;
+  }
+
+  shutdown(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (this.sessionSweepTimer) {
+      clearInterval(this.sessionSweepTimer);
+      this.sessionSweepTimer = null;
+    }
+  }
+
+  private async deliver(
+    subscription: WebhookSubscription,
+    event: WebhookEvent,
+    deliveryId: string,
+    attempt: number
+  ): Promise<void> {
+    const body = JSON.stringify(event);
+    const startTime = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'anon-identity-service-webhooks',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Event': event.type,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, Math.floor(startTime / 1000), body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const entry: WebhookDeliveryAttempt = {
+      deliveryId,
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      eventType: event.type,
+      url: subscription.url,
+      attempt,
+      status: 'delivered',
+      responseStatus,
+      error,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    };
+
+    if (!error) {
+      await this.recordAttempt(entry);
+      return;
+    }
+
+    if (attempt < this.maxAttempts) {
+      const delay = this.retryBaseDelayMs * 2 ** (attempt - 1);
+      await this.recordAttempt({
+        ...entry,
+        status: 'retrying',
+        nextRetryAt: new Date(Date.now() + delay).toISOString()
+      });
+      this.scheduleRetry(subscription.id, event, deliveryId, attempt + 1, delay);
+      return;
+    }
+
+    const deadLetter: WebhookDeadLetter = {
+      deliveryId,
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      event,
+      attempts: attempt,
+      lastError: error,
+      deadLetteredAt: new Date().toISOString()
+    };
+    this.deadLetters.set(deliveryId, deadLetter);
+    if (this.cacheService) {
+      await this.cacheService.cacheWebhookDeadLetter(deadLetter);
+    }
+
+    logger.warn('Webhook delivery dead-lettered', {
+      deliveryId,
+      subscriptionId: subscription.id,
+      eventType: event.type,
+      attempts: attempt,
+      error
+    });
+    await this.recordAttempt({ ...entry, status: 'dead_lettered' });
+  }
+
+  // Retries pick up the subscription's current URL and secret; deleted or disabled subscriptions drop the delivery
+  private scheduleRetry(subscriptionId: string, event: WebhookEvent, deliveryId: string, attempt: number, delay: number): void {
+    const timer = setTimeout(async () => {
+      this.retryTimers.delete(timer);
+
+      try {
+        const subscription = await this.getSubscription(subscriptionId);
+        if (!subscription || !subscription.active) {
+          logger.info('Dropping webhook retry for inactive subscription', { deliveryId, subscriptionId });
+          return;
+        }
+        await this.deliver(subscription, event, deliveryId, attempt);
+      } catch (error) {
+        logger.error('Webhook retry failed', { deliveryId, subscriptionId, error });
+      }
+    }, delay);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+
+  private async recordAttempt(entry: WebhookDeliveryAttempt): Promise<void> {
+    this.deliveryLog.unshift(entry);
+    if (this.deliveryLog.length > this.deliveryLogSize) {
+      this.deliveryLog.length = this.deliveryLogSize;
+    }
+    if (this.cacheService) {
+      await this.cacheService.appendWebhookDeliveryLog(entry, this.deliveryLogSize);
+    }
+
+    logger.debug('Webhook delivery attempt', {
+      deliveryId: entry.deliveryId,
+      eventType: entry.eventType,
+      attempt: entry.attempt,
+      status: entry.status,
+      responseStatus: entry.responseStatus
+    });
+    this.emit('attempt', entry);
+  }
+
+  private validateSubscription(subscription: WebhookSubscription): WebhookSubscription {
+    let url: URL;
+    try {
+      url = new URL(subscription.url);
+    } catch {
+      throw new ValidationError('Webhook URL must be an absolute URL', { url: subscription.url });
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ValidationError('Webhook URL must use http or https', { url: subscription.url });
+    }
+
+    if (!Array.isArray(subscription.events) || subscription.events.length === 0) {
+      throw new ValidationError('At least one webhook event type is required', { supported: WEBHOOK_EVENT_TYPES });
+    }
+    const unsupported = subscription.events.filter(event => !WEBHOOK_EVENT_TYPES.includes(event));
+    if (unsupported.length > 0) {
+      throw new ValidationError('Unsupported webhook event types', { unsupported, supported: WEBHOOK_EVENT_TYPES });
+    }
+
+    return { ...subscription, events: Array.from(new Set(subscription.events)), active: Boolean(subscription.active) };
+  }
+
+  private async requireSubscription(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.getSubscription(id);
+    if (!subscription) {
+      throw new NotFoundError(`Webhook subscription not found: ${id}`, { id });
+    }
+    return subscription;
+  }
+
+  private async save(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.id, subscription);
+    if (this.cacheService) {
+      await this.cacheService.cacheWebhookSubscription(subscription);
+    }
+  }
+
+  // Reload from Redis so subscriptions registered on other instances receive this instance's events
+  private async refresh(): Promise<void> {
+    if (!this.cacheService) {
+      return;
+    }
+
+    const stored = await this.cacheService.getCachedWebhookSubscriptions<WebhookSubscription>();
+    if (stored) {
+      this.subscriptions = new Map(stored.map(subscription => [subscription.id, subscription]));
+    }
+  }
+}
+
+// Build the dispatcher from configuration and forward the service provider's events to subscribers
+export const createWebhookDispatcher = (
+  serviceProvider: ServiceProviderService,
+  cacheService: CacheService | null
+): WebhookDispatcher => {
+  const webhooks = new WebhookDispatcher(cacheService, config.webhooks);
+
+  const forward = (type: WebhookEventType, data: Record<string, any>) => {
+    webhooks.dispatch(type, data).catch(error => {
+      logger.error('Failed to dispatch webhook event', { type, error });
+    });
+  };
+
+  serviceProvider.on('presentationVerified', (event: PresentationVerificationEvent) => {
+    forward('presentation.verified', event);
+  });
+  serviceProvider.on('presentationFailed', (event: PresentationVerificationEvent) => {
+    forward('presentation.failed', event);
+  });
+  // Disclosed attributes stay out of webhook payloads
+  serviceProvider.on('sessionCreated', (session: ExtendedSession) => {
+    webhooks.trackSession(session.id, session.expiresAt);
+    forward('session.created', {
+      sessionId: session.id,
+      holderDID: session.holderDID,
+      credentialIds: session.credentialIds,
+      expiresAt: session.expiresAt
+    });
+  });
+  serviceProvider.on('sessionInvalidated', ({ sessionId, reason }: SessionInvalidation) => {
+    webhooks.untrackSession(sessionId);
+    forward('session.expired', { sessionId, reason });
+  });
+  serviceProvider.on('credentialsRevoked', ({ issuerDID, credentialIds }: { issuerDID: string; credentialIds: string[] }) => {
+    forward('credential.revoked', { issuerDID, credentialIds });
+  });
+  webhooks.watchSessionExpiry(sessionId => serviceProvider.getSession(sessionId));
+
+  return webhooks;
+};
+
+export default WebhookDispatcher;
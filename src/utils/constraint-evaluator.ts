@@ -0,0 +1,135 @@
+// Evaluates disclosed attributes against AttributeConstraint rules from endpoint requirements
+
+import type { AttributeConstraint } from '../config/service.config';
+import type { ConstraintEvaluationResult, ConstraintEvaluationSummary, PredicateResult } from '../models/types';
+
+// Accept numbers, numeric strings and date strings so timestamps like subscriptionExpiry compare naturally
+const toComparableNumber = (value: any): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+      return numeric;
+    }
+
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+
+  return null;
+};
+
+const violation = (name: string, reason: string): ConstraintEvaluationResult => ({
+  name,
+  passed: false,
+  reason,
+  code: 'ATTRIBUTE_CONSTRAINT_VIOLATION'
+});
+
+// A proven range satisfies the constraint when it lies within minValue/maxValue; other rules need the value
+const evaluatePredicate = (constraint: AttributeConstraint, predicate: PredicateResult): ConstraintEvaluationResult => {
+  const { name } = constraint;
+  if (
+    constraint.expectedValue !== undefined ||
+    constraint.allowedValues ||
+    constraint.pattern ||
+    (constraint.minValue === undefined && constraint.maxValue === undefined)
+  ) {
+    return violation(name, 'Only minValue/maxValue can be satisfied by a predicate proof');
+  }
+  if (constraint.minValue !== undefined && (predicate.gte === undefined || predicate.gte < constraint.minValue)) {
+    return violation(name, `Predicate proof must show a value of at least ${constraint.minValue}`);
+  }
+  if (constraint.maxValue !== undefined && (predicate.lte === undefined || predicate.lte > constraint.maxValue)) {
+    return violation(name, `Predicate proof must show a value of at most ${constraint.maxValue}`);
+  }
+  return { name, passed: true, reason: 'Proven by range predicate' };
+};
+
+export const evaluateConstraint = (
+  constraint: AttributeConstraint,
+  attributes: Record<string, any>,
+  predicates: Record<string, PredicateResult> = {}
+): ConstraintEvaluationResult => {
+  const { name } = constraint;
+  const value = attributes[name];
+
+  if ((value === undefined || value === null) && constraint.mode === 'predicate' && predicates[name]) {
+    return evaluatePredicate(constraint, predicates[name]);
+  }
+
+  if (value === undefined || value === null) {
+    if (constraint.required) {
+      return {
+        name,
+        passed: false,
+        reason: 'Required attribute was not disclosed',
+        code: 'MISSING_REQUIRED_ATTRIBUTE'
+      };
+    }
+    return { name, passed: true, reason: 'Optional attribute not disclosed' };
+  }
+
+  if (constraint.expectedValue !== undefined && value !== constraint.expectedValue) {
+    return violation(name, `Expected ${JSON.stringify(constraint.expectedValue)}`);
+  }
+
+  if (constraint.allowedValues && !constraint.allowedValues.includes(value)) {
+    return violation(name, `Value must be one of: ${constraint.allowedValues.join(', ')}`);
+  }
+
+  if (constraint.minValue !== undefined || constraint.maxValue !== undefined) {
+    const numeric = toComparableNumber(value);
+    if (numeric === null) {
+      return violation(name, 'Value is not numeric');
+    }
+    if (constraint.minValue !== undefined && numeric < constraint.minValue) {
+      return violation(name, `Value must be at least ${constraint.minValue}`);
+    }
+    if (constraint.maxValue !== undefined && numeric > constraint.maxValue) {
+      return violation(name, `Value must be at most ${constraint.maxValue}`);
+    }
+  }
+
+  if (constraint.pattern) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(constraint.pattern);
+    } catch {
+      return violation(name, 'Constraint pattern is invalid');
+    }
+    if (!regex.test(String(value))) {
+      return violation(name, 'Value does not match the required pattern');
+    }
+  }
+
+  return { name, passed: true };
+};
+
+export const evaluateConstraints = (
+  constraints: AttributeConstraint[] = [],
+  attributes: Record<string, any> = {},
+  predicates: Record<string, PredicateResult> = {}
+): ConstraintEvaluationSummary => {
+  const results = constraints.map(constraint => evaluateConstraint(constraint, attributes, predicates));
+  const missingAttributes = results
+    .filter(result => result.code === 'MISSING_REQUIRED_ATTRIBUTE')
+    .map(result => result.name);
+  const violations = results.filter(result => result.code === 'ATTRIBUTE_CONSTRAINT_VIOLATION');
+
+  return {
+    satisfied: results.every(result => result.passed),
+    results,
+    missingAttributes,
+    violations
+  };
+};
+
+export default evaluateConstraints;
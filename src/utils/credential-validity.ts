@@ -0,0 +1,68 @@
+// Credential validity periods: `validFrom`/`validUntil` (VC Data Model 2.0) and
+// `issuanceDate`/`expirationDate` (VC Data Model 1.1)
+
+export interface CredentialValidityWindow {
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const getCredentialValidityWindow = (credential: any): CredentialValidityWindow => {
+  return {
+    validFrom: parseDate(credential?.validFrom) ?? parseDate(credential?.issuanceDate),
+    validUntil: parseDate(credential?.validUntil) ?? parseDate(credential?.expirationDate)
+  };
+};
+
+// Verification error for a credential outside its validity window, allowing `clockSkewSeconds` either way
+export const checkCredentialValidity = (
+  credential: any,
+  clockSkewSeconds: number,
+  now: number = Date.now()
+): { code: string; message: string; context: Record<string, any> } | null => {
+  const { validFrom, validUntil } = getCredentialValidityWindow(credential);
+  const skewMs = clockSkewSeconds * 1000;
+
+  if (validUntil && validUntil.getTime() + skewMs < now) {
+    return {
+      code: 'EXPIRED_CREDENTIAL',
+      message: 'Credential has expired',
+      context: { credentialId: credential?.id, expiredAt: validUntil.toISOString() }
+    };
+  }
+  if (validFrom && validFrom.getTime() - skewMs > now) {
+    return {
+      code: 'CREDENTIAL_NOT_YET_VALID',
+      message: 'Credential is not valid yet',
+      context: { credentialId: credential?.id, validFrom: validFrom.toISOString() }
+    };
+  }
+  return null;
+};
+
+// Earliest end of validity among the credentials, which bounds any session derived from them
+export const getEarliestCredentialExpiry = (
+  credentials: any[] = []
+): { credentialId: string; expiresAt: string } | undefined => {
+  let earliest: { credentialId: string; expiresAt: string } | undefined;
+  credentials.forEach(credential => {
+    const { validUntil } = getCredentialValidityWindow(credential);
+    if (validUntil && (!earliest || validUntil < new Date(earliest.expiresAt))) {
+      earliest = { credentialId: credential.id, expiresAt: validUntil.toISOString() };
+    }
+  });
+  return earliest;
+};
+
+export default {
+  getCredentialValidityWindow,
+  checkCredentialValidity,
+  getEarliestCredentialExpiry
+};
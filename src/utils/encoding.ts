@@ -0,0 +1,70 @@
+// Encoding helpers for DID and credential formats
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export const encodeBase58btc = (bytes: Uint8Array): string => {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  // Leading zero bytes are encoded as '1'
+  let prefix = '';
+  for (const byte of bytes) {
+    if (byte !== 0) {
+      break;
+    }
+    prefix += '1';
+  }
+
+  return prefix + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+};
+
+export const decodeBase58btc = (value: string): Buffer => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+
+    let carry = digit;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  for (const char of value) {
+    if (char !== '1') {
+      break;
+    }
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+};
+
+export const base64UrlEncode = (input: Buffer | string): string => {
+  return Buffer.from(input).toString('base64url');
+};
+
+export const base64UrlDecode = (input: string): Buffer => {
+  return Buffer.from(input, 'base64url');
+};
+
+export default { encodeBase58btc, decodeBase58btc, base64UrlEncode, base64UrlDecode };
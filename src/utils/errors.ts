@@ -108,6 +108,24 @@ export class ExpiredCredentialError extends AuthenticationError {
   }
 }
 
+export class CredentialNotYetValidError extends AuthenticationError {
+  public declare readonly code: string;
+  
+  constructor(credentialId: string, context: Record<string, any> = {}) {
+    super(`Credential is not valid yet: ${credentialId}`, { ...context, credentialId });
+    (this as any).code = 'CREDENTIAL_NOT_YET_VALID';
+  }
+}
+
+export class SuspendedCredentialError extends AuthenticationError {
+  public declare readonly code: string;
+  
+  constructor(credentialId: string, context: Record<string, any> = {}) {
+    super(`Credential is suspended: ${credentialId}`, { ...context, credentialId });
+    (this as any).code = 'SUSPENDED_CREDENTIAL';
+  }
+}
+
 export class UntrustedIssuerError extends AuthenticationError {
   public declare readonly code: string;
   
@@ -126,6 +144,24 @@ export class InvalidSignatureError extends AuthenticationError {
   }
 }
 
+export class InvalidJwtError extends ValidationError {
+  public declare readonly code: string;
+  
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, context);
+    (this as any).code = 'INVALID_JWT';
+  }
+}
+
+export class ReplayedPresentationError extends AuthenticationError {
+  public declare readonly code: string;
+  
+  constructor(requestId: string, context: Record<string, any> = {}) {
+    super(`Presentation request has already been used: ${requestId}`, { ...context, requestId });
+    (this as any).code = 'REPLAYED_PRESENTATION';
+  }
+}
+
 export class SessionNotFoundError extends NotFoundError {
   public declare readonly code: string;
   
@@ -150,17 +186,58 @@ export class BatchProcessingError extends ServiceError {
   }
 }
 
+export class BatchQueueFullError extends ServiceError {
+  constructor(message: string, context: Record<string, any> = {}) {
+    super(message, 503, 'BATCH_QUEUE_FULL', context);
+  }
+}
+
+export class VerificationTimeoutError extends ServiceError {
+  constructor(timeoutMs: number, context: Record<string, any> = {}) {
+    super(`Verification timed out after ${timeoutMs}ms`, 504, 'VERIFICATION_TIMEOUT', { ...context, timeoutMs });
+  }
+}
+
+// DID resolution error codes (DID Core resolution metadata) mapped to service errors
+const DID_RESOLUTION_ERRORS: Record<string, { code: string; statusCode: number }> = {
+  invalidDid: { code: 'INVALID_DID', statusCode: 400 },
+  notFound: { code: 'DID_NOT_FOUND', statusCode: 404 },
+  methodNotSupported: { code: 'DID_METHOD_NOT_SUPPORTED', statusCode: 400 },
+  invalidDidDocument: { code: 'INVALID_DID_DOCUMENT', statusCode: 502 },
+  internalError: { code: 'DID_RESOLUTION_FAILED', statusCode: 502 }
+};
+
+export class DIDResolutionError extends ServiceError {
+  public readonly resolutionError: string;
+
+  constructor(did: string, resolutionError: string, message?: string, context: Record<string, any> = {}) {
+    const mapped = DID_RESOLUTION_ERRORS[resolutionError] || DID_RESOLUTION_ERRORS.internalError;
+    super(message || `Failed to resolve DID: ${did}`, mapped.statusCode, mapped.code, {
+      ...context,
+      did,
+      resolutionError
+    });
+    this.resolutionError = resolutionError;
+  }
+}
+
 // Error factory functions
 export const createVerificationError = (code: string, message: string, context: any = {}) => {
   switch (code) {
   case 'EXPIRED_CREDENTIAL':
     return new ExpiredCredentialError(context.credentialId, context);
+  case 'CREDENTIAL_NOT_YET_VALID':
+    return new CredentialNotYetValidError(context.credentialId, context);
   case 'REVOKED_CREDENTIAL':
     return new RevokedCredentialError(context.credentialId, context);
+  case 'SUSPENDED_CREDENTIAL':
+    return new SuspendedCredentialError(context.credentialId, context);
   case 'UNTRUSTED_ISSUER':
     return new UntrustedIssuerError(context.issuerDID, context);
   case 'INVALID_SIGNATURE':
     return new InvalidSignatureError(context);
+  case 'INVALID_JWT':
+    return new InvalidJwtError(message, context);
   case 'MISSING_REQUIRED_ATTRIBUTE':
     return new MissingAttributesError(context.requiredAttributes || [], context);
   default:
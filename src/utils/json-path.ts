@@ -0,0 +1,97 @@
+// JSONPath subset used by DIF Presentation Exchange field paths and descriptor maps:
+// `$`, `.name`, `['name']`, `[0]`, `[*]`, `.*` and recursive descent `..name`
+
+type Segment =
+  | { kind: 'property'; name: string; recursive: boolean }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard'; recursive: boolean };
+
+const IDENTIFIER = /^[A-Za-z_$@][\w$@-]*/;
+
+const parsePath = (path: string): Segment[] => {
+  if (typeof path !== 'string' || !path.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: Segment[] = [];
+  let rest = path.slice(1);
+  while (rest.length > 0) {
+    const recursive = rest.startsWith('..');
+    if (rest.startsWith('.')) {
+      rest = rest.slice(recursive ? 2 : 1);
+      if (rest.startsWith('*')) {
+        segments.push({ kind: 'wildcard', recursive });
+        rest = rest.slice(1);
+        continue;
+      }
+      const match = rest.match(IDENTIFIER);
+      if (!match) {
+        throw new Error(`Invalid JSONPath member in ${path}`);
+      }
+      segments.push({ kind: 'property', name: match[0], recursive });
+      rest = rest.slice(match[0].length);
+      continue;
+    }
+
+    const bracket = rest.match(/^\[(\*|\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\]/);
+    if (!bracket) {
+      throw new Error(`Unsupported JSONPath syntax in ${path}`);
+    }
+    const selector = bracket[1];
+    if (selector === '*') {
+      segments.push({ kind: 'wildcard', recursive: false });
+    } else if (/^\d+$/.test(selector)) {
+      segments.push({ kind: 'index', index: Number(selector) });
+    } else {
+      segments.push({ kind: 'property', name: selector.slice(1, -1).replace(/\\(.)/g, '$1'), recursive: false });
+    }
+    rest = rest.slice(bracket[0].length);
+  }
+  return segments;
+};
+
+const children = (value: any): any[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value && typeof value === 'object' ? Object.values(value) : [];
+};
+
+// The value itself and every nested value, for recursive descent
+const descendants = (value: any): any[] => {
+  return [value, ...children(value).flatMap(descendants)];
+};
+
+const applySegment = (value: any, segment: Segment): any[] => {
+  const candidates = segment.kind !== 'index' && segment.recursive ? descendants(value) : [value];
+
+  return candidates.flatMap(candidate => {
+    if (segment.kind === 'wildcard') {
+      return children(candidate);
+    }
+    if (segment.kind === 'index') {
+      return Array.isArray(candidate) && segment.index < candidate.length ? [candidate[segment.index]] : [];
+    }
+    if (candidate && typeof candidate === 'object' && !Array.isArray(candidate)
+      && Object.prototype.hasOwnProperty.call(candidate, segment.name)) {
+      return [candidate[segment.name]];
+    }
+    return [];
+  });
+};
+
+// All values matched by `path`; throws on syntax outside the supported subset
+export const queryJsonPath = (root: any, path: string): any[] => {
+  return parsePath(path).reduce<any[]>((values, segment) => values.flatMap(value => applySegment(value, segment)), [root]);
+};
+
+export const isValidJsonPath = (path: unknown): boolean => {
+  try {
+    parsePath(path as string);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export default { queryJsonPath, isValidJsonPath };
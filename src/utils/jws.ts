@@ -0,0 +1,95 @@
+// Compact JWS (RFC 7515) signing, decoding and signature verification against JWK public keys
+
+import crypto from 'crypto';
+import { base64UrlDecode, base64UrlEncode } from './encoding';
+
+export interface DecodedJws {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+// Supported algorithms and the curve their key must use
+const JWS_ALGORITHMS: Record<string, { crv: string; digest: string | null }> = {
+  EdDSA: { crv: 'Ed25519', digest: null },
+  ES256: { crv: 'P-256', digest: 'sha256' },
+  ES256K: { crv: 'secp256k1', digest: 'sha256' }
+};
+
+const parseSegment = (segment: string): Record<string, any> => {
+  const parsed = JSON.parse(base64UrlDecode(segment).toString('utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('JWS segment is not a JSON object');
+  }
+  return parsed;
+};
+
+// Split and parse a compact JWS; throws if it is malformed
+export const decodeJws = (token: string): DecodedJws => {
+  const segments = typeof token === 'string' ? token.split('.') : [];
+  if (segments.length !== 3 || segments.some(segment => !segment)) {
+    throw new Error('JWS must have three non-empty segments');
+  }
+
+  const [header, payload, signature] = segments;
+  return {
+    header: parseSegment(header),
+    payload: parseSegment(payload),
+    signingInput: `${header}.${payload}`,
+    signature: base64UrlDecode(signature)
+  };
+};
+
+export const isSupportedJwsAlgorithm = (alg: unknown): boolean => {
+  return typeof alg === 'string' && alg in JWS_ALGORITHMS;
+};
+
+// Verify the signature with a public JWK; the header algorithm must match the key's curve
+export const verifyJws = (jws: DecodedJws, publicKeyJwk: Record<string, any>): boolean => {
+  const algorithm = JWS_ALGORITHMS[jws.header.alg];
+  if (!algorithm || publicKeyJwk?.crv !== algorithm.crv) {
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({ key: publicKeyJwk as crypto.JsonWebKey, format: 'jwk' });
+    return crypto.verify(
+      algorithm.digest,
+      Buffer.from(jws.signingInput),
+      algorithm.digest ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      jws.signature
+    );
+  } catch {
+    return false;
+  }
+};
+
+// JWS algorithm matching a private or public key's curve, or null for unsupported keys
+export const getJwsAlgorithm = (key: crypto.KeyObject): string | null => {
+  const crv = key.export({ format: 'jwk' }).crv;
+  return Object.keys(JWS_ALGORITHMS).find(alg => JWS_ALGORITHMS[alg].crv === crv) || null;
+};
+
+// Sign a payload as a compact JWS; `alg` is derived from the key
+export const signJws = (
+  header: Record<string, any>,
+  payload: Record<string, any>,
+  privateKey: crypto.KeyObject
+): string => {
+  const alg = getJwsAlgorithm(privateKey);
+  if (!alg) {
+    throw new Error('Unsupported signing key type');
+  }
+
+  const signingInput = `${base64UrlEncode(JSON.stringify({ ...header, alg }))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const { digest } = JWS_ALGORITHMS[alg];
+  const signature = crypto.sign(
+    digest,
+    Buffer.from(signingInput),
+    digest ? { key: privateKey, dsaEncoding: 'ieee-p1363' } : privateKey
+  );
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+};
+
+export default { decodeJws, verifyJws, signJws, getJwsAlgorithm, isSupportedJwsAlgorithm };
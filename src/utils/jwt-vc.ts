@@ -0,0 +1,71 @@
+// JWT-encoded verifiable credentials and presentations (VC Data Model 1.1 JWT encoding):
+// registered claims carry the envelope (`iss`, `sub`, `jti`, `nbf`, `exp`) and `vc` / `vp` the W3C object
+
+import crypto from 'crypto';
+import { decodeJws } from './jws';
+
+// Media types in the JOSE `typ` header; a missing `typ` is also accepted
+export const JWT_VC_TYPES = ['JWT', 'vc+jwt', 'vc+ld+jwt'];
+export const JWT_VP_TYPES = ['JWT', 'vp+jwt', 'vp+ld+jwt'];
+
+// Largest NumericDate a JavaScript Date can represent (±8.64e15 ms)
+const MAX_NUMERIC_DATE_SECONDS = 8640000000000;
+
+// Seconds since the epoch that map onto a valid Date; anything else in `exp`, `nbf` or `iat` is malformed
+export const isNumericDate = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= MAX_NUMERIC_DATE_SECONDS;
+};
+
+const toIsoDate = (seconds: unknown): string | undefined => {
+  return isNumericDate(seconds) ? new Date(seconds * 1000).toISOString() : undefined;
+};
+
+// Compact JWTs whose payload carries a `vp` claim; SD-JWTs are left to their own parser
+export const isJwtPresentation = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.includes('~')) {
+    return false;
+  }
+  try {
+    const { payload } = decodeJws(value);
+    return Boolean(payload.vp) && typeof payload.vp === 'object';
+  } catch {
+    return false;
+  }
+};
+
+// Identifier of a credential without `jti` or `vc.id`, stable for the same JWT
+export const getJwtCredentialId = (token: string, payload: Record<string, any>): string => {
+  if (typeof payload.jti === 'string') {
+    return payload.jti;
+  }
+  if (typeof payload.vc?.id === 'string') {
+    return payload.vc.id;
+  }
+  return `urn:jwt:${crypto.createHash('sha256').update(token).digest('base64url')}`;
+};
+
+// Map JWT claims onto the W3C credential shape; registered claims take precedence over `vc` members
+export const jwtClaimsToCredential = (token: string, payload: Record<string, any>): Record<string, any> => {
+  const vc = payload.vc || {};
+  const subject = vc.credentialSubject && typeof vc.credentialSubject === 'object' ? vc.credentialSubject : {};
+
+  return {
+    ...vc,
+    id: getJwtCredentialId(token, payload),
+    type: Array.isArray(vc.type) ? vc.type : [vc.type || 'VerifiableCredential'],
+    issuer: payload.iss ?? vc.issuer,
+    issuanceDate: toIsoDate(payload.nbf) ?? toIsoDate(payload.iat) ?? vc.issuanceDate,
+    expirationDate: toIsoDate(payload.exp) ?? vc.expirationDate,
+    credentialSubject: {
+      ...subject,
+      ...(payload.sub !== undefined ? { id: payload.sub } : {})
+    }
+  };
+};
+
+export default {
+  isNumericDate,
+  isJwtPresentation,
+  getJwtCredentialId,
+  jwtClaimsToCredential
+};
@@ -0,0 +1,222 @@
+// Range predicates over numeric attributes the holder does not disclose (`age >= 18`, `creditScore` in
+// [600, 850]), proven with hash-chain range proofs against a commitment the issuer signed into the credential.
+//
+// The chain starts at H(prefix || seed) and advances with H, so the seed itself never verifies. For
+// `value >= t` the holder reveals the chain element `value - t` steps from the start and the verifier hashes it
+// `t - min` more times onto `lowerAnchor`; proving a larger bound would need a hash preimage. Upper bounds work
+// the same way on the `max - value` chain. Only the proven bound is learned, not the value.
+
+import crypto from 'crypto';
+import type { PredicateCommitment, PredicateProof, PredicateResult } from '../models/types';
+import { base64UrlDecode, base64UrlEncode } from './encoding';
+import { decodeJws } from './jws';
+import { isSdJwt, parseSdJwt } from './sd-jwt';
+import { isJwtPresentation } from './jwt-vc';
+
+export const PREDICATE_COMMITMENTS_CLAIM = 'predicateCommitments';
+export const HASH_CHAIN_RANGE_COMMITMENT = 'HashChainRangeCommitment';
+
+// Longest chain a verifier will walk, bounding the work a single proof can cause
+export const MAX_RANGE_SIZE = 10000;
+
+const CHAIN_SEED_PREFIX = Buffer.from('hash-chain-range-seed:');
+
+type VerificationError = { code: string; message: string; context?: any };
+
+export interface RangeCommitmentSecrets {
+  lowerSeed: string;
+  upperSeed: string;
+}
+
+const step = (element: Buffer, times: number): Buffer => {
+  let current = element;
+  for (let i = 0; i < times; i++) {
+    current = crypto.createHash('sha256').update(current).digest();
+  }
+  return current;
+};
+
+const chainStart = (seed: string): Buffer => {
+  return crypto.createHash('sha256').update(Buffer.concat([CHAIN_SEED_PREFIX, base64UrlDecode(seed)])).digest();
+};
+
+const isBound = (value: unknown, commitment: PredicateCommitment): value is number => {
+  return Number.isInteger(value) && (value as number) >= commitment.min && (value as number) <= commitment.max;
+};
+
+// Issuer side: commit to an integer `value` within [min, max]; the secrets are handed to the holder only
+export const createRangeCommitment = (
+  value: number,
+  range: { min: number; max: number }
+): { commitment: PredicateCommitment; secrets: RangeCommitmentSecrets } => {
+  const { min, max } = range;
+  if (!Number.isInteger(min) || !Number.isInteger(max) || max < min || max - min > MAX_RANGE_SIZE) {
+    throw new Error(`Commitment range must be integers spanning at most ${MAX_RANGE_SIZE}`);
+  }
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error('Committed value must be an integer within the commitment range');
+  }
+
+  const secrets = {
+    lowerSeed: base64UrlEncode(crypto.randomBytes(32)),
+    upperSeed: base64UrlEncode(crypto.randomBytes(32))
+  };
+  return {
+    commitment: {
+      type: HASH_CHAIN_RANGE_COMMITMENT,
+      min,
+      max,
+      lowerAnchor: base64UrlEncode(step(chainStart(secrets.lowerSeed), value - min)),
+      upperAnchor: base64UrlEncode(step(chainStart(secrets.upperSeed), max - value))
+    },
+    secrets
+  };
+};
+
+// Holder side: prove `value >= gte` and/or `value <= lte` for a committed value
+export const createRangeProof = (
+  attribute: string,
+  value: number,
+  secrets: RangeCommitmentSecrets,
+  bounds: { gte?: number; lte?: number },
+  credentialId?: string
+): PredicateProof => {
+  if (bounds.gte !== undefined && !(value >= bounds.gte)) {
+    throw new Error(`Cannot prove ${attribute} >= ${bounds.gte}`);
+  }
+  if (bounds.lte !== undefined && !(value <= bounds.lte)) {
+    throw new Error(`Cannot prove ${attribute} <= ${bounds.lte}`);
+  }
+
+  return {
+    attribute,
+    ...(credentialId ? { credentialId } : {}),
+    ...bounds,
+    proof: {
+      ...(bounds.gte !== undefined
+        ? { gte: base64UrlEncode(step(chainStart(secrets.lowerSeed), value - bounds.gte)) }
+        : {}),
+      ...(bounds.lte !== undefined
+        ? { lte: base64UrlEncode(step(chainStart(secrets.upperSeed), bounds.lte - value)) }
+        : {})
+    }
+  };
+};
+
+// Proofs travel with the holder's signature: `predicateProofs` on a JSON-LD presentation or the JWT-VP's `vp`
+// claim, and `predicate_proofs` in an SD-JWT's key binding JWT
+export const getPresentedPredicateProofs = (presentation: unknown): PredicateProof[] => {
+  let proofs: unknown;
+  try {
+    if (isSdJwt(presentation)) {
+      proofs = parseSdJwt(presentation).keyBindingJwt?.payload.predicate_proofs;
+    } else if (isJwtPresentation(presentation)) {
+      proofs = decodeJws(presentation).payload.vp.predicateProofs;
+    } else if (presentation && typeof presentation === 'object') {
+      proofs = (presentation as Record<string, any>).predicateProofs;
+    }
+  } catch {
+    return [];
+  }
+  return Array.isArray(proofs) ? proofs : [];
+};
+
+const verifyChain = (element: unknown, times: number, anchor: string): boolean => {
+  if (typeof element !== 'string') {
+    return false;
+  }
+  const expected = base64UrlDecode(anchor);
+  const actual = step(base64UrlDecode(element), times);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+const checkProof = (proof: PredicateProof, credentials: any[]): VerificationError | PredicateResult => {
+  const invalid = (message: string): VerificationError => ({
+    code: 'INVALID_PREDICATE_PROOF',
+    message,
+    context: { attribute: proof?.attribute, credentialId: proof?.credentialId }
+  });
+  if (!proof || typeof proof.attribute !== 'string' || !proof.proof || typeof proof.proof !== 'object') {
+    return invalid('Predicate proof must name an attribute and carry a proof');
+  }
+  if (proof.gte === undefined && proof.lte === undefined) {
+    return invalid('Predicate proof must prove a lower (gte) or upper (lte) bound');
+  }
+
+  const credential = credentials.find(candidate =>
+    (proof.credentialId === undefined || candidate?.id === proof.credentialId) &&
+    candidate?.credentialSubject?.[PREDICATE_COMMITMENTS_CLAIM]?.[proof.attribute]
+  );
+  const commitment: PredicateCommitment | undefined =
+    credential?.credentialSubject[PREDICATE_COMMITMENTS_CLAIM][proof.attribute];
+  if (!commitment) {
+    return invalid(`No presented credential commits to ${proof.attribute}`);
+  }
+  if (
+    commitment.type !== HASH_CHAIN_RANGE_COMMITMENT ||
+    !Number.isInteger(commitment.min) ||
+    !Number.isInteger(commitment.max) ||
+    commitment.max < commitment.min ||
+    commitment.max - commitment.min > MAX_RANGE_SIZE ||
+    typeof commitment.lowerAnchor !== 'string' ||
+    typeof commitment.upperAnchor !== 'string'
+  ) {
+    return invalid(`Unsupported or malformed commitment for ${proof.attribute}`);
+  }
+
+  if (proof.gte !== undefined && (
+    !isBound(proof.gte, commitment) ||
+    !verifyChain(proof.proof.gte, proof.gte - commitment.min, commitment.lowerAnchor)
+  )) {
+    return invalid(`Proof that ${proof.attribute} >= ${proof.gte} is invalid`);
+  }
+  if (proof.lte !== undefined && (
+    !isBound(proof.lte, commitment) ||
+    !verifyChain(proof.proof.lte, commitment.max - proof.lte, commitment.upperAnchor)
+  )) {
+    return invalid(`Proof that ${proof.attribute} <= ${proof.lte} is invalid`);
+  }
+
+  return {
+    credentialId: credential.id,
+    ...(proof.gte !== undefined ? { gte: proof.gte } : {}),
+    ...(proof.lte !== undefined ? { lte: proof.lte } : {})
+  };
+};
+
+// Verify predicate proofs against the commitments in the verified credentials, keeping the tightest bounds
+export const verifyPredicateProofs = (
+  proofs: PredicateProof[],
+  credentials: any[] = []
+): { predicates: Record<string, PredicateResult>; errors: VerificationError[] } => {
+  const predicates: Record<string, PredicateResult> = {};
+  const errors: VerificationError[] = [];
+
+  proofs.forEach(proof => {
+    const result = checkProof(proof, credentials);
+    if ('code' in result) {
+      errors.push(result);
+      return;
+    }
+
+    const existing = predicates[proof.attribute];
+    predicates[proof.attribute] = {
+      credentialId: result.credentialId,
+      ...(result.gte !== undefined || existing?.gte !== undefined
+        ? { gte: Math.max(result.gte ?? -Infinity, existing?.gte ?? -Infinity) }
+        : {}),
+      ...(result.lte !== undefined || existing?.lte !== undefined
+        ? { lte: Math.min(result.lte ?? Infinity, existing?.lte ?? Infinity) }
+        : {})
+    };
+  });
+
+  return { predicates, errors };
+};
+
+export default {
+  createRangeCommitment,
+  createRangeProof,
+  getPresentedPredicateProofs,
+  verifyPredicateProofs
+};
@@ -0,0 +1,447 @@
+// DIF Presentation Exchange v2: definition validation, submission evaluation
+// and conversion of endpoint requirements into presentation definitions
+
+import type { AttributeConstraint, EndpointRequirement } from '../config/service.config';
+import type {
+  DescriptorMapEntry,
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationDefinitionField,
+  PresentationExchangeError,
+  PresentationSubmissionEvaluation,
+  SubmissionRequirement
+} from '../models/types';
+import { isValidJsonPath, queryJsonPath } from './json-path';
+import { decodeJws } from './jws';
+import { decodeSdJwt, isSdJwt } from './sd-jwt';
+import { ServiceError } from './errors';
+
+const LDP_PROOF_TYPES = ['Ed25519Signature2020', 'DataIntegrityProof'];
+const JWT_ALGORITHMS = ['EdDSA', 'ES256', 'ES256K'];
+
+// Credential formats accepted for definitions generated from endpoint requirements
+export const DEFAULT_CREDENTIAL_FORMATS = {
+  ldp_vc: { proof_type: LDP_PROOF_TYPES },
+  ldp_vp: { proof_type: LDP_PROOF_TYPES },
+  jwt_vc_json: { alg: JWT_ALGORITHMS },
+  jwt_vp_json: { alg: JWT_ALGORITHMS },
+  'vc+sd-jwt': { 'sd-jwt_alg_values': JWT_ALGORITHMS, 'kb-jwt_alg_values': JWT_ALGORITHMS }
+};
+
+const peError = (code: string, message: string, context?: Record<string, any>): PresentationExchangeError => ({
+  code,
+  message,
+  ...(context ? { context } : {})
+});
+
+const jsonType = (value: any): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+const deepEqual = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// JSON Schema subset used in field filters; keywords that don't apply to the value's type are ignored
+export const matchesFilter = (value: any, schema: Record<string, any>): boolean => {
+  if (!schema || typeof schema !== 'object') {
+    return true;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonType(value);
+    const typeMatches = types.some(type =>
+      type === actual || (type === 'integer' && Number.isInteger(value)) || (type === 'number' && actual === 'number')
+    );
+    if (!typeMatches) {
+      return false;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    return false;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((allowed: any) => deepEqual(value, allowed))) {
+    return false;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return false;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return false;
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      return false;
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      return false;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return false;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return false;
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      return false;
+    }
+    // Date bounds as used by Presentation Exchange (e.g. expiry in the future)
+    const timestamp = Date.parse(value);
+    if (schema.formatMinimum !== undefined && !(timestamp >= Date.parse(schema.formatMinimum))) {
+      return false;
+    }
+    if (schema.formatMaximum !== undefined && !(timestamp <= Date.parse(schema.formatMaximum))) {
+      return false;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return false;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return false;
+    }
+    if (schema.contains && !value.some(item => matchesFilter(item, schema.contains))) {
+      return false;
+    }
+    if (schema.items && !value.every(item => matchesFilter(item, schema.items))) {
+      return false;
+    }
+  }
+
+  if (Array.isArray(schema.allOf) && !schema.allOf.every((sub: any) => matchesFilter(value, sub))) {
+    return false;
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: any) => matchesFilter(value, sub))) {
+    return false;
+  }
+  if (schema.not && matchesFilter(value, schema.not)) {
+    return false;
+  }
+
+  return true;
+};
+
+// Structural problems with a definition (unknown groups, bad paths, duplicate IDs); empty when valid
+export const validatePresentationDefinition = (definition: PresentationDefinition): string[] => {
+  const problems: string[] = [];
+  if (!definition || typeof definition.id !== 'string' || !definition.id) {
+    return ['Presentation definition requires an id'];
+  }
+  if (!Array.isArray(definition.input_descriptors) || definition.input_descriptors.length === 0) {
+    return ['Presentation definition requires at least one input descriptor'];
+  }
+
+  const ids = new Set<string>();
+  const groups = new Set<string>();
+  definition.input_descriptors.forEach(descriptor => {
+    if (!descriptor.id || ids.has(descriptor.id)) {
+      problems.push(`Input descriptor IDs must be present and unique: ${descriptor.id}`);
+    }
+    ids.add(descriptor.id);
+    (descriptor.group || []).forEach(group => groups.add(group));
+
+    (descriptor.constraints?.fields || []).forEach(field => {
+      if (!Array.isArray(field.path) || field.path.length === 0 || !field.path.every(isValidJsonPath)) {
+        problems.push(`Input descriptor ${descriptor.id} has a field with an invalid path`);
+      }
+    });
+  });
+
+  const checkRequirement = (requirement: SubmissionRequirement) => {
+    if (requirement.rule !== 'all' && requirement.rule !== 'pick') {
+      problems.push(`Unsupported submission requirement rule: ${requirement.rule}`);
+    }
+    if (requirement.from !== undefined && !groups.has(requirement.from)) {
+      problems.push(`Submission requirement references unknown group: ${requirement.from}`);
+    }
+    if ((requirement.from === undefined) === (requirement.from_nested === undefined)) {
+      problems.push('Submission requirements need exactly one of from or from_nested');
+    }
+    (requirement.from_nested || []).forEach(checkRequirement);
+  };
+  (definition.submission_requirements || []).forEach(checkRequirement);
+
+  return problems;
+};
+
+// Compact JWTs (e.g. JWT-encoded credentials) are traversed through their payload, SD-JWTs through their disclosed claims
+const asTraversable = (value: any): any => {
+  if (isSdJwt(value)) {
+    try {
+      return decodeSdJwt(value);
+    } catch {
+      return value;
+    }
+  }
+  if (typeof value === 'string' && value.split('.').length === 3) {
+    try {
+      return decodeJws(value).payload;
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+// Follow a descriptor map entry (and its path_nested chain) from the submitted token to the credential
+const resolveEntry = (
+  root: any,
+  entry: Omit<DescriptorMapEntry, 'id'>
+): { value: any; format: string } | null => {
+  let values: any[];
+  try {
+    values = queryJsonPath(asTraversable(root), entry.path);
+  } catch {
+    return null;
+  }
+  if (values.length !== 1) {
+    return null;
+  }
+
+  return entry.path_nested
+    ? resolveEntry(values[0], entry.path_nested)
+    : { value: asTraversable(values[0]), format: entry.format };
+};
+
+const evaluateField = (
+  descriptor: InputDescriptor,
+  field: PresentationDefinitionField,
+  credential: any
+): PresentationExchangeError | null => {
+  // The first path that resolves to anything is the one evaluated
+  let values: any[] = [];
+  for (const path of field.path) {
+    values = queryJsonPath(credential, path);
+    if (values.length > 0) {
+      break;
+    }
+  }
+
+  const context = { descriptorId: descriptor.id, field: field.id || field.path[0] };
+  // Predicate fields may be answered with a range proof, which the constraint evaluator checks
+  if (values.length === 0) {
+    return field.optional || field.predicate ? null : peError('FIELD_NOT_FOUND', `No value found for ${context.field}`, context);
+  }
+  if (field.filter && !values.some(value => matchesFilter(value, field.filter!))) {
+    return peError('FIELD_FILTER_FAILED', `Value of ${context.field} does not satisfy its filter`, context);
+  }
+  return null;
+};
+
+const isRequirementSatisfied = (
+  requirement: SubmissionRequirement,
+  descriptors: InputDescriptor[],
+  satisfiedIds: Set<string>
+): boolean => {
+  let total: number;
+  let satisfied: number;
+  if (requirement.from_nested) {
+    total = requirement.from_nested.length;
+    satisfied = requirement.from_nested.filter(nested => isRequirementSatisfied(nested, descriptors, satisfiedIds)).length;
+  } else {
+    const members = descriptors.filter(descriptor => descriptor.group?.includes(requirement.from!));
+    total = members.length;
+    satisfied = members.filter(descriptor => satisfiedIds.has(descriptor.id)).length;
+  }
+
+  if (requirement.rule === 'all') {
+    return total > 0 && satisfied === total;
+  }
+  if (requirement.count !== undefined) {
+    return satisfied >= requirement.count;
+  }
+  return satisfied >= (requirement.min ?? 1) && (requirement.max === undefined || satisfied <= requirement.max);
+};
+
+// Check a presentation_submission against the definition and the submitted vp_token
+export const evaluatePresentationSubmission = (
+  definition: PresentationDefinition,
+  submission: any,
+  vpToken: any
+): PresentationSubmissionEvaluation => {
+  if (!submission || typeof submission !== 'object' || !Array.isArray(submission.descriptor_map)) {
+    return {
+      satisfied: false,
+      matches: {},
+      errors: [peError('INVALID_SUBMISSION', 'presentation_submission with a descriptor_map is required')]
+    };
+  }
+  if (submission.definition_id !== definition.id) {
+    return {
+      satisfied: false,
+      matches: {},
+      errors: [peError('DEFINITION_MISMATCH', 'presentation_submission does not answer this presentation definition', {
+        definitionId: definition.id,
+        submittedDefinitionId: submission.definition_id
+      })]
+    };
+  }
+
+  const errors: PresentationExchangeError[] = [];
+  const matches: Record<string, any> = {};
+  const descriptors = new Map(definition.input_descriptors.map(descriptor => [descriptor.id, descriptor]));
+
+  submission.descriptor_map.forEach((entry: DescriptorMapEntry) => {
+    const descriptor = descriptors.get(entry?.id);
+    if (!descriptor) {
+      errors.push(peError('UNKNOWN_INPUT_DESCRIPTOR', `Submission references unknown input descriptor: ${entry?.id}`));
+      return;
+    }
+
+    const resolved = typeof entry.path === 'string' ? resolveEntry(vpToken, entry) : null;
+    if (!resolved) {
+      errors.push(peError('PATH_NOT_RESOLVED', `Descriptor map path for ${entry.id} does not select one credential`, {
+        descriptorId: entry.id
+      }));
+      return;
+    }
+
+    const acceptedFormats = descriptor.format || definition.format;
+    if (acceptedFormats && !(resolved.format in acceptedFormats)) {
+      errors.push(peError('FORMAT_NOT_ACCEPTED', `Format ${resolved.format} is not accepted for ${entry.id}`, {
+        descriptorId: entry.id,
+        accepted: Object.keys(acceptedFormats)
+      }));
+      return;
+    }
+
+    const fieldErrors = (descriptor.constraints?.fields || [])
+      .map(field => evaluateField(descriptor, field, resolved.value))
+      .filter((error): error is PresentationExchangeError => error !== null);
+    if (fieldErrors.length > 0) {
+      errors.push(...fieldErrors);
+      return;
+    }
+
+    matches[descriptor.id] = resolved.value;
+  });
+
+  const satisfiedIds = new Set(Object.keys(matches));
+  let satisfied: boolean;
+  if (definition.submission_requirements?.length) {
+    const unmet = definition.submission_requirements
+      .filter(requirement => !isRequirementSatisfied(requirement, definition.input_descriptors, satisfiedIds));
+    unmet.forEach(requirement => errors.push(peError(
+      'SUBMISSION_REQUIREMENT_NOT_MET',
+      `Submission requirement not met: ${requirement.name || requirement.from || 'nested requirement'}`,
+      { rule: requirement.rule, from: requirement.from }
+    )));
+    satisfied = unmet.length === 0;
+  } else {
+    const missing = definition.input_descriptors.filter(descriptor => !satisfiedIds.has(descriptor.id));
+    missing
+      .filter(descriptor => !errors.some(error => error.context?.descriptorId === descriptor.id))
+      .forEach(descriptor => errors.push(peError(
+        'INPUT_DESCRIPTOR_NOT_SATISFIED',
+        `No submitted credential satisfies ${descriptor.id}`,
+        { descriptorId: descriptor.id }
+      )));
+    satisfied = missing.length === 0;
+  }
+
+  return { satisfied, matches, errors };
+};
+
+// JSON Schema filter equivalent to an attribute constraint; date bounds stay with the constraint evaluator
+const constraintFilter = (constraint: AttributeConstraint): Record<string, any> | undefined => {
+  const filter: Record<string, any> = {};
+  if (constraint.expectedValue !== undefined) {
+    filter.const = constraint.expectedValue;
+  }
+  if (constraint.allowedValues) {
+    filter.enum = constraint.allowedValues;
+  }
+  if (constraint.minValue !== undefined) {
+    filter.minimum = constraint.minValue;
+  }
+  if (constraint.maxValue !== undefined) {
+    filter.maximum = constraint.maxValue;
+  }
+  if (constraint.pattern !== undefined) {
+    filter.pattern = constraint.pattern;
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+// Definition equivalent to flat endpoint requirements: one input descriptor per credential type,
+// each listing the endpoint's attributes (optional when several credential types could carry them).
+// SD-JWT VCs carry their type in `vct` and their disclosed claims at the top level.
+export const requirementsToPresentationDefinition = (
+  endpoint: string,
+  requirements: EndpointRequirement
+): PresentationDefinition => {
+  const attributesOptional = requirements.credentialTypes.length > 1;
+
+  return {
+    id: `endpoint${endpoint.replace(/\//g, ':')}`,
+    purpose: `Access to ${endpoint} endpoint`,
+    format: DEFAULT_CREDENTIAL_FORMATS,
+    input_descriptors: requirements.credentialTypes.map(credentialType => ({
+      id: credentialType,
+      name: credentialType,
+      constraints: {
+        fields: [
+          {
+            path: ['$.type', '$.vc.type', '$.vct'],
+            filter: {
+              anyOf: [
+                { type: 'array', contains: { const: credentialType } },
+                { type: 'string', const: credentialType }
+              ]
+            }
+          },
+          ...requirements.attributeConstraints.map(constraint => {
+            const filter = constraintFilter(constraint);
+            return {
+              id: constraint.name,
+              path: [
+                `$.credentialSubject.${constraint.name}`,
+                `$.vc.credentialSubject.${constraint.name}`,
+                `$.${constraint.name}`
+              ],
+              ...(filter ? { filter } : {}),
+              ...(constraint.mode === 'predicate' ? { predicate: 'preferred' as const } : {}),
+              optional: !constraint.required || attributesOptional
+            };
+          })
+        ]
+      }
+    }))
+  };
+};
+
+// The endpoint's configured definition, or one generated from its flat requirements
+export const getPresentationDefinition = (endpoint: string, requirements: EndpointRequirement): PresentationDefinition => {
+  if (!requirements.presentationDefinition) {
+    return requirementsToPresentationDefinition(endpoint, requirements);
+  }
+
+  const problems = validatePresentationDefinition(requirements.presentationDefinition);
+  if (problems.length > 0) {
+    throw new ServiceError('Endpoint presentation definition is invalid', 500, 'INVALID_PRESENTATION_DEFINITION', {
+      endpoint,
+      problems
+    });
+  }
+  return requirements.presentationDefinition;
+};
+
+export default {
+  matchesFilter,
+  validatePresentationDefinition,
+  evaluatePresentationSubmission,
+  requirementsToPresentationDefinition,
+  getPresentationDefinition
+};
@@ -0,0 +1,177 @@
+// SD-JWT (selective disclosure JWT) parsing and disclosure reconstruction:
+// `<issuer-signed JWT>~<disclosure>~...~<key binding JWT>`, where the key binding JWT is optional
+
+import crypto from 'crypto';
+import { decodeJws, type DecodedJws } from './jws';
+import { base64UrlDecode } from './encoding';
+
+export const SD_JWT_VC_TYPES = ['vc+sd-jwt', 'dc+sd-jwt'];
+export const KEY_BINDING_JWT_TYPE = 'kb+jwt';
+
+// Registered JWT and SD-JWT VC claims that are not credential attributes
+export const SD_JWT_REGISTERED_CLAIMS = ['iss', 'sub', 'aud', 'iat', 'nbf', 'exp', 'jti', 'vct', 'cnf', 'status', '_sd_alg'];
+
+export interface SdJwtDisclosure {
+  encoded: string;
+  digest: string;
+  salt: string;
+  name?: string; // absent for array element disclosures
+  value: any;
+}
+
+export interface ParsedSdJwt {
+  issuerJwt: DecodedJws;
+  disclosures: SdJwtDisclosure[];
+  keyBindingJwt: DecodedJws | null;
+  sdHashInput: string; // everything up to and including the last `~`, hashed into the KB-JWT's sd_hash
+}
+
+// Only sha-256 is mandatory to implement, so it is the only digest we accept
+const DIGEST_ALGORITHMS: Record<string, string> = { 'sha-256': 'sha256' };
+
+export const hashSdJwtValue = (value: string, sdAlg: string = 'sha-256'): string => {
+  const algorithm = DIGEST_ALGORITHMS[sdAlg];
+  if (!algorithm) {
+    throw new Error(`Unsupported _sd_alg: ${sdAlg}`);
+  }
+  return crypto.createHash(algorithm).update(value).digest('base64url');
+};
+
+// Compact SD-JWTs always contain a `~` after the issuer-signed JWT
+export const isSdJwt = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.includes('~')) {
+    return false;
+  }
+  return value.slice(0, value.indexOf('~')).split('.').length === 3;
+};
+
+const parseDisclosure = (encoded: string, sdAlg: string): SdJwtDisclosure => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(base64UrlDecode(encoded).toString('utf8'));
+  } catch {
+    throw new Error('Disclosure is not base64url-encoded JSON');
+  }
+
+  if (!Array.isArray(decoded) || (decoded.length !== 2 && decoded.length !== 3) || typeof decoded[0] !== 'string') {
+    throw new Error('Disclosure must be a [salt, name, value] or [salt, value] array');
+  }
+  if (decoded.length === 3 && (typeof decoded[1] !== 'string' || decoded[1] === '_sd' || decoded[1] === '...')) {
+    throw new Error('Disclosure claim name is invalid');
+  }
+
+  const digest = hashSdJwtValue(encoded, sdAlg);
+  return decoded.length === 3
+    ? { encoded, digest, salt: decoded[0], name: decoded[1], value: decoded[2] }
+    : { encoded, digest, salt: decoded[0], value: decoded[1] };
+};
+
+// Split and decode an SD-JWT without verifying any signature; throws if it is malformed
+export const parseSdJwt = (token: string): ParsedSdJwt => {
+  if (!isSdJwt(token)) {
+    throw new Error('SD-JWT must be an issuer-signed JWT followed by ~-separated disclosures');
+  }
+
+  const parts = token.split('~');
+  const keyBinding = parts.pop() as string;
+  const [issuerJwt, ...encodedDisclosures] = parts;
+  if (encodedDisclosures.some(disclosure => !disclosure)) {
+    throw new Error('SD-JWT contains an empty disclosure');
+  }
+
+  const decodedIssuerJwt = decodeJws(issuerJwt);
+  const sdAlg = decodedIssuerJwt.payload._sd_alg || 'sha-256';
+
+  return {
+    issuerJwt: decodedIssuerJwt,
+    disclosures: encodedDisclosures.map(disclosure => parseDisclosure(disclosure, sdAlg)),
+    keyBindingJwt: keyBinding ? decodeJws(keyBinding) : null,
+    sdHashInput: token.slice(0, token.length - keyBinding.length)
+  };
+};
+
+// Replace `_sd` digests and `{ "...": digest }` array entries with their disclosed claims.
+// Undisclosed digests are dropped; every disclosure must be referenced exactly once.
+export const reconstructClaims = (
+  payload: Record<string, any>,
+  disclosures: SdJwtDisclosure[]
+): Record<string, any> => {
+  const byDigest = new Map(disclosures.map(disclosure => [disclosure.digest, disclosure]));
+  if (byDigest.size !== disclosures.length) {
+    throw new Error('SD-JWT contains duplicate disclosures');
+  }
+  const used = new Set<string>();
+
+  const take = (digest: unknown, kind: 'property' | 'element'): SdJwtDisclosure | undefined => {
+    if (typeof digest !== 'string') {
+      throw new Error('Disclosure digests must be strings');
+    }
+    if (used.has(digest)) {
+      throw new Error('Disclosure digest is referenced more than once');
+    }
+    const disclosure = byDigest.get(digest);
+    if (!disclosure) {
+      return undefined;
+    }
+    if ((kind === 'property') !== (disclosure.name !== undefined)) {
+      throw new Error(`Disclosure does not match the ${kind} it is referenced from`);
+    }
+    used.add(digest);
+    return disclosure;
+  };
+
+  const visit = (node: any): any => {
+    if (Array.isArray(node)) {
+      return node.flatMap(element => {
+        const isDigest = element && typeof element === 'object' && !Array.isArray(element)
+          && Object.keys(element).length === 1 && '...' in element;
+        if (!isDigest) {
+          return [visit(element)];
+        }
+        const disclosure = take(element['...'], 'element');
+        return disclosure ? [visit(disclosure.value)] : [];
+      });
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const claims: Record<string, any> = {};
+    Object.entries(node).forEach(([name, value]) => {
+      if (name !== '_sd' && name !== '_sd_alg') {
+        claims[name] = visit(value);
+      }
+    });
+    for (const digest of Array.isArray(node._sd) ? node._sd : []) {
+      const disclosure = take(digest, 'property');
+      if (!disclosure) {
+        continue;
+      }
+      if (Object.prototype.hasOwnProperty.call(claims, disclosure.name)) {
+        throw new Error(`Disclosed claim overwrites an existing claim: ${disclosure.name}`);
+      }
+      claims[disclosure.name as string] = visit(disclosure.value);
+    }
+    return claims;
+  };
+
+  const claims = visit(payload);
+  if (used.size !== byDigest.size) {
+    throw new Error('SD-JWT contains disclosures that are not referenced by the issuer-signed JWT');
+  }
+  return claims;
+};
+
+// Disclosed claims of an SD-JWT, without signature or key binding checks
+export const decodeSdJwt = (token: string): Record<string, any> => {
+  const { issuerJwt, disclosures } = parseSdJwt(token);
+  return reconstructClaims(issuerJwt.payload, disclosures);
+};
+
+export default {
+  isSdJwt,
+  parseSdJwt,
+  reconstructClaims,
+  decodeSdJwt,
+  hashSdJwtValue
+};
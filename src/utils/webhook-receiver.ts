@@ -0,0 +1,96 @@
+/**
+ * Minimal local HTTP receiver for webhook deliveries, for tests and local development
+ * Records every request, checks its signature against the subscription secret and answers with a configurable status
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { WebhookEvent } from '../models/types';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '../services/webhooks';
+
+export interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  event: WebhookEvent | null;
+  signatureValid: boolean | null; // null when the receiver has no secret
+  receivedAt: number;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  secret?: string;
+  // Status returned to subsequent deliveries (e.g. 500 to exercise retries)
+  respondWith(status: number): void;
+  waitForDeliveries(count: number, timeoutMs?: number): Promise<ReceivedWebhook[]>;
+  close(): Promise<void>;
+}
+
+export const startWebhookReceiver = async (
+  options: { secret?: string; port?: number; path?: string } = {}
+): Promise<WebhookReceiver> => {
+  const received: ReceivedWebhook[] = [];
+  const waiters: Array<() => void> = [];
+  let status = 200;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      let event: WebhookEvent | null = null;
+      try {
+        event = JSON.parse(body);
+      } catch {
+        event = null;
+      }
+
+      const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+      received.push({
+        headers: req.headers,
+        body,
+        event,
+        signatureValid: options.secret
+          ? verifyWebhookSignature(options.secret, Array.isArray(signature) ? signature[0] : signature, body)
+          : null,
+        receivedAt: Date.now()
+      });
+      waiters.splice(0).forEach(wake => wake());
+
+      res.statusCode = status;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}${options.path || '/webhooks'}`,
+    received,
+    secret: options.secret,
+    respondWith: (nextStatus: number) => {
+      status = nextStatus;
+    },
+    waitForDeliveries: (count: number, timeoutMs: number = 5000) => new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`Expected ${count} webhook deliveries, received ${received.length}`));
+      }, timeoutMs);
+      const check = () => {
+        if (received.length >= count) {
+          clearTimeout(timeout);
+          resolve(received.slice(0, count));
+        } else {
+          waiters.push(check);
+        }
+      };
+      check();
+    }),
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+};
+
+export default startWebhookReceiver;
@@ -0,0 +1,55 @@
+/**
+ * Redis pub/sub adapter so room broadcasts and socket queries span every service instance
+ * When Redis is unreachable the server keeps Socket.IO's in-memory adapter (single-node behaviour)
+ */
+
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type { Server as SocketIOServer } from 'socket.io';
+import { config } from '../config';
+import logger from '../utils/logger';
+
+// Closes the pub/sub connections
+export type RedisAdapterCloser = () => Promise<void>;
+
+const createClient = (): Redis => {
+  return new Redis(config.redis.url, {
+    password: config.redis.password,
+    db: config.redis.db,
+    maxRetriesPerRequest: 3,
+    lazyConnect: true
+  });
+};
+
+// Install the Redis adapter on the server; returns null (leaving the in-memory adapter) if Redis can't be reached
+export const attachRedisAdapter = async (
+  io: SocketIOServer,
+  key: string = 'socket.io'
+): Promise<RedisAdapterCloser | null> => {
+  const pubClient = createClient();
+  const subClient = pubClient.duplicate();
+
+  try {
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+  } catch (error) {
+    logger.warn('Redis unavailable for the WebSocket adapter, rooms stay local to this instance', {
+      error: error instanceof Error ? error.message : error
+    });
+    pubClient.disconnect();
+    subClient.disconnect();
+    return null;
+  }
+
+  [pubClient, subClient].forEach(client => client.on('error', (error) => {
+    logger.error('WebSocket adapter Redis error', { error: error.message });
+  }));
+
+  io.adapter(createAdapter(pubClient, subClient, { key }));
+  logger.info('WebSocket Redis adapter attached', { key });
+
+  return async () => {
+    await Promise.all([pubClient.quit(), subClient.quit()]);
+  };
+};
+
+export default attachRedisAdapter;
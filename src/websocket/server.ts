@@ -1,23 +1,56 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, type Socket } from 'socket.io';
 import type { Server as HTTPServer } from 'http';
 import type ServiceProviderService from '../services/service-provider.service';
 import type CacheService from '../services/cache.service';
+import RevocationMonitor, { type CredentialStatusChange } from '../services/revocation-monitor';
+import type { RevocationNotice } from '../services/revocation-notices';
+import type BatchJobQueue from '../services/batch-jobs';
+import StatusEventBus, { type StatusEvent } from '../services/status-events';
+import attachRedisAdapter, { type RedisAdapterCloser } from './redis-adapter';
+import type { BatchJobProgress } from '../models/types';
 import { config } from '../config';
 import logger from '../utils/logger';
+import { isServiceError } from '../utils/errors';
+
+// Error codes sent with handshake rejections (`connect_error`) and refused subscriptions (`error`)
+export const WS_ERROR_CODES = {
+  AUTHENTICATION_REQUIRED: 'AUTHENTICATION_REQUIRED',
+  INVALID_SESSION: 'INVALID_SESSION',
+  SUBSCRIPTION_FORBIDDEN: 'SUBSCRIPTION_FORBIDDEN'
+} as const;
+
+// The session a socket authenticated with in its handshake
+export interface SocketIdentity {
+  sessionId: string;
+  holderDID: string;
+  expiresAt: Date;
+}
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const PERIODIC_CHECK_REASON = 'Periodic revocation check';
 
 export class WebSocketServer {
   private io: SocketIOServer;
   private serviceProvider: ServiceProviderService;
   private cacheService: CacheService;
-  private revocationCheckInterval: NodeJS.Timeout | null = null;
+  private revocationMonitor: RevocationMonitor;
+  private statusEvents: StatusEventBus;
+  private batchJobs: BatchJobQueue | null;
+  private closeRedisAdapter: RedisAdapterCloser | null = null;
 
   constructor(
     httpServer: HTTPServer,
     serviceProvider: ServiceProviderService,
-    cacheService: CacheService
+    cacheService: CacheService,
+    statusEvents: StatusEventBus = new StatusEventBus(),
+    batchJobs: BatchJobQueue | null = null
   ) {
     this.serviceProvider = serviceProvider;
     this.cacheService = cacheService;
+    this.statusEvents = statusEvents;
+    this.batchJobs = batchJobs;
 
     this.io = new SocketIOServer(httpServer, {
       cors: {
@@ -29,7 +62,19 @@ export class WebSocketServer {
       pingInterval: 25000
     });
 
+    this.revocationMonitor = new RevocationMonitor(
+      serviceProvider,
+      cacheService,
+      () => this.getSubscribedCredentialIds(),
+      {
+        intervalMs: config.revocation.monitorIntervalMs,
+        batchSize: config.revocation.monitorBatchSize
+      }
+    );
+
+    this.setupAuthentication();
     this.setupEventHandlers();
+    this.statusEvents.on('event', (event: StatusEvent) => this.relayStatusEvent(event));
     this.startRevocationMonitoring();
 
     logger.info('WebSocket server initialized', {
@@ -37,11 +82,84 @@ export class WebSocketServer {
     });
   }
 
+  // Share rooms with other instances through Redis; call before the HTTP server starts listening
+  public async enableRedisAdapter(): Promise<boolean> {
+    if (!this.closeRedisAdapter) {
+      this.closeRedisAdapter = await attachRedisAdapter(this.io, config.websocket.adapterKey);
+    }
+    return this.closeRedisAdapter !== null;
+  }
+
+  // Require a session bearer token in the handshake (`auth.token` or an Authorization header)
+  private setupAuthentication(): void {
+    this.io.use(async (socket, next) => {
+      const sessionId = this.getHandshakeToken(socket);
+      if (!sessionId) {
+        next(this.createConnectionError(
+          'WebSocket connections require a session bearer token',
+          WS_ERROR_CODES.AUTHENTICATION_REQUIRED
+        ));
+        return;
+      }
+
+      try {
+        const session = await this.serviceProvider.validateSession(sessionId)
+          ? await this.serviceProvider.getSession(sessionId)
+          : null;
+        if (!session) {
+          next(this.createConnectionError('Session is invalid or expired', WS_ERROR_CODES.INVALID_SESSION));
+          return;
+        }
+
+        await this.serviceProvider.checkSessionCredentials(session);
+
+        const identity: SocketIdentity = {
+          sessionId: session.id,
+          holderDID: session.holderDID,
+          expiresAt: session.expiresAt
+        };
+        socket.data.identity = identity;
+        next();
+      } catch (error) {
+        logger.warn('WebSocket authentication failed', {
+          socketId: socket.id,
+          remoteAddress: socket.handshake.address,
+          error: error instanceof Error ? error.message : error
+        });
+
+        next(isServiceError(error)
+          ? this.createConnectionError(error.message, error.code)
+          : this.createConnectionError('Session could not be verified', WS_ERROR_CODES.INVALID_SESSION));
+      }
+    });
+  }
+
+  private getHandshakeToken(socket: Socket): string | undefined {
+    const token = socket.handshake.auth?.token;
+    if (typeof token === 'string' && token) {
+      return token.replace(/^Bearer\s+/, '');
+    }
+    return socket.handshake.headers.authorization?.match(/^Bearer\s+(.+)$/)?.[1];
+  }
+
+  // Socket.IO hands `data` to the client's connect_error listener
+  private createConnectionError(message: string, code: string): Error {
+    return Object.assign(new Error(message), { data: { code } });
+  }
+
   private setupEventHandlers(): void {
     this.io.on('connection', (socket) => {
+      const identity: SocketIdentity = socket.data.identity;
+
+      // Bound to its session so it can be dropped when the session ends
+      socket.join(`auth:${identity.sessionId}`);
+      this.scheduleSessionExpiry(socket);
+
       logger.info('WebSocket client connected', {
         socketId: socket.id,
-        remoteAddress: socket.handshake.address
+        remoteAddress: socket.handshake.address,
+        holderDID: identity.holderDID,
+        sessionId: identity.sessionId
       });
 
       // Subscribe to credential status updates
@@ -55,6 +173,12 @@ export class WebSocketServer {
             return;
           }
 
+          const { credentialIds } = await this.serviceProvider.getHolderScope(identity.holderDID);
+          if (!credentialIds.has(credentialId)) {
+            this.rejectSubscription(socket, 'Credential does not belong to this holder', { credentialId });
+            return;
+          }
+
           socket.join(`credential:${credentialId}`);
           
           // Send current revocation status
@@ -99,6 +223,12 @@ export class WebSocketServer {
             return;
           }
 
+          const { issuerDIDs } = await this.serviceProvider.getHolderScope(identity.holderDID);
+          if (!issuerDIDs.has(issuerDID)) {
+            this.rejectSubscription(socket, 'Holder has no credential from this issuer', { issuerDID });
+            return;
+          }
+
           socket.join(`issuer:${issuerDID}`);
 
           logger.debug('Client subscribed to issuer', {
@@ -136,24 +266,19 @@ export class WebSocketServer {
             return;
           }
 
-          // Verify session exists and is valid
-          const isValid = await this.serviceProvider.validateSession(sessionId);
-          if (!isValid) {
-            socket.emit('error', {
-              message: 'Session not found or expired',
-              code: 'SESSION_NOT_FOUND',
-              sessionId
-            });
+          // Read without recording an access, and answer missing and foreign sessions alike so
+          // subscribers can't probe which session IDs exist
+          const session = await this.serviceProvider.getSession(sessionId);
+          if (!session || session.holderDID !== identity.holderDID) {
+            this.rejectSubscription(socket, 'Session not found or not owned by this holder', { sessionId });
             return;
           }
 
           socket.join(`session:${sessionId}`);
-
-          const session = await this.serviceProvider.getSession(sessionId);
           socket.emit('session:status', {
             sessionId,
             isValid: true,
-            expiresAt: session?.expiresAt,
+            expiresAt: session.expiresAt,
             timestamp: Date.now()
           });
 
@@ -176,6 +301,49 @@ export class WebSocketServer {
         }
       });
 
+      // Subscribe to progress of an async batch verification job the holder submitted
+      socket.on('subscribe:batch', async (batchId: string) => {
+        try {
+          if (!batchId || typeof batchId !== 'string') {
+            socket.emit('error', {
+              message: 'Invalid batch ID',
+              code: 'INVALID_BATCH_ID'
+            });
+            return;
+          }
+
+          const job = this.batchJobs ? await this.batchJobs.getJob(batchId) : null;
+          if (!job || job.submittedBy !== identity.holderDID) {
+            this.rejectSubscription(socket, 'Batch job was not submitted by this holder', { batchId });
+            return;
+          }
+
+          socket.join(`batch:${batchId}`);
+
+          logger.debug('Client subscribed to batch', {
+            socketId: socket.id,
+            batchId
+          });
+
+          socket.emit('batch:subscribed', {
+            batchId,
+            timestamp: Date.now()
+          });
+        } catch (error) {
+          logger.error('Failed to subscribe to batch', {
+            socketId: socket.id,
+            batchId,
+            error: error instanceof Error ? error.message : error
+          });
+
+          socket.emit('error', {
+            message: 'Failed to subscribe to batch',
+            code: 'BATCH_SUBSCRIPTION_FAILED',
+            batchId
+          });
+        }
+      });
+
       // Unsubscribe handlers
       socket.on('unsubscribe:credential', (credentialId: string) => {
         socket.leave(`credential:${credentialId}`);
@@ -201,6 +369,14 @@ export class WebSocketServer {
         });
       });
 
+      socket.on('unsubscribe:batch', (batchId: string) => {
+        socket.leave(`batch:${batchId}`);
+        logger.debug('Client unsubscribed from batch', {
+          socketId: socket.id,
+          batchId
+        });
+      });
+
       // Handle ping/pong for connection health
       socket.on('ping', () => {
         socket.emit('pong', { timestamp: Date.now() });
@@ -208,6 +384,7 @@ export class WebSocketServer {
 
       // Handle disconnection
       socket.on('disconnect', (reason) => {
+        clearTimeout(socket.data.expiryTimer);
         logger.info('WebSocket client disconnected', {
           socketId: socket.id,
           reason
@@ -232,113 +409,151 @@ export class WebSocketServer {
     });
   }
 
-  private startRevocationMonitoring(): void {
-    // Check for revocation updates every 30 seconds
-    this.revocationCheckInterval = setInterval(async () => {
+  private rejectSubscription(socket: Socket, message: string, context: Record<string, string>): void {
+    logger.warn('WebSocket subscription rejected', {
+      socketId: socket.id,
+      holderDID: socket.data.identity.holderDID,
+      ...context
+    });
+
+    socket.emit('error', {
+      message,
+      code: WS_ERROR_CODES.SUBSCRIPTION_FORBIDDEN,
+      ...context
+    });
+  }
+
+  // Re-check the socket's session when it is due to expire; extended sessions are rescheduled
+  private scheduleSessionExpiry(socket: Socket): void {
+    const identity: SocketIdentity = socket.data.identity;
+    const delay = Math.min(Math.max(new Date(identity.expiresAt).getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS);
+
+    socket.data.expiryTimer = setTimeout(async () => {
       try {
-        await this.checkForRevocationUpdates();
+        const session = await this.serviceProvider.validateSession(identity.sessionId)
+          ? await this.serviceProvider.getSession(identity.sessionId)
+          : null;
+
+        if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+          if (socket.connected) {
+            identity.expiresAt = session.expiresAt;
+            this.scheduleSessionExpiry(socket);
+          }
+          return;
+        }
+
+        this.notifySessionExpired(identity.sessionId);
       } catch (error) {
-        logger.error('Revocation monitoring error', {
+        logger.error('Failed to check WebSocket session expiry', {
+          socketId: socket.id,
+          sessionId: identity.sessionId,
           error: error instanceof Error ? error.message : error
         });
       }
-    }, 30000);
-
-    logger.info('Revocation monitoring started');
+    }, delay);
+    socket.data.expiryTimer.unref();
   }
 
-  private async checkForRevocationUpdates(): Promise<void> {
-    // In a real implementation, you would:
-    // 1. Query the latest revocation lists from trusted issuers
-    // 2. Compare with cached versions
-    // 3. Identify newly revoked credentials
-    // 4. Notify subscribed clients
-
-    // For this example, we'll simulate checking a few credentials
-    const sampleCredentialIds = await this.getSampleCredentialIds();
-    
-    if (sampleCredentialIds.length === 0) {
-      return;
+  // Deliver a bus event to the room of the same name. A distributed bus hands every event to every instance,
+  // so each one only reaches its own sockets rather than broadcasting through the adapter again
+  private relayStatusEvent(event: StatusEvent): void {
+    const target = this.statusEvents.isDistributed ? this.io.local : this.io;
+    if (event.event === 'session:status' && !event.data.isValid) {
+      const sessionId = event.data.sessionId;
+      target.to(event.channel).to(`auth:${sessionId}`).emit(event.event, event.data);
+
+      // Sockets authenticated with the session go away with it
+      target.in(`auth:${sessionId}`).disconnectSockets(true);
+    } else {
+      target.to(event.channel).emit(event.event, event.data);
     }
 
-    try {
-      const revocationResults = await this.serviceProvider.batchCheckRevocations(sampleCredentialIds);
-      
-      revocationResults.forEach((isRevoked, credentialId) => {
-        if (isRevoked) {
-          // Notify all clients subscribed to this credential
-          this.io.to(`credential:${credentialId}`).emit('credential:status', {
-            credentialId,
-            isRevoked: true,
-            status: 'revoked',
-            timestamp: Date.now(),
-            reason: 'Periodic revocation check'
-          });
+    // Revocations pushed through other channels shouldn't be reported again by the next monitoring pass
+    if (event.event === 'credential:status' && event.data.isRevoked && event.data.reason !== PERIODIC_CHECK_REASON) {
+      this.revocationMonitor.recordRevoked([event.data.credentialId]).catch(error => {
+        logger.error('Failed to record pushed revocation', {
+          credentialId: event.data.credentialId,
+          error: error instanceof Error ? error.message : error
+        });
+      });
+    }
 
-          logger.info('Revocation notification sent', {
-            credentialId,
-            subscriberCount: this.io.sockets.adapter.rooms.get(`credential:${credentialId}`)?.size || 0
-          });
-        }
+    logger.debug('Status event relayed', {
+      event: event.event,
+      channel: event.channel,
+      subscribers: this.io.sockets.adapter.rooms.get(event.channel)?.size || 0
+    });
+  }
+
+  private startRevocationMonitoring(): void {
+    this.revocationMonitor.on('change', (change: CredentialStatusChange) => {
+      this.statusEvents.publish('credential', change.credentialId, 'credential:status', {
+        credentialId: change.credentialId,
+        isRevoked: change.isRevoked,
+        status: change.status,
+        previousStatus: change.previousStatus,
+        timestamp: change.timestamp,
+        reason: PERIODIC_CHECK_REASON
       });
-    } catch (error) {
-      logger.error('Failed to check revocation updates', {
-        credentialIds: sampleCredentialIds,
-        error: error instanceof Error ? error.message : error
+
+      logger.info('Revocation status change notification sent', {
+        credentialId: change.credentialId,
+        status: change.status
       });
-    }
+    });
+
+    this.revocationMonitor.start();
   }
 
-  private async getSampleCredentialIds(): Promise<string[]> {
-    // In a real implementation, you would get this from:
-    // 1. Active session credentials
-    // 2. Recently verified credentials
-    // 3. Subscribed credentials from cache
-    
-    // For this example, return empty array (no periodic checks)
-    return [];
+  // Credentials followed through a credential:* room or an SSE stream
+  private getSubscribedCredentialIds(): string[] {
+    const roomCredentialIds = Array.from(this.io.sockets.adapter.rooms.keys())
+      .filter(room => room.startsWith('credential:'))
+      .map(room => room.slice('credential:'.length));
+    return Array.from(new Set([...roomCredentialIds, ...this.statusEvents.getSubscribedKeys('credential')]));
   }
 
   // Public methods for manual notification triggers
 
-  public notifyCredentialRevoked(credentialId: string, issuerDID?: string): void {
-    // Notify credential subscribers
-    this.io.to(`credential:${credentialId}`).emit('credential:status', {
-      credentialId,
-      isRevoked: true,
-      status: 'revoked',
-      timestamp: Date.now(),
-      reason: 'Manual revocation notification'
-    });
+  public notifyCredentialRevoked(
+    credentialId: string,
+    issuerDID?: string,
+    reason: string = 'Manual revocation notification'
+  ): void {
+    this.statusEvents.credentialRevoked(credentialId, issuerDID, reason);
 
-    // Notify issuer subscribers if issuerDID provided
-    if (issuerDID) {
-      this.io.to(`issuer:${issuerDID}`).emit('issuer:revocation', {
-        issuerDID,
-        credentialId,
-        timestamp: Date.now()
-      });
-    }
-
-    logger.info('Manual revocation notification sent', {
+    logger.info('Revocation notification sent', {
       credentialId,
       issuerDID,
+      reason,
       credentialSubscribers: this.io.sockets.adapter.rooms.get(`credential:${credentialId}`)?.size || 0,
       issuerSubscribers: issuerDID ? this.io.sockets.adapter.rooms.get(`issuer:${issuerDID}`)?.size || 0 : 0
     });
   }
 
+  // Fan out an issuer-pushed revocation notice to credential and issuer subscribers
+  public notifyRevocationNotice(notice: RevocationNotice): void {
+    this.statusEvents.revocationNotice(notice);
+  }
+
   public notifySessionExpired(sessionId: string): void {
-    this.io.to(`session:${sessionId}`).emit('session:status', {
-      sessionId,
-      isValid: false,
-      status: 'expired',
-      timestamp: Date.now()
-    });
+    this.statusEvents.sessionExpired(sessionId);
 
     logger.info('Session expiration notification sent', {
       sessionId,
-      subscribers: this.io.sockets.adapter.rooms.get(`session:${sessionId}`)?.size || 0
+      subscribers: this.io.sockets.adapter.rooms.get(`session:${sessionId}`)?.size || 0,
+      boundSockets: this.io.sockets.adapter.rooms.get(`auth:${sessionId}`)?.size || 0
+    });
+  }
+
+  public notifyBatchProgress(progress: BatchJobProgress): void {
+    this.io.to(`batch:${progress.batchId}`).emit('batch:progress', progress);
+
+    logger.debug('Batch progress notification sent', {
+      batchId: progress.batchId,
+      status: progress.status,
+      processed: progress.processed,
+      subscribers: this.io.sockets.adapter.rooms.get(`batch:${progress.batchId}`)?.size || 0
     });
   }
 
@@ -346,35 +561,53 @@ export class WebSocketServer {
     return this.io.engine.clientsCount;
   }
 
-  public getSubscriptionStats(): Record<string, number> {
-    const rooms = this.io.sockets.adapter.rooms;
+  // Counts rooms across the cluster when the Redis adapter is attached
+  public async getSubscriptionStats(): Promise<Record<string, number>> {
+    let rooms: Set<string>;
+    let totalConnections: number;
+    try {
+      const sockets = await this.io.fetchSockets();
+      rooms = new Set(sockets.flatMap(socket => Array.from(socket.rooms)));
+      totalConnections = sockets.length;
+    } catch (error) {
+      logger.warn('Cluster subscription stats unavailable, reporting this instance only', {
+        error: error instanceof Error ? error.message : error
+      });
+      rooms = new Set(this.io.sockets.adapter.rooms.keys());
+      totalConnections = this.io.engine.clientsCount;
+    }
+
     const stats: Record<string, number> = {
       credentialSubscriptions: 0,
       issuerSubscriptions: 0,
       sessionSubscriptions: 0,
-      totalConnections: this.io.engine.clientsCount
+      batchSubscriptions: 0,
+      totalConnections
     };
 
-    rooms.forEach((sockets, room) => {
+    rooms.forEach(room => {
       if (room.startsWith('credential:')) {
         stats.credentialSubscriptions++;
       } else if (room.startsWith('issuer:')) {
         stats.issuerSubscriptions++;
       } else if (room.startsWith('session:')) {
         stats.sessionSubscriptions++;
+      } else if (room.startsWith('batch:')) {
+        stats.batchSubscriptions++;
       }
     });
 
     return stats;
   }
 
-  public shutdown(): void {
-    if (this.revocationCheckInterval) {
-      clearInterval(this.revocationCheckInterval);
-      this.revocationCheckInterval = null;
-    }
+  public async shutdown(): Promise<void> {
+    this.revocationMonitor.stop();
 
     this.io.close();
+    if (this.closeRedisAdapter) {
+      await this.closeRedisAdapter();
+      this.closeRedisAdapter = null;
+    }
     logger.info('WebSocket server shut down');
   }
 }
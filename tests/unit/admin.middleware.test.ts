@@ -0,0 +1,150 @@
+import type { Request, Response, NextFunction } from 'express';
+import AdminMiddleware from '../../src/middleware/admin.middleware';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import { AuthenticationError, AuthorizationError, RevokedCredentialError } from '../../src/utils/errors';
+
+describe('AdminMiddleware', () => {
+  let adminMiddleware: AdminMiddleware;
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.Mock;
+
+  const requestWith = (headers: Record<string, string>): Partial<Request> => ({
+    headers,
+    get: ((name: string) => headers[name.toLowerCase()]) as any,
+    originalUrl: '/admin/test',
+    ip: '127.0.0.1'
+  });
+
+  beforeEach(() => {
+    mockServiceProvider = {
+      validateSession: jest.fn(),
+      getSession: jest.fn(),
+      checkSessionCredentials: jest.fn().mockResolvedValue(undefined)
+    } as any;
+
+    adminMiddleware = new AdminMiddleware(mockServiceProvider, [
+      { key: 'admin-key', role: 'admin' },
+      { key: 'viewer-key', role: 'viewer' },
+      { key: 'bogus-key', role: 'superuser' }
+    ]);
+
+    mockResponse = {};
+    mockNext = jest.fn();
+  });
+
+  describe('authenticate', () => {
+    it('should authenticate API keys with their role', async () => {
+      mockRequest = requestWith({ 'x-api-key': 'viewer-key' });
+
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.admin).toEqual({ id: expect.stringMatching(/^key:/), role: 'viewer', method: 'api-key' });
+    });
+
+    it('should reject unknown API keys and keys with unknown roles', async () => {
+      for (const key of ['wrong-key', 'bogus-key']) {
+        mockNext.mockClear();
+        mockRequest = requestWith({ 'x-api-key': key });
+
+        await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+
+        expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      }
+    });
+
+    it('should authenticate admin sessions from credential presentations', async () => {
+      mockRequest = requestWith({ authorization: 'Bearer session-1' });
+      mockServiceProvider.validateSession.mockResolvedValue(true);
+      mockServiceProvider.getSession.mockResolvedValue({
+        id: 'session-1',
+        holderDID: 'did:key:operator',
+        metadata: { sessionType: 'admin', adminRole: 'operator' }
+      });
+
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.admin).toEqual({
+        id: 'did:key:operator',
+        role: 'operator',
+        method: 'credential',
+        sessionId: 'session-1'
+      });
+    });
+
+    it('should reject holder sessions that were not issued for the admin API', async () => {
+      mockRequest = requestWith({ authorization: 'Bearer session-2' });
+      mockServiceProvider.validateSession.mockResolvedValue(true);
+      mockServiceProvider.getSession.mockResolvedValue({
+        id: 'session-2',
+        holderDID: 'did:key:holder',
+        metadata: { endpoint: '/profile' }
+      });
+
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+
+    it('should reject admin sessions whose credential has been revoked', async () => {
+      mockRequest = requestWith({ authorization: 'Bearer session-3' });
+      mockServiceProvider.validateSession.mockResolvedValue(true);
+      mockServiceProvider.getSession.mockResolvedValue({
+        id: 'session-3',
+        holderDID: 'did:key:operator',
+        credentialIds: ['cred-admin'],
+        metadata: { sessionType: 'admin', adminRole: 'admin' }
+      });
+      mockServiceProvider.checkSessionCredentials.mockRejectedValue(new RevokedCredentialError('cred-admin'));
+
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ code: 'REVOKED_CREDENTIAL' }));
+      expect(mockRequest.admin).toBeUndefined();
+    });
+
+    it('should reject requests without credentials or with expired sessions', async () => {
+      mockRequest = requestWith({});
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.any(AuthenticationError));
+
+      mockRequest = requestWith({ authorization: 'Bearer expired' });
+      mockServiceProvider.validateSession.mockResolvedValue(false);
+      await adminMiddleware.authenticate(mockRequest as Request, mockResponse as Response, mockNext as NextFunction);
+      expect(mockNext).toHaveBeenLastCalledWith(expect.any(AuthenticationError));
+      expect(mockServiceProvider.getSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should allow roles that grant the permission', () => {
+      mockRequest = { admin: { id: 'key:1', role: 'operator', method: 'api-key' }, originalUrl: '/admin/sessions/1' };
+
+      adminMiddleware.requirePermission('sessions:revoke')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should deny roles that lack the permission', () => {
+      mockRequest = { admin: { id: 'key:1', role: 'viewer', method: 'api-key' }, originalUrl: '/admin/issuers' };
+
+      adminMiddleware.requirePermission('issuers:write')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
+        statusCode: 403,
+        context: { role: 'viewer', requiredPermission: 'issuers:write' }
+      }));
+    });
+
+    it('should require authentication first', () => {
+      mockRequest = { originalUrl: '/admin/config' };
+
+      adminMiddleware.requirePermission('config:read')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    });
+  });
+});
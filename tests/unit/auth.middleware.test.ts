@@ -24,6 +24,7 @@ describe('AuthMiddleware', () => {
     mockServiceProvider = {
       validateSession: jest.fn(),
       getSession: jest.fn(),
+      checkSessionCredentials: jest.fn().mockResolvedValue(undefined),
       extendSession: jest.fn()
     } as any;
 
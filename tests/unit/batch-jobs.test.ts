@@ -0,0 +1,138 @@
+import BatchJobQueue from '../../src/services/batch-jobs';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import type CacheService from '../../src/services/cache.service';
+import type { BatchJob, BatchJobProgress } from '../../src/models/types';
+
+// Resolves with the first progress event matching the predicate; register before submitting
+const waitForProgress = (
+  queue: BatchJobQueue,
+  predicate: (progress: BatchJobProgress) => boolean
+): Promise<BatchJobProgress> =>
+  new Promise(resolve => {
+    queue.on('progress', (progress: BatchJobProgress) => {
+      if (predicate(progress)) {
+        resolve(progress);
+      }
+    });
+  });
+
+const HOLDER = 'did:key:holder';
+
+describe('BatchJobQueue', () => {
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let mockCacheService: jest.Mocked<CacheService>;
+  let queue: BatchJobQueue;
+
+  beforeEach(() => {
+    mockServiceProvider = {
+      batchVerifyPresentations: jest.fn().mockImplementation(async (presentations: any[]) => ({
+        total: presentations.length,
+        successful: presentations.filter(p => p.valid).length,
+        failed: presentations.filter(p => !p.valid).length,
+        processingTimeMs: 1,
+        results: presentations.map((p, index) => ({
+          presentationIndex: index,
+          result: { isValid: p.valid },
+          processingTime: 1
+        }))
+      }))
+    } as any;
+
+    mockCacheService = {
+      cacheBatchResult: jest.fn().mockResolvedValue(undefined),
+      getCachedBatchResult: jest.fn().mockResolvedValue(null)
+    } as any;
+
+    queue = new BatchJobQueue(mockServiceProvider, mockCacheService, { chunkSize: 2 });
+  });
+
+  it('should return a queued job immediately', async () => {
+    const job = await queue.submit([{ valid: true }] as any, HOLDER);
+
+    expect(job.batchId).toEqual(expect.any(String));
+    expect(job.status).toBe('queued');
+    expect(job.total).toBe(1);
+    expect(mockCacheService.cacheBatchResult).toHaveBeenCalledWith(job.batchId, expect.any(Object), 1800);
+  });
+
+  it('should verify in chunks and emit progress with partial results', async () => {
+    const progressEvents: BatchJobProgress[] = [];
+    queue.on('progress', (progress: BatchJobProgress) => progressEvents.push(progress));
+
+    const done = waitForProgress(queue, progress => progress.status === 'completed');
+    const presentations = [{ valid: true }, { valid: false }, { valid: true }] as any;
+    const job = await queue.submit(presentations, HOLDER);
+    await done;
+
+    expect(mockServiceProvider.batchVerifyPresentations).toHaveBeenCalledTimes(2);
+    expect(progressEvents[0]).toEqual(expect.objectContaining({ status: 'running', processed: 2 }));
+    expect(progressEvents[1].results).toEqual([
+      expect.objectContaining({ presentationIndex: 2, result: { isValid: true } })
+    ]);
+
+    const completed = await queue.getJob(job.batchId) as BatchJob;
+    expect(completed.status).toBe('completed');
+    expect(completed.successful).toBe(2);
+    expect(completed.failed).toBe(1);
+    expect(completed.result?.results.map(item => item.presentationIndex)).toEqual([0, 1, 2]);
+  });
+
+  it('should mark the job as failed when verification throws', async () => {
+    mockServiceProvider.batchVerifyPresentations.mockRejectedValue(new Error('Batch verification failed'));
+
+    const done = waitForProgress(queue, progress => progress.status === 'failed');
+    const job = await queue.submit([{ valid: true }] as any, HOLDER);
+    await done;
+
+    const failed = await queue.getJob(job.batchId);
+    expect(failed?.error).toBe('Batch verification failed');
+  });
+
+  it('should queue jobs beyond the concurrency limit', async () => {
+    const completedOrder: string[] = [];
+    const done = waitForProgress(queue, progress => {
+      if (progress.status === 'completed') {
+        completedOrder.push(progress.batchId);
+      }
+      return completedOrder.length === 2;
+    });
+
+    const first = await queue.submit([{ valid: true }] as any, HOLDER);
+    const second = await queue.submit([{ valid: true }] as any, HOLDER);
+
+    expect((await queue.getJob(second.batchId))?.status).toBe('queued');
+
+    await done;
+    expect(completedOrder).toEqual([first.batchId, second.batchId]);
+  });
+
+  it('should refuse jobs once the queue is full', async () => {
+    queue = new BatchJobQueue(mockServiceProvider, mockCacheService, {
+      chunkSize: 2,
+      maxQueuedJobs: 1,
+      maxQueuedPresentations: 3
+    });
+
+    // The first job starts running and holds its presentations until verified; the second waits
+    mockServiceProvider.batchVerifyPresentations.mockReturnValue(new Promise(() => {}));
+    await queue.submit([{ valid: true }] as any, HOLDER);
+    await expect(queue.submit([{ valid: true }, { valid: true }, { valid: true }] as any, HOLDER))
+      .rejects.toMatchObject({ statusCode: 503, code: 'BATCH_QUEUE_FULL' });
+    await queue.submit([{ valid: true }] as any, HOLDER);
+    await expect(queue.submit([{ valid: true }] as any, HOLDER))
+      .rejects.toMatchObject({ code: 'BATCH_QUEUE_FULL' });
+  });
+
+  it('should record the submitting holder on the job', async () => {
+    const job = await queue.submit([{ valid: true }] as any, HOLDER);
+
+    expect((await queue.getJob(job.batchId))?.submittedBy).toBe(HOLDER);
+  });
+
+  it('should look up jobs from other instances in the cache', async () => {
+    const cachedJob = { batchId: 'batch-remote', status: 'running', total: 10, processed: 4 };
+    mockCacheService.getCachedBatchResult.mockResolvedValue(cachedJob);
+
+    expect(await queue.getJob('batch-remote')).toEqual(cachedJob);
+  });
+});
@@ -273,6 +273,40 @@ describe('CacheService', () => {
     });
   });
 
+  describe('presentation request consumption', () => {
+    it('should consume a request only once', async () => {
+      mockRedis.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+      mockRedis.del.mockResolvedValue(1);
+
+      const first = await cacheService.consumePresentationRequest('req-123');
+      const second = await cacheService.consumePresentationRequest('req-123');
+
+      expect(first).toBe(true);
+      expect(second).toBe(false);
+      expect(mockRedis.set).toHaveBeenCalledWith('request:consumed:req-123', expect.any(String), 'EX', 300, 'NX');
+      expect(mockRedis.del).toHaveBeenCalledTimes(1);
+      expect(mockRedis.del).toHaveBeenCalledWith('request:req-123');
+    });
+
+    it('should refuse to consume when Redis is not connected', async () => {
+      (cacheService as any).isConnected = false;
+
+      const result = await cacheService.consumePresentationRequest('req-123');
+
+      expect(result).toBe(false);
+      expect(mockRedis.set).not.toHaveBeenCalled();
+    });
+
+    it('should report consumed requests', async () => {
+      mockRedis.exists.mockResolvedValue(1);
+
+      const result = await cacheService.isPresentationRequestConsumed('req-123');
+
+      expect(result).toBe(true);
+      expect(mockRedis.exists).toHaveBeenCalledWith('request:consumed:req-123');
+    });
+  });
+
   describe('rate limiting', () => {
     describe('incrementRateLimit', () => {
       it('should increment counter and set expiry for new key', async () => {
@@ -0,0 +1,62 @@
+import { mapWithConcurrency, withTimeout } from '../../src/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('concurrency utilities', () => {
+  describe('mapWithConcurrency', () => {
+    it('should preserve result order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    it('should never exceed the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should handle empty input', async () => {
+      const results = await mapWithConcurrency([], 5, async () => 1);
+
+      expect(results).toEqual([]);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should resolve when the promise settles in time', async () => {
+      const result = await withTimeout(Promise.resolve('done'), 100, () => new Error('timeout'));
+
+      expect(result).toBe('done');
+    });
+
+    it('should reject with the timeout error when the promise is too slow', async () => {
+      await expect(
+        withTimeout(delay(100), 10, () => new Error('timed out'))
+      ).rejects.toThrow('timed out');
+    });
+
+    it('should propagate the original rejection', async () => {
+      await expect(
+        withTimeout(Promise.reject(new Error('boom')), 100, () => new Error('timeout'))
+      ).rejects.toThrow('boom');
+    });
+
+    it('should not apply a timeout when ms is 0', async () => {
+      const result = await withTimeout(delay(5).then(() => 'ok'), 0, () => new Error('timeout'));
+
+      expect(result).toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { evaluateConstraint, evaluateConstraints } from '../../src/utils/constraint-evaluator';
+import serviceConfig from '../../src/config/service.config';
+
+describe('constraint evaluator', () => {
+  describe('evaluateConstraint', () => {
+    it('should fail required attributes that were not disclosed', () => {
+      const result = evaluateConstraint({ name: 'country', required: true }, {});
+
+      expect(result.passed).toBe(false);
+      expect(result.code).toBe('MISSING_REQUIRED_ATTRIBUTE');
+    });
+
+    it('should pass optional attributes that were not disclosed', () => {
+      const result = evaluateConstraint({ name: 'givenName', required: false, pattern: '^[A-Z]' }, {});
+
+      expect(result.passed).toBe(true);
+    });
+
+    it('should enforce expectedValue', () => {
+      const constraint = { name: 'isOver18', required: true, expectedValue: true };
+
+      expect(evaluateConstraint(constraint, { isOver18: true }).passed).toBe(true);
+      expect(evaluateConstraint(constraint, { isOver18: 'true' }).passed).toBe(false);
+    });
+
+    it('should enforce allowedValues', () => {
+      const constraint = { name: 'country', required: true, allowedValues: ['US', 'CA'] };
+
+      expect(evaluateConstraint(constraint, { country: 'US' }).passed).toBe(true);
+
+      const result = evaluateConstraint(constraint, { country: 'FR' });
+      expect(result.passed).toBe(false);
+      expect(result.code).toBe('ATTRIBUTE_CONSTRAINT_VIOLATION');
+      expect(result.reason).toContain('US, CA');
+    });
+
+    it('should enforce numeric ranges', () => {
+      const constraint = { name: 'creditScore', required: true, minValue: 600, maxValue: 850 };
+
+      expect(evaluateConstraint(constraint, { creditScore: 700 }).passed).toBe(true);
+      expect(evaluateConstraint(constraint, { creditScore: '720' }).passed).toBe(true);
+      expect(evaluateConstraint(constraint, { creditScore: 599 }).passed).toBe(false);
+      expect(evaluateConstraint(constraint, { creditScore: 900 }).passed).toBe(false);
+      expect(evaluateConstraint(constraint, { creditScore: 'excellent' }).reason).toBe('Value is not numeric');
+    });
+
+    it('should compare date strings against timestamp bounds', () => {
+      const constraint = { name: 'subscriptionExpiry', required: true, minValue: Date.now() };
+      const future = new Date(Date.now() + 86400000).toISOString();
+      const past = new Date(Date.now() - 86400000).toISOString();
+
+      expect(evaluateConstraint(constraint, { subscriptionExpiry: future }).passed).toBe(true);
+      expect(evaluateConstraint(constraint, { subscriptionExpiry: past }).passed).toBe(false);
+    });
+
+    it('should enforce patterns', () => {
+      const constraint = { name: 'givenName', required: false, pattern: '^[A-Za-z\\s]{1,50}$' };
+
+      expect(evaluateConstraint(constraint, { givenName: 'John Doe' }).passed).toBe(true);
+      expect(evaluateConstraint(constraint, { givenName: 'R2-D2' }).passed).toBe(false);
+    });
+
+    it('should fail closed on invalid patterns', () => {
+      const result = evaluateConstraint({ name: 'code', required: true, pattern: '[' }, { code: 'x' });
+
+      expect(result.passed).toBe(false);
+      expect(result.reason).toBe('Constraint pattern is invalid');
+    });
+  });
+
+  describe('evaluateConstraints', () => {
+    it('should satisfy the /financial requirement with qualifying attributes', () => {
+      const summary = evaluateConstraints(
+        serviceConfig.endpointRequirements['/financial'].attributeConstraints,
+        { isOver21: true, country: 'US', creditScore: 720 }
+      );
+
+      expect(summary.satisfied).toBe(true);
+      expect(summary.results).toHaveLength(4);
+    });
+
+    it('should report missing attributes and violations separately', () => {
+      const summary = evaluateConstraints(
+        serviceConfig.endpointRequirements['/premium'].attributeConstraints,
+        { isOver18: true, country: 'US', subscriptionStatus: 'basic' }
+      );
+
+      expect(summary.satisfied).toBe(false);
+      expect(summary.missingAttributes).toEqual(['subscriptionExpiry']);
+      expect(summary.violations.map(v => v.name)).toEqual(['subscriptionStatus']);
+    });
+
+    it('should be satisfied when there are no constraints', () => {
+      expect(evaluateConstraints(undefined, { age: 30 }).satisfied).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { gzipSync } from 'zlib';
+import {
+  CredentialStatusChecker,
+  LocalStatusListResolver,
+  decodeStatusList,
+  getStatusBit
+} from '../../src/services/credential-status';
+import type CacheService from '../../src/services/cache.service';
+
+const ISSUER = 'did:test:issuer';
+const LIST_URL = 'https://issuer.example/status/1';
+
+// Encode a 16KB bitstring with the given indexes set
+const encodeList = (setIndexes: number[]): string => {
+  const bitstring = Buffer.alloc(16384);
+  setIndexes.forEach(index => {
+    bitstring[Math.floor(index / 8)] |= 1 << (7 - (index % 8));
+  });
+  return gzipSync(bitstring).toString('base64');
+};
+
+const buildStatusListCredential = (purpose: string, setIndexes: number[], overrides: any = {}) => ({
+  id: LIST_URL,
+  type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+  issuer: ISSUER,
+  credentialSubject: {
+    id: `${LIST_URL}#list`,
+    type: 'BitstringStatusList',
+    statusPurpose: purpose,
+    encodedList: encodeList(setIndexes)
+  },
+  ...overrides
+});
+
+const buildCredential = (index: number, purpose: string = 'revocation', type: string = 'BitstringStatusListEntry') => ({
+  id: `cred-${index}`,
+  issuer: ISSUER,
+  credentialStatus: {
+    id: `${LIST_URL}#${index}`,
+    type,
+    statusPurpose: purpose,
+    statusListIndex: String(index),
+    statusListCredential: LIST_URL
+  }
+});
+
+describe('decodeStatusList', () => {
+  it('should decode base64 and multibase encoded lists', () => {
+    const encoded = encodeList([3]);
+    const multibase = 'u' + gzipSync(decodeStatusList(encoded)).toString('base64url');
+
+    expect(getStatusBit(decodeStatusList(encoded), 3)).toBe(true);
+    expect(getStatusBit(decodeStatusList(multibase), 3)).toBe(true);
+    expect(getStatusBit(decodeStatusList(multibase), 4)).toBe(false);
+  });
+
+  it('should reject indexes outside the bitstring', () => {
+    expect(() => getStatusBit(decodeStatusList(encodeList([])), 16384 * 8)).toThrow(RangeError);
+  });
+});
+
+describe('CredentialStatusChecker', () => {
+  let resolver: LocalStatusListResolver;
+  let verifySignature: jest.Mock;
+  let checker: CredentialStatusChecker;
+
+  beforeEach(() => {
+    resolver = new LocalStatusListResolver();
+    verifySignature = jest.fn().mockResolvedValue(true);
+    checker = new CredentialStatusChecker(resolver, verifySignature);
+  });
+
+  it('should pass credentials without credentialStatus', async () => {
+    const errors = await checker.checkCredential({ id: 'cred-1', issuer: ISSUER });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should pass credentials whose status bit is not set', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('revocation', [7]));
+
+    const errors = await checker.checkCredential(buildCredential(42));
+
+    expect(errors).toEqual([]);
+    expect(verifySignature).toHaveBeenCalled();
+  });
+
+  it('should report revoked credentials', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('revocation', [42]));
+
+    const errors = await checker.checkCredential(buildCredential(42));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('REVOKED_CREDENTIAL');
+    expect(errors[0].context.credentialId).toBe('cred-42');
+  });
+
+  it('should report suspended credentials from StatusList2021 entries', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('suspension', [42]));
+
+    const errors = await checker.checkCredential(buildCredential(42, 'suspension', 'StatusList2021Entry'));
+
+    expect(errors[0].code).toBe('SUSPENDED_CREDENTIAL');
+  });
+
+  it('should fail when the status list signature cannot be verified', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('revocation', []));
+    verifySignature.mockResolvedValue(false);
+
+    const errors = await checker.checkCredential(buildCredential(42));
+
+    expect(errors[0].code).toBe('STATUS_LIST_UNAVAILABLE');
+  });
+
+  it('should reject status lists from a different issuer', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('revocation', [], { issuer: 'did:test:other' }));
+
+    const errors = await checker.checkCredential(buildCredential(42));
+
+    expect(errors[0].code).toBe('STATUS_LIST_UNAVAILABLE');
+    expect(verifySignature).not.toHaveBeenCalled();
+  });
+
+  it('should report unresolvable status lists', async () => {
+    const errors = await checker.checkCredential(buildCredential(42));
+
+    expect(errors[0].code).toBe('STATUS_LIST_UNAVAILABLE');
+  });
+
+  it('should report indexes outside the list', async () => {
+    resolver.register(LIST_URL, buildStatusListCredential('revocation', []));
+
+    const errors = await checker.checkCredential(buildCredential(16384 * 8));
+
+    expect(errors[0].code).toBe('INVALID_STATUS_LIST');
+  });
+
+  describe('with a cache service', () => {
+    let mockCacheService: jest.Mocked<CacheService>;
+
+    beforeEach(() => {
+      mockCacheService = {
+        getCachedStatusList: jest.fn().mockResolvedValue(null),
+        cacheStatusList: jest.fn().mockResolvedValue(undefined)
+      } as any;
+      checker = new CredentialStatusChecker(resolver, verifySignature, mockCacheService, 600);
+    });
+
+    it('should cache verified status lists', async () => {
+      const statusList = buildStatusListCredential('revocation', [42]);
+      resolver.register(LIST_URL, statusList);
+
+      await checker.checkCredential(buildCredential(42));
+
+      expect(mockCacheService.cacheStatusList).toHaveBeenCalledWith(
+        LIST_URL,
+        { encodedList: statusList.credentialSubject.encodedList, issuer: ISSUER, statusPurpose: 'revocation' },
+        600
+      );
+    });
+
+    it('should respect the status list ttl', async () => {
+      const statusList = buildStatusListCredential('revocation', []);
+      (statusList.credentialSubject as any).ttl = 60000;
+      resolver.register(LIST_URL, statusList);
+
+      await checker.checkCredential(buildCredential(42));
+
+      expect(mockCacheService.cacheStatusList).toHaveBeenCalledWith(LIST_URL, expect.any(Object), 60);
+    });
+
+    it('should use cached lists without resolving', async () => {
+      mockCacheService.getCachedStatusList.mockResolvedValue({
+        encodedList: encodeList([42]),
+        issuer: ISSUER,
+        statusPurpose: 'revocation'
+      });
+      const resolveSpy = jest.spyOn(resolver, 'resolve');
+
+      const errors = await checker.checkCredential(buildCredential(42));
+
+      expect(errors[0].code).toBe('REVOKED_CREDENTIAL');
+      expect(resolveSpy).not.toHaveBeenCalled();
+    });
+
+    it('should re-check the issuer and purpose of cached lists', async () => {
+      mockCacheService.getCachedStatusList.mockResolvedValue({
+        encodedList: encodeList([42]),
+        issuer: 'did:test:other-issuer',
+        statusPurpose: 'revocation'
+      });
+      expect((await checker.checkCredential(buildCredential(42)))[0].code).toBe('STATUS_LIST_UNAVAILABLE');
+
+      mockCacheService.getCachedStatusList.mockResolvedValue({
+        encodedList: encodeList([42]),
+        issuer: ISSUER,
+        statusPurpose: 'revocation'
+      });
+      expect((await checker.checkCredential(buildCredential(42, 'suspension')))[0].code).toBe('STATUS_LIST_UNAVAILABLE');
+    });
+  });
+});
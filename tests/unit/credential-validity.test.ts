@@ -0,0 +1,40 @@
+import {
+  checkCredentialValidity,
+  getCredentialValidityWindow,
+  getEarliestCredentialExpiry
+} from '../../src/utils/credential-validity';
+
+describe('credential validity', () => {
+  const now = Date.parse('2025-06-01T12:00:00Z');
+
+  it('should read VC Data Model 2.0 and 1.1 validity fields', () => {
+    expect(getCredentialValidityWindow({ validFrom: '2025-01-01T00:00:00Z', validUntil: '2026-01-01T00:00:00Z' }))
+      .toEqual({ validFrom: new Date('2025-01-01T00:00:00Z'), validUntil: new Date('2026-01-01T00:00:00Z') });
+    expect(getCredentialValidityWindow({ issuanceDate: '2025-01-01T00:00:00Z', expirationDate: 'not a date' }))
+      .toEqual({ validFrom: new Date('2025-01-01T00:00:00Z'), validUntil: undefined });
+  });
+
+  it('should reject credentials outside their validity window beyond the clock skew', () => {
+    const expired = { id: 'cred-1', expirationDate: '2025-06-01T11:59:00Z' };
+    const future = { id: 'cred-2', validFrom: '2025-06-01T12:01:30Z' };
+
+    expect(checkCredentialValidity(expired, 30, now)).toEqual({
+      code: 'EXPIRED_CREDENTIAL',
+      message: 'Credential has expired',
+      context: { credentialId: 'cred-1', expiredAt: '2025-06-01T11:59:00.000Z' }
+    });
+    expect(checkCredentialValidity(expired, 120, now)).toBeNull();
+    expect(checkCredentialValidity(future, 60, now)?.code).toBe('CREDENTIAL_NOT_YET_VALID');
+    expect(checkCredentialValidity(future, 120, now)).toBeNull();
+    expect(checkCredentialValidity({ id: 'cred-3' }, 0, now)).toBeNull();
+  });
+
+  it('should find the earliest expiry among the credentials', () => {
+    expect(getEarliestCredentialExpiry([
+      { id: 'a', validUntil: '2026-01-01T00:00:00Z' },
+      { id: 'b', expirationDate: '2025-09-01T00:00:00Z' },
+      { id: 'c' }
+    ])).toEqual({ credentialId: 'b', expiresAt: '2025-09-01T00:00:00.000Z' });
+    expect(getEarliestCredentialExpiry([{ id: 'c' }])).toBeUndefined();
+  });
+});
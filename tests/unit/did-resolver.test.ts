@@ -0,0 +1,229 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { generateKeyPairSync } from 'crypto';
+import {
+  DIDResolverRegistry,
+  HttpDIDDocumentFetcher,
+  KeyDIDResolver,
+  WebDIDResolver,
+  createDIDResolver,
+  isPublicAddress,
+  type DIDDocumentFetcher
+} from '../../src/services/did-resolver';
+import type CacheService from '../../src/services/cache.service';
+import { DIDResolutionError } from '../../src/utils/errors';
+import { base64UrlDecode, base64UrlEncode, encodeBase58btc } from '../../src/utils/encoding';
+
+const ed25519DidKey = () => {
+  const { publicKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' });
+  const raw = base64UrlDecode(jwk.x!);
+  return { did: `did:key:z${encodeBase58btc(Buffer.concat([Buffer.from([0xed, 0x01]), raw]))}`, jwk };
+};
+
+describe('DID method resolvers', () => {
+  const registry = createDIDResolver(null);
+
+  it('should resolve Ed25519 did:key identifiers', async () => {
+    const { did, jwk } = ed25519DidKey();
+
+    const result = await registry.resolve(did);
+
+    expect(result.didResolutionMetadata.error).toBeUndefined();
+    expect(result.didDocument?.id).toBe(did);
+    expect(result.didDocument?.verificationMethod[0].publicKeyJwk).toEqual({ kty: 'OKP', crv: 'Ed25519', x: jwk.x });
+    expect(result.didDocument?.assertionMethod).toEqual([result.didDocument?.verificationMethod[0].id]);
+  });
+
+  it('should expand compressed P-256 did:key identifiers', async () => {
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwk = publicKey.export({ format: 'jwk' });
+    const y = base64UrlDecode(jwk.y!);
+    const compressed = Buffer.concat([Buffer.from([y[y.length - 1] & 1 ? 0x03 : 0x02]), base64UrlDecode(jwk.x!)]);
+    const did = `did:key:z${encodeBase58btc(Buffer.concat([Buffer.from([0x80, 0x24]), compressed]))}`;
+
+    const document = await registry.resolveDocument(did);
+
+    expect(document.verificationMethod[0].publicKeyJwk).toEqual({ kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y });
+  });
+
+  it('should resolve the configured service did:key', async () => {
+    const document = await new KeyDIDResolver().resolve('did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK');
+
+    expect(document.verificationMethod[0].publicKeyJwk.crv).toBe('Ed25519');
+  });
+
+  it('should resolve did:jwk identifiers', async () => {
+    const { jwk } = ed25519DidKey();
+    const did = `did:jwk:${base64UrlEncode(JSON.stringify(jwk))}`;
+
+    const method = await registry.getVerificationMethod(`${did}#0`);
+
+    expect(method.publicKeyJwk).toEqual(jwk);
+  });
+
+  it('should reject did:jwk identifiers containing private keys', async () => {
+    const did = `did:jwk:${base64UrlEncode(JSON.stringify({ kty: 'OKP', crv: 'Ed25519', x: 'abc', d: 'secret' }))}`;
+
+    const result = await registry.resolve(did);
+
+    expect(result.didResolutionMetadata.error).toBe('invalidDid');
+  });
+
+  it('should map did:web identifiers to document URLs', () => {
+    expect(WebDIDResolver.toUrl('did:web:example.com')).toBe('https://example.com/.well-known/did.json');
+    expect(WebDIDResolver.toUrl('did:web:example.com%3A8443:users:alice'))
+      .toBe('https://example.com:8443/users/alice/did.json');
+  });
+
+  it('should report unsupported methods and malformed DIDs', async () => {
+    expect((await registry.resolve('did:example:123')).didResolutionMetadata.error).toBe('methodNotSupported');
+    expect((await registry.resolve('not-a-did')).didResolutionMetadata.error).toBe('invalidDid');
+    expect((await registry.resolve('did:key:zInvalid0')).didResolutionMetadata.error).toBe('invalidDid');
+  });
+
+  it('should throw mapped errors from resolveDocument', async () => {
+    await expect(registry.resolveDocument('did:example:123')).rejects.toMatchObject({
+      code: 'DID_METHOD_NOT_SUPPORTED',
+      statusCode: 400
+    });
+    await expect(registry.resolveDocument('did:example:123')).rejects.toBeInstanceOf(DIDResolutionError);
+  });
+});
+
+describe('did:web resolution over HTTP', () => {
+  const DID = 'did:web:issuer.example:tenants:acme';
+  let server: Server;
+  let fetcher: DIDDocumentFetcher;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url || '');
+      if (req.url === '/tenants/acme/did.json') {
+        res.writeHead(200, { 'Content-Type': 'application/did+json' });
+        res.end(JSON.stringify({ id: DID, verificationMethod: [{ id: `${DID}#key-1`, type: 'JsonWebKey2020' }] }));
+      } else if (req.url === '/tenants/mismatch/did.json') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ id: 'did:web:someone-else' }));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    // Serve https://issuer.example from the local stand-in
+    const { port } = server.address() as AddressInfo;
+    const http = new HttpDIDDocumentFetcher(2000, true);
+    fetcher = {
+      fetchDocument: (url: string) => http.fetchDocument(url.replace('https://issuer.example', `http://127.0.0.1:${port}`))
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should fetch and validate did.json documents', async () => {
+    const registry = createDIDResolver(null, { fetcher });
+
+    const method = await registry.getVerificationMethod(`${DID}#key-1`);
+
+    expect(method.id).toBe(`${DID}#key-1`);
+    expect(requests).toEqual(['/tenants/acme/did.json']);
+  });
+
+  it('should reject documents whose id does not match the DID', async () => {
+    const registry = createDIDResolver(null, { fetcher });
+
+    const result = await registry.resolve('did:web:issuer.example:tenants:mismatch');
+
+    expect(result.didResolutionMetadata.error).toBe('invalidDidDocument');
+  });
+
+  it('should negatively cache DIDs that are not found', async () => {
+    const registry = createDIDResolver(null, { fetcher });
+
+    const first = await registry.resolve('did:web:issuer.example:tenants:missing');
+    const second = await registry.resolve('did:web:issuer.example:tenants:missing');
+
+    expect(first.didResolutionMetadata.error).toBe('notFound');
+    expect(second.didResolutionMetadata).toEqual(expect.objectContaining({ error: 'notFound', cached: true }));
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not fetch documents from non-public addresses', async () => {
+    const { port } = server.address() as AddressInfo;
+    const http = new HttpDIDDocumentFetcher(2000);
+
+    await expect(http.fetchDocument(`http://127.0.0.1:${port}/tenants/acme/did.json`)).rejects.toThrow('public address');
+    await expect(http.fetchDocument(`http://localhost:${port}/tenants/acme/did.json`)).rejects.toThrow('public address');
+    await expect(http.fetchDocument('https://[::1]/did.json')).rejects.toThrow('public address');
+    expect(requests).toEqual([]);
+
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+    ['10.0.0.1', '172.16.5.4', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1',
+      '::ffff:127.0.0.1'].forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+});
+
+describe('DIDResolverRegistry caching', () => {
+  let mockCacheService: jest.Mocked<CacheService>;
+  let registry: DIDResolverRegistry;
+
+  beforeEach(() => {
+    mockCacheService = {
+      cacheDIDDocument: jest.fn(),
+      getCachedDIDDocument: jest.fn().mockResolvedValue(null),
+      cacheDIDResolutionFailure: jest.fn(),
+      getCachedDIDResolutionFailure: jest.fn().mockResolvedValue(null)
+    } as any;
+    registry = new DIDResolverRegistry(mockCacheService, { cacheTtlSeconds: 900, negativeCacheTtlSeconds: 30 })
+      .register(new KeyDIDResolver());
+  });
+
+  it('should cache resolved documents', async () => {
+    const { did } = ed25519DidKey();
+
+    await registry.resolve(did);
+
+    expect(mockCacheService.cacheDIDDocument).toHaveBeenCalledWith(did, expect.objectContaining({ id: did }), 900);
+  });
+
+  it('should cache failures with the negative TTL', async () => {
+    await registry.resolve('did:key:zInvalid0');
+
+    expect(mockCacheService.cacheDIDResolutionFailure).toHaveBeenCalledWith(
+      'did:key:zInvalid0',
+      expect.objectContaining({ error: 'invalidDid' }),
+      30
+    );
+  });
+
+  it('should bound the local cache, dropping expired and then the oldest entries', async () => {
+    registry = new DIDResolverRegistry(null, { maxLocalCacheEntries: 2 }).register(new KeyDIDResolver());
+    const [first, second, third] = [ed25519DidKey(), ed25519DidKey(), ed25519DidKey()];
+
+    await registry.resolve(first.did);
+    await registry.resolve(second.did);
+    await registry.resolve(third.did);
+
+    expect((await registry.resolve(first.did)).didResolutionMetadata.cached).toBeUndefined();
+    expect((await registry.resolve(third.did)).didResolutionMetadata.cached).toBe(true);
+  });
+
+  it('should serve cached documents without resolving', async () => {
+    mockCacheService.getCachedDIDDocument.mockResolvedValue({ id: 'did:key:zCached' });
+
+    const result = await registry.resolve('did:key:zCached');
+
+    expect(result.didDocument).toEqual({ id: 'did:key:zCached' });
+    expect(result.didResolutionMetadata.cached).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import EventsController from '../../src/controllers/events.controller';
+import StatusEventBus from '../../src/services/status-events';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+
+// asyncHandler doesn't return the handler's promise, so let it settle
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('EventsController', () => {
+  let controller: EventsController;
+  let statusEvents: StatusEventBus;
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let mockNext: jest.Mock;
+
+  const session = {
+    id: 'session-1',
+    holderDID: 'did:key:holder',
+    credentialIds: ['cred-1'],
+    attributes: {},
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+  };
+
+  const createRequest = (params: Record<string, string>, headers: Record<string, string> = {}) => {
+    const request = new EventEmitter() as EventEmitter & Partial<Request>;
+    Object.assign(request, {
+      params,
+      session,
+      get: ((name: string) => headers[name.toLowerCase()]) as any
+    });
+    return request as unknown as Request;
+  };
+
+  const createResponse = () => {
+    const writes: string[] = [];
+    const response = {
+      writes,
+      status: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      flushHeaders: jest.fn(),
+      write: jest.fn((chunk: string) => writes.push(chunk)),
+      end: jest.fn()
+    };
+    return response;
+  };
+
+  beforeEach(() => {
+    statusEvents = new StatusEventBus();
+    mockServiceProvider = {
+      getHolderScope: jest.fn().mockResolvedValue({
+        sessionIds: new Set(['session-1']),
+        credentialIds: new Set(['cred-1']),
+        issuerDIDs: new Set(['did:key:issuer'])
+      }),
+      batchCheckRevocations: jest.fn().mockResolvedValue(new Map([['cred-1', false]])),
+      getSession: jest.fn().mockResolvedValue(session),
+      validateSession: jest.fn().mockResolvedValue(true)
+    } as any;
+
+    controller = new EventsController(mockServiceProvider, statusEvents, 60000);
+    mockNext = jest.fn();
+  });
+
+  it('should stream the current status followed by published events', async () => {
+    const req = createRequest({ id: 'cred-1' });
+    const res = createResponse();
+
+    controller.streamCredential(req, res as unknown as Response, mockNext);
+    await flushPromises();
+    statusEvents.credentialRevoked('cred-1', 'did:key:issuer');
+
+    expect(res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(res.writes[1]).toMatch(/^event: credential:status\ndata: .*"isRevoked":false/);
+    expect(res.writes[res.writes.length - 1]).toMatch(/^id: 1\nevent: credential:status\ndata: .*"isRevoked":true/);
+
+    req.emit('close');
+    statusEvents.credentialRevoked('cred-1');
+    expect(res.writes.filter(chunk => chunk.startsWith('id:'))).toHaveLength(1);
+  });
+
+  it('should replay events missed since Last-Event-ID', async () => {
+    statusEvents.sessionExpired('session-other');
+    statusEvents.credentialRevoked('cred-1', undefined, 'first');
+    statusEvents.credentialRevoked('cred-1', undefined, 'second');
+    const res = createResponse();
+
+    controller.streamCredential(
+      createRequest({ id: 'cred-1' }, { 'last-event-id': '2' }),
+      res as unknown as Response,
+      mockNext
+    );
+    await flushPromises();
+
+    const replayed = res.writes.filter(chunk => chunk.startsWith('id:'));
+    expect(replayed).toHaveLength(1);
+    expect(replayed[0]).toMatch(/^id: 3\n.*"reason":"second"/s);
+  });
+
+  it('should refuse streams outside the holder\'s scope', async () => {
+    const res = createResponse();
+
+    controller.streamIssuer(createRequest({ did: 'did:key:other' }), res as unknown as Response, mockNext);
+    await flushPromises();
+
+    expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ code: 'AUTHORIZATION_ERROR' }));
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+
+  it('should end the stream when the authenticating session expires', async () => {
+    const res = createResponse();
+
+    controller.streamIssuer(createRequest({ did: 'did:key:issuer' }), res as unknown as Response, mockNext);
+    await flushPromises();
+    statusEvents.sessionExpired('session-1');
+
+    expect(res.writes[res.writes.length - 1]).toMatch(/^event: session:status\n.*"isValid":false/s);
+    expect(res.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import TrustedIssuerRegistry from '../../src/services/issuer-registry';
+import type CacheService from '../../src/services/cache.service';
+import type DIDResolverRegistry from '../../src/services/did-resolver';
+import type { TrustedIssuer } from '../../src/models/types';
+import { ConflictError, NotFoundError, ValidationError } from '../../src/utils/errors';
+
+const SEED_ISSUER = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+const ISSUER = 'did:web:gov.example';
+
+const credential = (issuer: string, ...types: string[]) => ({
+  id: 'urn:uuid:cred-1',
+  type: ['VerifiableCredential', ...types],
+  issuer
+});
+
+describe('TrustedIssuerRegistry', () => {
+  let registry: TrustedIssuerRegistry;
+
+  beforeEach(() => {
+    registry = new TrustedIssuerRegistry(null, [SEED_ISSUER]);
+  });
+
+  it('should seed configured issuers as active and unrestricted', async () => {
+    const issuers = await registry.listIssuers();
+
+    expect(issuers).toEqual([
+      expect.objectContaining({ did: SEED_ISSUER, status: 'active', allowedCredentialTypes: [] })
+    ]);
+    expect(registry.getActiveIssuerDIDs()).toEqual([SEED_ISSUER]);
+    expect((await registry.checkCredential(credential(SEED_ISSUER, 'AnyCredential'))).trusted).toBe(true);
+  });
+
+  it('should reject credential types the issuer is not allowed to issue', async () => {
+    await registry.addIssuer({ did: ISSUER, name: 'Gov', allowedCredentialTypes: ['AgeCredential'] });
+
+    expect((await registry.checkCredential(credential(ISSUER, 'AgeCredential'))).trusted).toBe(true);
+    expect(await registry.checkCredential(credential(ISSUER, 'FinancialCredential'))).toEqual({
+      trusted: false,
+      reason: 'Issuer is not allowed to issue FinancialCredential'
+    });
+  });
+
+  it('should only accept privileged credential types from explicitly allowed issuers', async () => {
+    expect(await registry.checkCredential(credential(SEED_ISSUER, 'AdminCredential'))).toEqual({
+      trusted: false,
+      reason: 'Issuer is not allowed to issue AdminCredential'
+    });
+
+    await registry.addIssuer({ did: ISSUER, allowedCredentialTypes: ['AdminCredential'] });
+    expect((await registry.checkCredential(credential(ISSUER, 'AdminCredential'))).trusted).toBe(true);
+
+    const configured = new TrustedIssuerRegistry(null, [SEED_ISSUER], null, [SEED_ISSUER]);
+    expect((await configured.checkCredential(credential(SEED_ISSUER, 'AdminCredential'))).trusted).toBe(true);
+    expect((await configured.checkCredential(credential(SEED_ISSUER, 'AnyCredential'))).trusted).toBe(true);
+  });
+
+  it('should reject unregistered, suspended and out-of-window issuers', async () => {
+    await registry.addIssuer({ did: ISSUER, validUntil: '2020-01-01T00:00:00Z' });
+
+    expect((await registry.checkCredential(credential('did:web:unknown.example'))).reason)
+      .toBe('Issuer is not registered');
+    expect((await registry.checkCredential(credential(ISSUER))).reason).toBe('Issuer validity has ended');
+
+    await registry.suspendIssuer(SEED_ISSUER);
+    expect((await registry.checkCredential(credential(SEED_ISSUER))).reason).toBe('Issuer is suspended');
+    expect(registry.getActiveIssuerDIDs()).toEqual([]);
+  });
+
+  it('should emit the active issuers when the registry changes', async () => {
+    const updates: string[][] = [];
+    registry.on('updated', (dids: string[]) => updates.push(dids));
+
+    await registry.addIssuer({ did: ISSUER });
+    await registry.suspendIssuer(ISSUER);
+    await registry.reactivateIssuer(ISSUER);
+    await registry.removeIssuer(SEED_ISSUER);
+
+    expect(updates).toEqual([[SEED_ISSUER, ISSUER], [SEED_ISSUER], [SEED_ISSUER, ISSUER], [ISSUER]]);
+  });
+
+  it('should validate issuer input', async () => {
+    await expect(registry.addIssuer({ did: 'not-a-did' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(registry.addIssuer({ did: SEED_ISSUER })).rejects.toBeInstanceOf(ConflictError);
+    await expect(registry.addIssuer({
+      did: ISSUER,
+      validFrom: '2030-01-01T00:00:00Z',
+      validUntil: '2029-01-01T00:00:00Z'
+    })).rejects.toBeInstanceOf(ValidationError);
+    await expect(registry.updateIssuer(SEED_ISSUER, { allowedCredentialTypes: 'AgeCredential' as any }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(registry.removeIssuer(ISSUER)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should require resolvable DIDs for supported methods', async () => {
+    const didResolver = {
+      supportsMethod: jest.fn().mockReturnValue(true),
+      resolve: jest.fn().mockResolvedValue({ didDocument: null, didResolutionMetadata: { error: 'notFound' } })
+    } as unknown as DIDResolverRegistry;
+    registry = new TrustedIssuerRegistry(null, [], didResolver);
+
+    await expect(registry.addIssuer({ did: ISSUER })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      context: expect.objectContaining({ resolutionError: 'notFound' })
+    });
+  });
+});
+
+describe('TrustedIssuerRegistry with Redis', () => {
+  let stored: Map<string, TrustedIssuer>;
+  let mockCacheService: jest.Mocked<CacheService>;
+
+  beforeEach(() => {
+    stored = new Map();
+    mockCacheService = {
+      cacheTrustedIssuer: jest.fn().mockImplementation(async (issuer: TrustedIssuer) => {
+        stored.set(issuer.did, issuer);
+        return true;
+      }),
+      getCachedTrustedIssuers: jest.fn().mockImplementation(async () => Array.from(stored.values())),
+      removeCachedTrustedIssuer: jest.fn().mockImplementation(async (did: string) => stored.delete(did))
+    } as any;
+  });
+
+  it('should seed an empty registry from configuration', async () => {
+    const registry = new TrustedIssuerRegistry(mockCacheService, [SEED_ISSUER]);
+
+    await registry.listIssuers();
+
+    expect(stored.has(SEED_ISSUER)).toBe(true);
+  });
+
+  it('should not overwrite a populated registry and should pick up changes from other instances', async () => {
+    const existing = new TrustedIssuerRegistry(mockCacheService, []);
+    await existing.addIssuer({ did: ISSUER, allowedCredentialTypes: ['AgeCredential'] });
+
+    const registry = new TrustedIssuerRegistry(mockCacheService, [SEED_ISSUER]);
+    const updates: string[][] = [];
+    registry.on('updated', (dids: string[]) => updates.push(dids));
+
+    expect((await registry.listIssuers()).map(issuer => issuer.did)).toEqual([ISSUER]);
+    expect(updates).toEqual([[ISSUER]]);
+
+    await existing.suspendIssuer(ISSUER);
+    expect((await registry.checkCredential(credential(ISSUER, 'AgeCredential'))).reason).toBe('Issuer is suspended');
+  });
+});
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import JwtVcVerifier, { type JwtPresentationExpectation } from '../../src/services/jwt-vc-verifier';
+import { createDIDResolver } from '../../src/services/did-resolver';
+import { isJwtPresentation } from '../../src/utils/jwt-vc';
+import { signJws } from '../../src/utils/jws';
+import { base64UrlDecode, encodeBase58btc } from '../../src/utils/encoding';
+import {
+  CredentialNotYetValidError,
+  ExpiredCredentialError,
+  InvalidJwtError,
+  createVerificationError
+} from '../../src/utils/errors';
+
+const createKey = () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const raw = base64UrlDecode(publicKey.export({ format: 'jwk' }).x as string);
+  const fingerprint = `z${encodeBase58btc(Buffer.concat([Buffer.from([0xed, 0x01]), raw]))}`;
+  return { did: `did:key:${fingerprint}`, kid: `did:key:${fingerprint}#${fingerprint}`, privateKey };
+};
+
+describe('JWT VC/VP', () => {
+  const issuer = createKey();
+  const holder = createKey();
+  const now = Math.floor(Date.now() / 1000);
+  const verifier = new JwtVcVerifier(createDIDResolver(null), { audience: 'did:key:service' });
+  const expectation = { nonce: 'challenge-1', audience: 'did:key:verifier' };
+
+  const credentialJwt = (claims: Record<string, any> = {}, signer = issuer) => signJws(
+    { typ: 'vc+jwt', kid: signer.kid },
+    {
+      iss: issuer.did,
+      sub: holder.did,
+      jti: 'urn:uuid:cred-1',
+      nbf: now - 60,
+      exp: now + 3600,
+      vc: {
+        type: ['VerifiableCredential', 'BasicProfileCredential'],
+        credentialSubject: { isOver18: true, country: 'US' }
+      },
+      ...claims
+    },
+    signer.privateKey
+  );
+
+  const presentationJwt = (credentials: string[], claims: Record<string, any> = {}) => signJws(
+    { typ: 'vp+jwt', kid: holder.kid },
+    {
+      iss: holder.did,
+      aud: 'did:key:verifier',
+      nonce: 'challenge-1',
+      iat: now,
+      vp: { type: ['VerifiablePresentation'], verifiableCredential: credentials },
+      ...claims
+    },
+    holder.privateKey
+  );
+
+  const codes = async (token: string, binding: JwtPresentationExpectation = expectation) => {
+    return (await verifier.verify(token, binding)).errors?.map(error => error.code);
+  };
+
+  it('should verify a JWT-VP and map its JWT-VCs to the verification result shape', async () => {
+    const token = presentationJwt([credentialJwt()]);
+
+    expect(isJwtPresentation(token)).toBe(true);
+    expect(isJwtPresentation(credentialJwt())).toBe(false);
+
+    const result = await verifier.verify(token, expectation);
+    expect(result).toEqual(expect.objectContaining({
+      isValid: true,
+      holderDID: holder.did,
+      credentialIds: ['urn:uuid:cred-1'],
+      disclosedAttributes: { isOver18: true, country: 'US' },
+      verificationMethod: 'jwt'
+    }));
+    expect(result.credentials?.[0]).toEqual(expect.objectContaining({
+      issuer: issuer.did,
+      type: ['VerifiableCredential', 'BasicProfileCredential'],
+      issuanceDate: new Date((now - 60) * 1000).toISOString(),
+      expirationDate: new Date((now + 3600) * 1000).toISOString(),
+      credentialSubject: { id: holder.did, isOver18: true, country: 'US' }
+    }));
+  });
+
+  it('should bind the presentation to the request nonce and audience', async () => {
+    expect(await codes(presentationJwt([credentialJwt()], { nonce: 'other', aud: ['did:key:other'] })))
+      .toEqual(['CHALLENGE_MISMATCH', 'DOMAIN_MISMATCH']);
+
+    // Unbound presentations (batch verification) must be addressed to this service and recent
+    expect(await codes(presentationJwt([credentialJwt()]), {})).toEqual(['DOMAIN_MISMATCH']);
+    expect(await codes(presentationJwt([credentialJwt()], { aud: 'did:key:service' }), {})).toEqual([]);
+    expect(await codes(presentationJwt([credentialJwt()], { aud: undefined }), {})).toEqual(['DOMAIN_MISMATCH']);
+    expect(await codes(presentationJwt([credentialJwt()], { aud: 'did:key:service', iat: now - 3600 }), {}))
+      .toEqual(['EXPIRED_PRESENTATION']);
+    expect(await codes(presentationJwt([credentialJwt()], { aud: 'did:key:service', iat: undefined }), {}))
+      .toEqual(['EXPIRED_PRESENTATION']);
+  });
+
+  it('should report credential validity, subject and signature failures', async () => {
+    expect(await codes(presentationJwt([credentialJwt({ exp: now - 3600 })]))).toEqual(['EXPIRED_CREDENTIAL']);
+    expect(await codes(presentationJwt([credentialJwt({ nbf: now + 3600 })]))).toEqual(['CREDENTIAL_NOT_YET_VALID']);
+    expect(await codes(presentationJwt([credentialJwt({ sub: issuer.did })]))).toEqual(['HOLDER_MISMATCH']);
+    expect(await codes(presentationJwt([credentialJwt({}, holder)]))).toEqual(['INVALID_SIGNATURE']);
+    expect(await codes(presentationJwt([{ type: ['VerifiableCredential'] } as any]))).toEqual(['INVALID_JWT']);
+    expect(await codes(presentationJwt([credentialJwt()], { exp: now - 3600 }))).toEqual(['EXPIRED_PRESENTATION']);
+  });
+
+  it('should require credentials to be bound to the presentation holder', async () => {
+    const subject = (credentialSubject: Record<string, any>) => ({
+      vc: { type: ['VerifiableCredential'], credentialSubject }
+    });
+
+    expect(await codes(presentationJwt([credentialJwt({ sub: undefined, ...subject({ id: holder.did }) })]))).toEqual([]);
+    expect(await codes(presentationJwt([credentialJwt(subject({ id: issuer.did }))]))).toEqual(['HOLDER_MISMATCH']);
+    expect(await codes(presentationJwt([credentialJwt({ sub: undefined, ...subject({ id: issuer.did }) })])))
+      .toEqual(['HOLDER_MISMATCH']);
+    expect(await codes(presentationJwt([credentialJwt({ sub: undefined })]))).toEqual(['HOLDER_MISMATCH']);
+  });
+
+  it('should report out-of-range dates as malformed JWTs', async () => {
+    expect(await codes(presentationJwt([credentialJwt({ exp: 1e20 })]))).toEqual(['INVALID_JWT']);
+    expect(await codes(presentationJwt([credentialJwt({ nbf: -1e20 })]))).toEqual(['INVALID_JWT']);
+    expect(await codes(presentationJwt([credentialJwt()], { exp: -1e20 }))).toEqual(['INVALID_JWT']);
+  });
+
+  it('should map JWT failure codes to service errors', () => {
+    expect(createVerificationError('EXPIRED_CREDENTIAL', 'expired', { credentialId: 'c' }))
+      .toBeInstanceOf(ExpiredCredentialError);
+    expect(createVerificationError('CREDENTIAL_NOT_YET_VALID', 'nbf', { credentialId: 'c' }))
+      .toBeInstanceOf(CredentialNotYetValidError);
+    expect(createVerificationError('INVALID_JWT', 'malformed')).toBeInstanceOf(InvalidJwtError);
+  });
+});
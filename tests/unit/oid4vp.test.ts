@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import OID4VPVerifier, { createOID4VPVerifier } from '../../src/services/oid4vp';
+import { config } from '../../src/config';
+import { decodeJws, verifyJws } from '../../src/utils/jws';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import type CacheService from '../../src/services/cache.service';
+import { InvalidPresentationError } from '../../src/utils/errors';
+
+describe('OID4VPVerifier', () => {
+  let verifier: OID4VPVerifier;
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let store: Map<string, any>;
+  let consumed: Set<string>;
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+  const presentation = {
+    type: ['VerifiablePresentation'],
+    holder: 'did:key:holder',
+    verifiableCredential: [{
+      type: ['VerifiableCredential', 'BasicProfileCredential'],
+      credentialSubject: { isOver18: true, country: 'US' }
+    }],
+    proof: { challenge: 'challenge-1', domain: 'did:key:verifier' }
+  };
+
+  beforeEach(() => {
+    store = new Map();
+    consumed = new Set();
+    const mockCacheService = {
+      get: jest.fn(async (key: string) => store.get(key) || null),
+      set: jest.fn(async (key: string, value: any) => store.set(key, value)),
+      cachePresentationRequest: jest.fn(async (id: string, request: any) => store.set(`request:${id}`, request)),
+      getCachedPresentationRequest: jest.fn(async (id: string) => store.get(`request:${id}`) || null),
+      consumePresentationRequest: jest.fn(async (id: string) => {
+        if (consumed.has(id)) {
+          return false;
+        }
+        consumed.add(id);
+        store.delete(`request:${id}`);
+        return true;
+      }),
+      isPresentationRequestConsumed: jest.fn(async (id: string) => consumed.has(id))
+    } as unknown as CacheService;
+
+    mockServiceProvider = {
+      createPresentationRequest: jest.fn().mockResolvedValue({
+        requestId: 'request-1',
+        challenge: 'challenge-1',
+        domain: 'did:key:verifier',
+        credentialTypes: ['BasicProfileCredential'],
+        attributeConstraints: []
+      }),
+      verifyPresentationWithRequest: jest.fn().mockResolvedValue({
+        isValid: true,
+        holderDID: 'did:key:holder',
+        credentialIds: ['cred-1'],
+        disclosedAttributes: { isOver18: true }
+      }),
+      createSessionFromVerification: jest.fn().mockResolvedValue({ id: 'session-1', expiresIn: 3600 })
+    } as any;
+
+    verifier = new OID4VPVerifier(mockServiceProvider, mockCacheService, {
+      baseUrl: 'https://verifier.example',
+      clientId: 'did:key:verifier',
+      keyId: 'did:key:verifier#key-1',
+      signingKey: privateKey
+    });
+  });
+
+  const authorize = async () => {
+    const authorizationRequest = await verifier.createAuthorizationRequest('/profile');
+    const requestObject = decodeJws(await verifier.getRequestObject(authorizationRequest.requestId));
+    return { authorizationRequest, requestObject };
+  };
+
+  const submissionFor = (definition: any) => JSON.stringify({
+    id: 'submission-1',
+    definition_id: definition.id,
+    descriptor_map: definition.input_descriptors.map((descriptor: any) => ({
+      id: descriptor.id,
+      format: 'ldp_vp',
+      path: '$',
+      path_nested: { format: 'ldp_vc', path: '$.verifiableCredential[0]' }
+    }))
+  });
+
+  it('should serve a signed request object bound to the presentation request', async () => {
+    const { authorizationRequest, requestObject } = await authorize();
+
+    expect(mockServiceProvider.createPresentationRequest).toHaveBeenCalledWith('/profile', 'did:key:verifier');
+    expect(verifyJws(requestObject, publicKey.export({ format: 'jwk' }))).toBe(true);
+    expect(requestObject.header).toEqual({ typ: 'oauth-authz-req+jwt', kid: 'did:key:verifier#key-1', alg: 'EdDSA' });
+    expect(requestObject.payload).toEqual(expect.objectContaining({
+      client_id: 'did:key:verifier',
+      response_type: 'vp_token',
+      response_mode: 'direct_post',
+      response_uri: 'https://verifier.example/oid4vp/response',
+      nonce: 'challenge-1',
+      state: 'request-1'
+    }));
+    expect(requestObject.payload.presentation_definition.input_descriptors.map((d: any) => d.id))
+      .toEqual(['BasicProfileCredential']);
+    expect(authorizationRequest.authorizationRequestUri).toBe(
+      'openid4vp://?client_id=did%3Akey%3Averifier&request_uri=https%3A%2F%2Fverifier.example%2Foid4vp%2Frequest%2Frequest-1'
+    );
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ requestId: 'request-1', status: 'pending' }));
+  });
+
+  it('should verify a direct_post response and hand the session to the relying party once', async () => {
+    const { authorizationRequest, requestObject } = await authorize();
+    const response = {
+      vp_token: JSON.stringify(presentation),
+      presentation_submission: submissionFor(requestObject.payload.presentation_definition),
+      state: 'request-1'
+    };
+
+    await verifier.handleResponse(response);
+
+    expect(mockServiceProvider.verifyPresentationWithRequest).toHaveBeenCalledWith(
+      presentation,
+      expect.objectContaining({ requestId: 'request-1', challenge: 'challenge-1' })
+    );
+    expect(mockServiceProvider.createSessionFromVerification).toHaveBeenCalledWith(
+      expect.objectContaining({ holderDID: 'did:key:holder' }),
+      { endpoint: '/profile', requestId: 'request-1', protocol: 'oid4vp' }
+    );
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ status: 'complete', sessionId: 'session-1' }));
+
+    await expect(verifier.handleResponse(response)).rejects.toMatchObject({ code: 'REPLAYED_PRESENTATION' });
+  });
+
+  it('should reject submissions that do not answer the presentation definition', async () => {
+    const { authorizationRequest, requestObject } = await authorize();
+
+    await expect(verifier.handleResponse({
+      vp_token: presentation,
+      presentation_submission: { definition_id: 'other', descriptor_map: [] },
+      state: 'request-1'
+    })).rejects.toMatchObject({ code: 'INVALID_PRESENTATION' });
+
+    await expect(verifier.handleResponse({
+      vp_token: presentation,
+      presentation_submission: { definition_id: requestObject.payload.presentation_definition.id, descriptor_map: [] },
+      state: 'request-1'
+    })).rejects.toMatchObject({
+      code: 'INVALID_PRESENTATION',
+      context: { verificationErrors: [expect.objectContaining({ code: 'INPUT_DESCRIPTOR_NOT_SATISFIED' })] }
+    });
+
+    expect(mockServiceProvider.verifyPresentationWithRequest).not.toHaveBeenCalled();
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ status: 'pending' }));
+  });
+
+  it('should keep the transaction pending when an unverified response is posted for its state', async () => {
+    const { authorizationRequest, requestObject } = await authorize();
+    mockServiceProvider.verifyPresentationWithRequest.mockRejectedValueOnce(
+      new InvalidPresentationError([{ code: 'INVALID_SIGNATURE', message: 'forged' }])
+    );
+    const submission = submissionFor(requestObject.payload.presentation_definition);
+
+    await expect(verifier.handleResponse({ vp_token: presentation, presentation_submission: submission, state: 'request-1' }))
+      .rejects.toMatchObject({ code: 'INVALID_PRESENTATION' });
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ status: 'pending' }));
+
+    // The holder's own response still completes it
+    await verifier.handleResponse({ vp_token: presentation, presentation_submission: submission, state: 'request-1' });
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ status: 'complete', sessionId: 'session-1' }));
+  });
+
+  it('should record failures of verified responses', async () => {
+    const { authorizationRequest, requestObject } = await authorize();
+    mockServiceProvider.createSessionFromVerification.mockRejectedValueOnce(new Error('Session store unavailable'));
+    const submission = submissionFor(requestObject.payload.presentation_definition);
+
+    await expect(verifier.handleResponse({ vp_token: presentation, presentation_submission: submission, state: 'request-1' }))
+      .rejects.toThrow('Session store unavailable');
+    expect(await verifier.getTransaction(authorizationRequest.transactionId))
+      .toEqual(expect.objectContaining({ status: 'failed', error: expect.objectContaining({ code: 'VERIFICATION_ERROR' }) }));
+  });
+
+  describe('createOID4VPVerifier', () => {
+    const originalNodeEnv = config.nodeEnv;
+    const originalSigningKey = config.oid4vp.signingKey;
+
+    afterEach(() => {
+      config.nodeEnv = originalNodeEnv;
+      config.oid4vp.signingKey = originalSigningKey;
+    });
+
+    it('should only sign with an ephemeral key in development', () => {
+      config.oid4vp.signingKey = undefined;
+      config.nodeEnv = 'development';
+      expect(createOID4VPVerifier(mockServiceProvider, {} as CacheService)).toBeInstanceOf(OID4VPVerifier);
+
+      config.nodeEnv = 'production';
+      expect(() => createOID4VPVerifier(mockServiceProvider, {} as CacheService)).toThrow(/OID4VP_SIGNING_KEY/);
+
+      config.oid4vp.signingKey = privateKey.export({ format: 'pem', type: 'pkcs8' }) as string;
+      expect(createOID4VPVerifier(mockServiceProvider, {} as CacheService)).toBeInstanceOf(OID4VPVerifier);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  createRangeCommitment,
+  createRangeProof,
+  getPresentedPredicateProofs,
+  verifyPredicateProofs
+} from '../../src/utils/predicate-proofs';
+import { evaluateConstraints } from '../../src/utils/constraint-evaluator';
+import { requirementsToPresentationDefinition } from '../../src/utils/presentation-exchange';
+import serviceConfig from '../../src/config/service.config';
+
+describe('predicate proofs', () => {
+  const age = createRangeCommitment(25, { min: 0, max: 150 });
+  const creditScore = createRangeCommitment(700, { min: 300, max: 850 });
+  const credentials = [{
+    id: 'urn:uuid:cred-1',
+    type: ['VerifiableCredential', 'BasicProfileCredential'],
+    credentialSubject: {
+      id: 'did:key:holder',
+      predicateCommitments: { age: age.commitment, creditScore: creditScore.commitment }
+    }
+  }];
+
+  it('should prove range predicates without disclosing the committed value', () => {
+    const proofs = [
+      createRangeProof('age', 25, age.secrets, { gte: 18 }),
+      createRangeProof('creditScore', 700, creditScore.secrets, { gte: 600, lte: 850 }, 'urn:uuid:cred-1')
+    ];
+
+    expect(JSON.stringify(proofs)).not.toMatch(/25|700/);
+    expect(verifyPredicateProofs(proofs, credentials)).toEqual({
+      predicates: {
+        age: { credentialId: 'urn:uuid:cred-1', gte: 18 },
+        creditScore: { credentialId: 'urn:uuid:cred-1', gte: 600, lte: 850 }
+      },
+      errors: []
+    });
+    expect(getPresentedPredicateProofs({ type: ['VerifiablePresentation'], predicateProofs: proofs })).toEqual(proofs);
+  });
+
+  it('should reject proofs of bounds the committed value does not meet', () => {
+    const proof = createRangeProof('age', 25, age.secrets, { gte: 18 });
+    const codes = (proofs: any[]) => verifyPredicateProofs(proofs, credentials).errors.map(error => error.code);
+
+    expect(() => createRangeProof('age', 17, age.secrets, { gte: 18 })).toThrow();
+    // Claiming a higher bound with the same chain element, or revealing the seed, fails
+    expect(codes([{ ...proof, gte: 21 }])).toEqual(['INVALID_PREDICATE_PROOF']);
+    expect(codes([{ ...proof, proof: { gte: age.secrets.lowerSeed } }])).toEqual(['INVALID_PREDICATE_PROOF']);
+    expect(codes([{ ...proof, gte: 200 }])).toEqual(['INVALID_PREDICATE_PROOF']);
+    expect(codes([{ ...proof, attribute: 'income' }])).toEqual(['INVALID_PREDICATE_PROOF']);
+    expect(codes([{ ...proof, credentialId: 'urn:uuid:other' }])).toEqual(['INVALID_PREDICATE_PROOF']);
+
+    const forged = createRangeCommitment(25, { min: 0, max: 150 });
+    expect(codes([createRangeProof('age', 25, forged.secrets, { gte: 18 })])).toEqual(['INVALID_PREDICATE_PROOF']);
+  });
+
+  it('should satisfy predicate-mode constraints with proven ranges covering their bounds', () => {
+    const constraints = serviceConfig.endpointRequirements['/verify-age'].attributeConstraints;
+
+    expect(evaluateConstraints(constraints, {}, { age: { credentialId: 'c', gte: 18, lte: 120 } }).satisfied).toBe(true);
+    expect(evaluateConstraints(constraints, { age: 30 }).satisfied).toBe(true);
+
+    const lowerOnly = evaluateConstraints(constraints, {}, { age: { credentialId: 'c', gte: 18 } });
+    expect(lowerOnly.violations.map(violation => violation.reason)).toEqual([
+      'Predicate proof must show a value of at most 120'
+    ]);
+    expect(evaluateConstraints(constraints, {}, { age: { credentialId: 'c', gte: 16, lte: 120 } }).satisfied).toBe(false);
+
+    // Value-mode constraints still need the disclosed value
+    const valueMode = [{ name: 'age', required: true, minValue: 18 }];
+    expect(evaluateConstraints(valueMode, {}, { age: { credentialId: 'c', gte: 18 } }).missingAttributes).toEqual(['age']);
+  });
+
+  it('should mark predicate-mode fields in generated presentation definitions', () => {
+    const definition = requirementsToPresentationDefinition('/financial', serviceConfig.endpointRequirements['/financial']);
+    const fields = definition.input_descriptors[0].constraints?.fields || [];
+
+    expect(fields.find(field => field.id === 'creditScore')?.predicate).toBe('preferred');
+    expect(fields.find(field => field.id === 'country')?.predicate).toBeUndefined();
+  });
+});
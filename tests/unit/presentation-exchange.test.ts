@@ -0,0 +1,151 @@
+import {
+  evaluatePresentationSubmission,
+  getPresentationDefinition,
+  matchesFilter,
+  requirementsToPresentationDefinition,
+  validatePresentationDefinition
+} from '../../src/utils/presentation-exchange';
+import { queryJsonPath } from '../../src/utils/json-path';
+import type { PresentationDefinition } from '../../src/models/types';
+
+const credential = (type: string, credentialSubject: Record<string, any>) => ({
+  type: ['VerifiableCredential', type],
+  credentialSubject
+});
+
+const presentationOf = (...credentials: any[]) => ({
+  type: ['VerifiablePresentation'],
+  verifiableCredential: credentials
+});
+
+const submissionFor = (definitionId: string, ids: string[]) => ({
+  id: 'submission-1',
+  definition_id: definitionId,
+  descriptor_map: ids.map((id, index) => ({
+    id,
+    format: 'ldp_vp',
+    path: '$',
+    path_nested: { format: 'ldp_vc', path: `$.verifiableCredential[${index}]` }
+  }))
+});
+
+describe('Presentation Exchange', () => {
+  describe('queryJsonPath', () => {
+    const document = { a: { b: [{ c: 1 }, { c: 2 }], 'd-e': true } };
+
+    it('should support member, index, wildcard, bracket and recursive selectors', () => {
+      expect(queryJsonPath(document, '$.a.b[1].c')).toEqual([2]);
+      expect(queryJsonPath(document, '$.a.b[*].c')).toEqual([1, 2]);
+      expect(queryJsonPath(document, '$.a[\'d-e\']')).toEqual([true]);
+      expect(queryJsonPath(document, '$..c')).toEqual([1, 2]);
+      expect(queryJsonPath(document, '$.missing')).toEqual([]);
+      expect(() => queryJsonPath(document, '$.a[?(@.c)]')).toThrow();
+    });
+  });
+
+  describe('matchesFilter', () => {
+    it('should apply JSON Schema keywords that fit the value type', () => {
+      expect(matchesFilter(['VerifiableCredential', 'X'], { type: 'array', contains: { const: 'X' } })).toBe(true);
+      expect(matchesFilter(650, { type: 'number', minimum: 600, maximum: 850 })).toBe(true);
+      expect(matchesFilter(599, { minimum: 600 })).toBe(false);
+      expect(matchesFilter('US', { enum: ['US', 'CA'] })).toBe(true);
+      expect(matchesFilter('2999-01-01', { type: 'string', formatMinimum: '2024-01-01' })).toBe(true);
+      expect(matchesFilter('abc', { pattern: '^[0-9]+$' })).toBe(false);
+    });
+  });
+
+  describe('requirementsToPresentationDefinition', () => {
+    it('should generate one descriptor per credential type with attribute filters', () => {
+      const definition = requirementsToPresentationDefinition('/verify-age', {
+        credentialTypes: ['BasicProfileCredential'],
+        attributeConstraints: [{ name: 'age', required: true, minValue: 18, maxValue: 120 }]
+      });
+
+      expect(definition.id).toBe('endpoint:verify-age');
+      expect(validatePresentationDefinition(definition)).toEqual([]);
+      expect(definition.input_descriptors[0].constraints?.fields?.[1]).toEqual({
+        id: 'age',
+        path: ['$.credentialSubject.age', '$.vc.credentialSubject.age', '$.age'],
+        filter: { minimum: 18, maximum: 120 },
+        optional: false
+      });
+
+      const presentation = presentationOf(credential('BasicProfileCredential', { age: 17 }));
+      const evaluation = evaluatePresentationSubmission(
+        definition,
+        submissionFor(definition.id, ['BasicProfileCredential']),
+        presentation
+      );
+      expect(evaluation.satisfied).toBe(false);
+      expect(evaluation.errors.map(error => error.code)).toEqual(['FIELD_FILTER_FAILED']);
+    });
+
+    it('should prefer a configured definition and reject invalid ones', () => {
+      const configured: PresentationDefinition = {
+        id: 'custom',
+        input_descriptors: [{ id: 'any', constraints: { fields: [{ path: ['$.type'] }] } }]
+      };
+
+      expect(getPresentationDefinition('/x', {
+        credentialTypes: [],
+        attributeConstraints: [],
+        presentationDefinition: configured
+      })).toBe(configured);
+      expect(() => getPresentationDefinition('/x', {
+        credentialTypes: [],
+        attributeConstraints: [],
+        presentationDefinition: { ...configured, submission_requirements: [{ rule: 'all', from: 'missing' }] }
+      })).toThrow(expect.objectContaining({ code: 'INVALID_PRESENTATION_DEFINITION' }));
+    });
+  });
+
+  describe('evaluatePresentationSubmission', () => {
+    // Either a passport or a driving licence, plus proof of address
+    const definition: PresentationDefinition = {
+      id: 'kyc',
+      format: { ldp_vc: {}, ldp_vp: {} },
+      submission_requirements: [
+        { name: 'Identity document', rule: 'pick', count: 1, from: 'identity' },
+        { name: 'Address', rule: 'all', from: 'address' }
+      ],
+      input_descriptors: ['Passport', 'DrivingLicence', 'UtilityBill'].map(type => ({
+        id: type,
+        group: [type === 'UtilityBill' ? 'address' : 'identity'],
+        constraints: {
+          fields: [{ path: ['$.type'], filter: { type: 'array', contains: { const: type } } }]
+        }
+      }))
+    };
+
+    it('should satisfy pick rules with any member of the group', () => {
+      const evaluation = evaluatePresentationSubmission(
+        definition,
+        submissionFor('kyc', ['DrivingLicence', 'UtilityBill']),
+        presentationOf(credential('DrivingLicence', {}), credential('UtilityBill', {}))
+      );
+
+      expect(evaluation.satisfied).toBe(true);
+      expect(Object.keys(evaluation.matches)).toEqual(['DrivingLicence', 'UtilityBill']);
+    });
+
+    it('should report unmet requirements, unresolved paths and unaccepted formats', () => {
+      const submission = submissionFor('kyc', ['Passport', 'UtilityBill']);
+      submission.descriptor_map[1].path_nested.format = 'jwt_vc';
+
+      const evaluation = evaluatePresentationSubmission(
+        definition,
+        { ...submission, descriptor_map: [...submission.descriptor_map, { id: 'Passport', format: 'ldp_vp', path: '$.nope' }] },
+        presentationOf(credential('UtilityBill', {}), credential('UtilityBill', {}))
+      );
+
+      expect(evaluation.satisfied).toBe(false);
+      expect(evaluation.errors.map(error => error.code)).toEqual([
+        'FIELD_FILTER_FAILED',
+        'FORMAT_NOT_ACCEPTED',
+        'PATH_NOT_RESOLVED',
+        'SUBMISSION_REQUIREMENT_NOT_MET',
+        'SUBMISSION_REQUIREMENT_NOT_MET'
+      ]);
+    });
+  });
+});
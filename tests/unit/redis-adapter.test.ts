@@ -0,0 +1,54 @@
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import attachRedisAdapter from '../../src/websocket/redis-adapter';
+
+jest.mock('ioredis');
+jest.mock('@socket.io/redis-adapter');
+
+describe('attachRedisAdapter', () => {
+  let pubClient: any;
+  let subClient: any;
+  let mockIO: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    subClient = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn(),
+      quit: jest.fn().mockResolvedValue('OK'),
+      on: jest.fn()
+    };
+    pubClient = {
+      ...subClient,
+      connect: jest.fn().mockResolvedValue(undefined),
+      duplicate: jest.fn().mockReturnValue(subClient)
+    };
+    (Redis as unknown as jest.Mock).mockImplementation(() => pubClient);
+    (createAdapter as jest.Mock).mockReturnValue('redis-adapter');
+
+    mockIO = { adapter: jest.fn() };
+  });
+
+  it('should install the Redis adapter once both clients connect', async () => {
+    const close = await attachRedisAdapter(mockIO, 'test-key');
+
+    expect(createAdapter).toHaveBeenCalledWith(pubClient, subClient, { key: 'test-key' });
+    expect(mockIO.adapter).toHaveBeenCalledWith('redis-adapter');
+
+    await close!();
+    expect(pubClient.quit).toHaveBeenCalled();
+    expect(subClient.quit).toHaveBeenCalled();
+  });
+
+  it('should keep the in-memory adapter when Redis is unreachable', async () => {
+    subClient.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const close = await attachRedisAdapter(mockIO);
+
+    expect(close).toBeNull();
+    expect(mockIO.adapter).not.toHaveBeenCalled();
+    expect(pubClient.disconnect).toHaveBeenCalled();
+    expect(subClient.disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import Redis from 'ioredis';
+import attachRedisStatusEvents from '../../src/services/redis-status-events';
+import StatusEventBus, { type StatusEvent } from '../../src/services/status-events';
+
+jest.mock('ioredis');
+
+// One Redis server shared by every client created in a test, with just the commands the transport uses
+const createFakeRedis = () => {
+  let sequence = 0;
+  const sortedSets = new Map<string, Array<{ score: number; member: string }>>();
+  const listeners: Array<(channel: string, message: string) => void> = [];
+
+  const createSubClient = () => {
+    const handlers: Array<(channel: string, message: string) => void> = [];
+    return {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn(),
+      quit: jest.fn().mockResolvedValue('OK'),
+      on: jest.fn((event: string, handler: any) => {
+        if (event === 'message') {
+          handlers.push(handler);
+        }
+      }),
+      subscribe: jest.fn(async () => {
+        listeners.push((channel, message) => handlers.forEach(handler => handler(channel, message)));
+      })
+    };
+  };
+
+  const createPubClient = () => ({
+    ...createSubClient(),
+    duplicate: jest.fn(() => createSubClient()),
+    incr: jest.fn(async () => ++sequence),
+    zrangebyscore: jest.fn(async (key: string, min: string) => {
+      const lower = min === '-inf' ? -Infinity : Number(min.replace('(', ''));
+      return (sortedSets.get(key) || []).filter(entry => entry.score > lower).map(entry => entry.member);
+    }),
+    multi: jest.fn(() => {
+      const ops: Array<() => void> = [];
+      const chain = {
+        zadd: (key: string, score: string, member: string) => {
+          ops.push(() => sortedSets.set(key, [...(sortedSets.get(key) || []), { score: Number(score), member }]));
+          return chain;
+        },
+        zremrangebyrank: (key: string, _start: number, stop: number) => {
+          ops.push(() => sortedSets.set(key, (sortedSets.get(key) || []).slice(stop + 1)));
+          return chain;
+        },
+        pexpire: () => chain,
+        publish: (channel: string, message: string) => {
+          ops.push(() => listeners.forEach(listener => listener(channel, message)));
+          return chain;
+        },
+        exec: jest.fn(async () => ops.forEach(op => op()))
+      };
+      return chain;
+    })
+  });
+
+  return { createPubClient };
+};
+
+// Resolves after the transport's publish round trip
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('attachRedisStatusEvents', () => {
+  let fakeRedis: ReturnType<typeof createFakeRedis>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fakeRedis = createFakeRedis();
+    (Redis as unknown as jest.Mock).mockImplementation(() => fakeRedis.createPubClient());
+  });
+
+  it('should deliver events to every instance under one ID sequence', async () => {
+    const first = new StatusEventBus();
+    const second = new StatusEventBus();
+    await attachRedisStatusEvents(first, { key: 'test' });
+    await attachRedisStatusEvents(second, { key: 'test' });
+    const received: StatusEvent[] = [];
+    second.subscribe('credential:cred-1', event => received.push(event));
+
+    first.credentialRevoked('cred-1');
+    second.credentialRevoked('cred-1');
+    await flushPromises();
+
+    expect(first.isDistributed).toBe(true);
+    expect(received.map(event => event.id)).toEqual(['1', '2']);
+  });
+
+  it('should replay events published by other instances after the last event ID', async () => {
+    const first = new StatusEventBus();
+    const restarted = new StatusEventBus();
+    await attachRedisStatusEvents(first, { key: 'test', replayBufferSize: 2 });
+    await attachRedisStatusEvents(restarted, { key: 'test', replayBufferSize: 2 });
+
+    first.sessionExpired('session-1');
+    first.sessionExpired('session-1');
+    first.credentialRevoked('cred-1');
+    first.sessionExpired('session-1');
+    await flushPromises();
+
+    expect((await restarted.replay('session:session-1')).map(event => event.id)).toEqual(['2', '4']);
+    expect((await restarted.replay('session:session-1', '2')).map(event => event.id)).toEqual(['4']);
+  });
+
+  it('should keep in-process delivery when Redis is unreachable', async () => {
+    const failing = fakeRedis.createPubClient();
+    failing.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+    (Redis as unknown as jest.Mock).mockImplementation(() => failing);
+    const bus = new StatusEventBus();
+
+    expect(await attachRedisStatusEvents(bus)).toBeNull();
+    expect(bus.isDistributed).toBe(false);
+    expect(failing.disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import RevocationMonitor, { type CredentialStatusChange } from '../../src/services/revocation-monitor';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import type CacheService from '../../src/services/cache.service';
+
+describe('RevocationMonitor', () => {
+  let revoked: Set<string>;
+  let subscribed: string[];
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let monitor: RevocationMonitor;
+
+  beforeEach(() => {
+    revoked = new Set();
+    subscribed = ['cred-subscribed'];
+
+    mockServiceProvider = {
+      listActiveSessionCredentialIds: jest.fn().mockResolvedValue(['cred-session', 'cred-subscribed']),
+      batchCheckRevocations: jest.fn().mockImplementation(async (ids: string[]) =>
+        new Map(ids.map(id => [id, revoked.has(id)]))
+      ),
+      invalidateCredentialSessions: jest.fn().mockResolvedValue([])
+    } as any;
+
+    monitor = new RevocationMonitor(mockServiceProvider, null, () => subscribed, { intervalMs: 0, batchSize: 1 });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('should check session and subscribed credentials in batches', async () => {
+    await monitor.checkNow();
+
+    expect(mockServiceProvider.batchCheckRevocations).toHaveBeenCalledTimes(2);
+    expect(mockServiceProvider.batchCheckRevocations).toHaveBeenCalledWith(['cred-subscribed']);
+    expect(mockServiceProvider.batchCheckRevocations).toHaveBeenCalledWith(['cred-session']);
+  });
+
+  it('should only report status changes', async () => {
+    const events: CredentialStatusChange[] = [];
+    monitor.on('change', change => events.push(change));
+
+    expect(await monitor.checkNow()).toEqual([]);
+
+    revoked.add('cred-session');
+    const changes = await monitor.checkNow();
+    await monitor.checkNow();
+
+    expect(changes).toEqual([expect.objectContaining({
+      credentialId: 'cred-session',
+      isRevoked: true,
+      status: 'revoked',
+      previousStatus: 'valid'
+    })]);
+    expect(events).toHaveLength(1);
+    expect(mockServiceProvider.invalidateCredentialSessions).toHaveBeenCalledWith(['cred-session'], 'credential_revoked');
+  });
+
+  it('should report credentials that are already revoked when first seen', async () => {
+    revoked.add('cred-subscribed');
+
+    const changes = await monitor.checkNow();
+
+    expect(changes).toEqual([expect.objectContaining({ credentialId: 'cred-subscribed', previousStatus: undefined })]);
+  });
+
+  it('should diff against the state shared in Redis', async () => {
+    const mockCacheService = {
+      getHashFields: jest.fn().mockResolvedValue({ 'cred-session': 'revoked', 'cred-subscribed': 'valid' }),
+      setHashFields: jest.fn().mockResolvedValue(true)
+    } as unknown as jest.Mocked<CacheService>;
+    monitor = new RevocationMonitor(mockServiceProvider, mockCacheService, () => subscribed, {
+      intervalMs: 0,
+      batchSize: 10
+    });
+
+    const changes = await monitor.checkNow();
+
+    expect(changes).toEqual([expect.objectContaining({ credentialId: 'cred-session', status: 'valid' })]);
+    expect(mockCacheService.setHashFields).toHaveBeenCalledWith(
+      'revocation:monitor:state',
+      { 'cred-subscribed': 'valid', 'cred-session': 'valid' },
+      86400
+    );
+    expect(mockServiceProvider.invalidateCredentialSessions).not.toHaveBeenCalled();
+  });
+});
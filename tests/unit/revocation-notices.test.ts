@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import RevocationNoticeVerifier from '../../src/services/revocation-notices';
+import { createDIDResolver } from '../../src/services/did-resolver';
+import type CacheService from '../../src/services/cache.service';
+import { base64UrlDecode, base64UrlEncode, encodeBase58btc } from '../../src/utils/encoding';
+
+const createIssuerKey = () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const raw = base64UrlDecode(publicKey.export({ format: 'jwk' }).x as string);
+  const fingerprint = `z${encodeBase58btc(Buffer.concat([Buffer.from([0xed, 0x01]), raw]))}`;
+  return { did: `did:key:${fingerprint}`, kid: `did:key:${fingerprint}#${fingerprint}`, privateKey };
+};
+
+const signNotice = (
+  key: { kid: string; privateKey: crypto.KeyObject },
+  payload: Record<string, any>,
+  header: Record<string, any> = {}
+): string => {
+  const encode = (value: Record<string, any>) => base64UrlEncode(JSON.stringify(value));
+  const signingInput = `${encode({ alg: 'EdDSA', kid: key.kid, ...header })}.${encode(payload)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+};
+
+describe('RevocationNoticeVerifier', () => {
+  const issuer = createIssuerKey();
+  let trusted: string[];
+  let verifier: RevocationNoticeVerifier;
+
+  const noticeFor = (overrides: Record<string, any> = {}) => ({
+    iss: issuer.did,
+    jti: crypto.randomUUID(),
+    iat: Math.floor(Date.now() / 1000),
+    credentialIds: ['cred-1', 'cred-2', 'cred-1'],
+    reason: 'key compromise',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    trusted = [issuer.did];
+    verifier = new RevocationNoticeVerifier(
+      createDIDResolver(null),
+      issuerDID => trusted.includes(issuerDID),
+      null,
+      { maxAgeSeconds: 300 }
+    );
+  });
+
+  it('should verify notices signed with the issuer DID key', async () => {
+    const payload = noticeFor();
+
+    const notice = await verifier.verify(signNotice(issuer, payload));
+
+    expect(notice).toEqual({
+      noticeId: payload.jti,
+      issuerDID: issuer.did,
+      credentialIds: ['cred-1', 'cred-2'],
+      reason: 'key compromise',
+      timestamp: payload.iat * 1000
+    });
+  });
+
+  it('should reject notices signed by a different key', async () => {
+    const impostor = createIssuerKey();
+
+    await expect(verifier.verify(signNotice({ ...impostor, kid: issuer.kid }, noticeFor())))
+      .rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('should reject notices from untrusted issuers', async () => {
+    trusted = [];
+
+    await expect(verifier.verify(signNotice(issuer, noticeFor())))
+      .rejects.toMatchObject({ code: 'UNTRUSTED_ISSUER' });
+  });
+
+  it('should reject stale, malformed and mismatched notices', async () => {
+    await expect(verifier.verify(signNotice(issuer, noticeFor({ iat: Math.floor(Date.now() / 1000) - 600 }))))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(verifier.verify(signNotice(issuer, noticeFor({ credentialIds: [] }))))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(verifier.verify(signNotice(issuer, noticeFor({ iss: 'did:key:zOther' }))))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(verifier.verify('not-a-jws')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should reject replayed notices', async () => {
+    const token = signNotice(issuer, noticeFor());
+
+    await verifier.verify(token);
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'CONFLICT_ERROR' });
+  });
+
+  it('should track processed notices in Redis when available', async () => {
+    const mockCacheService = {
+      consumeRevocationNotice: jest.fn().mockResolvedValue(false)
+    } as unknown as jest.Mocked<CacheService>;
+    verifier = new RevocationNoticeVerifier(createDIDResolver(null), () => true, mockCacheService, {
+      maxAgeSeconds: 300
+    });
+    const payload = noticeFor();
+
+    await expect(verifier.verify(signNotice(issuer, payload))).rejects.toMatchObject({ code: 'CONFLICT_ERROR' });
+    expect(mockCacheService.consumeRevocationNotice).toHaveBeenCalledWith(`${issuer.did}:${payload.jti}`, 360);
+  });
+});
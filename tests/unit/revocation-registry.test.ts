@@ -0,0 +1,216 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RevocationRegistry,
+  FileRevocationFeed,
+  HttpRevocationFeed,
+  createRevocationFeed,
+  type RevocationFeed
+} from '../../src/services/revocation-registry';
+import type CacheService from '../../src/services/cache.service';
+
+const ISSUER_A = 'did:key:issuerA';
+const ISSUER_B = 'did:key:issuerB';
+
+describe('RevocationRegistry', () => {
+  let mockCacheService: jest.Mocked<CacheService>;
+  let feed: jest.Mocked<RevocationFeed>;
+  let registry: RevocationRegistry;
+
+  beforeEach(() => {
+    mockCacheService = {
+      cacheRevocationList: jest.fn(),
+      getCachedRevocationList: jest.fn().mockResolvedValue(null),
+      getHashFields: jest.fn().mockResolvedValue(null),
+      setHashFields: jest.fn().mockResolvedValue(false),
+      addSetMembers: jest.fn().mockResolvedValue(null),
+      getSetMembers: jest.fn().mockResolvedValue([])
+    } as any;
+
+    feed = {
+      fetchRevocationList: jest.fn().mockImplementation(async (issuerDID: string) => {
+        return issuerDID === ISSUER_A ? ['cred-revoked'] : null;
+      })
+    };
+
+    registry = new RevocationRegistry(mockCacheService, feed, () => [ISSUER_A, ISSUER_B], 600);
+  });
+
+  it('should answer lookups deterministically from issuer lists', async () => {
+    const first = await registry.checkRevocations(['cred-revoked', 'cred-valid']);
+    const second = await registry.checkRevocations(['cred-revoked', 'cred-valid']);
+
+    expect(first.get('cred-revoked')).toBe(true);
+    expect(first.get('cred-valid')).toBe(false);
+    expect(second).toEqual(first);
+  });
+
+  it('should cache fetched lists and reuse them within the TTL', async () => {
+    await registry.checkRevocations(['cred-1']);
+    await registry.checkRevocations(['cred-1']);
+
+    expect(mockCacheService.cacheRevocationList).toHaveBeenCalledWith(ISSUER_A, ['cred-revoked'], 600);
+    expect(feed.fetchRevocationList).toHaveBeenCalledTimes(2); // once per issuer
+  });
+
+  it('should prefer lists already in the cache', async () => {
+    mockCacheService.getCachedRevocationList.mockResolvedValue(['cred-cached']);
+
+    const result = await registry.isRevoked('cred-cached', ISSUER_B);
+
+    expect(result).toBe(true);
+    expect(feed.fetchRevocationList).not.toHaveBeenCalled();
+  });
+
+  it('should keep the previous list when the feed fails', async () => {
+    await registry.refreshIssuer(ISSUER_A);
+    feed.fetchRevocationList.mockRejectedValue(new Error('feed down'));
+
+    const list = await registry.refreshIssuer(ISSUER_A);
+
+    expect(list.has('cred-revoked')).toBe(true);
+  });
+
+  it('should add revocations to an existing list', async () => {
+    await registry.addRevocations(ISSUER_A, ['cred-new']);
+
+    expect(await registry.isRevoked('cred-new', ISSUER_A)).toBe(true);
+    expect(await registry.isRevoked('cred-revoked', ISSUER_A)).toBe(true);
+  });
+
+  it('should keep pushed revocations across feed refreshes and instances', async () => {
+    const sets = new Map<string, Set<string>>();
+    mockCacheService.addSetMembers.mockImplementation(async (key: string, members: string[]) => {
+      const set = sets.get(key) || new Set<string>();
+      sets.set(key, set);
+      return members.filter(member => !set.has(member) && Boolean(set.add(member)));
+    });
+    mockCacheService.getSetMembers.mockImplementation(async (key: string) => Array.from(sets.get(key) || []));
+    const other = new RevocationRegistry(mockCacheService, feed, () => [ISSUER_A, ISSUER_B], 600);
+    const events: any[] = [];
+    other.on('revoked', event => events.push(event));
+
+    await registry.addRevocations(ISSUER_A, ['cred-pushed']);
+    await other.addRevocations(ISSUER_A, ['cred-pushed', 'cred-later']);
+    await registry.refreshIssuer(ISSUER_A);
+
+    expect(await registry.isRevoked('cred-later', ISSUER_A)).toBe(true);
+    expect(await other.isRevoked('cred-pushed', ISSUER_A)).toBe(true);
+    expect(await registry.isRevoked('cred-revoked', ISSUER_A)).toBe(true);
+    // The first instance announced cred-pushed; the second only its first look at the feed list and cred-later
+    expect(events.flatMap(event => event.credentialIds)).toEqual(['cred-revoked', 'cred-later']);
+  });
+
+  it('should not let an issuer revoke credentials verified as another issuer\'s', async () => {
+    const events: any[] = [];
+    registry.on('revoked', event => events.push(event));
+    await registry.recordCredentialIssuers({ 'cred-a': ISSUER_A, 'cred-b': ISSUER_B });
+
+    expect(await registry.addRevocations(ISSUER_B, ['cred-a', 'cred-b', 'cred-unknown'])).toEqual(['cred-b', 'cred-unknown']);
+    expect(events).toEqual([{ issuerDID: ISSUER_B, credentialIds: ['cred-b', 'cred-unknown'] }]);
+
+    // Lists are stored as published, but only apply to the issuer's own credentials
+    await registry.ingestRevocationList(ISSUER_B, ['cred-a', 'cred-b', 'cred-unknown']);
+    expect(events).toHaveLength(1);
+    const results = await registry.checkRevocations(['cred-a', 'cred-b', 'cred-unknown']);
+    expect(Object.fromEntries(results)).toEqual({ 'cred-a': false, 'cred-b': true, 'cred-unknown': true });
+
+    // The first verified issuer sticks
+    await registry.recordCredentialIssuers({ 'cred-a': ISSUER_B });
+    expect(await registry.getCredentialIssuers(['cred-a'])).toEqual({ 'cred-a': ISSUER_A });
+  });
+
+  it('should work without a feed using ingested lists only', async () => {
+    const standalone = new RevocationRegistry(null, null, () => [ISSUER_A]);
+
+    expect(await standalone.isRevoked('cred-1')).toBe(false);
+
+    await standalone.ingestRevocationList(ISSUER_A, ['cred-1']);
+    expect(await standalone.isRevoked('cred-1')).toBe(true);
+  });
+
+  it('should emit only newly revoked credentials', async () => {
+    const events: any[] = [];
+    registry.on('revoked', event => events.push(event));
+
+    await registry.ingestRevocationList(ISSUER_A, ['cred-1']);
+    await registry.ingestRevocationList(ISSUER_A, ['cred-1', 'cred-2']);
+    await registry.ingestRevocationList(ISSUER_A, ['cred-1', 'cred-2']);
+
+    expect(events).toEqual([
+      { issuerDID: ISSUER_A, credentialIds: ['cred-1'] },
+      { issuerDID: ISSUER_A, credentialIds: ['cred-2'] }
+    ]);
+  });
+});
+
+describe('FileRevocationFeed', () => {
+  let filePath: string;
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'revocations-'));
+    filePath = path.join(dir, 'revocations.json');
+    await fs.writeFile(filePath, JSON.stringify({ [ISSUER_A]: ['cred-1'] }));
+  });
+
+  it('should read the issuer list from the file', async () => {
+    const feed = new FileRevocationFeed(filePath);
+
+    expect(await feed.fetchRevocationList(ISSUER_A)).toEqual(['cred-1']);
+    expect(await feed.fetchRevocationList(ISSUER_B)).toBeNull();
+  });
+
+  it('should pick up changes to the file', async () => {
+    const feed = new FileRevocationFeed(filePath);
+    await fs.writeFile(filePath, JSON.stringify({ [ISSUER_A]: ['cred-1', 'cred-2'] }));
+
+    expect(await feed.fetchRevocationList(ISSUER_A)).toEqual(['cred-1', 'cred-2']);
+  });
+});
+
+describe('HttpRevocationFeed', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // Local stand-in for an issuer's revocation endpoint
+    server = createServer((req, res) => {
+      if (req.url === `/revocations/${encodeURIComponent(ISSUER_A)}`) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ revokedCredentials: ['cred-http'] }));
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should fetch the issuer list over HTTP', async () => {
+    const feed = new HttpRevocationFeed(`${baseUrl}/revocations/{issuer}`);
+
+    expect(await feed.fetchRevocationList(ISSUER_A)).toEqual(['cred-http']);
+  });
+
+  it('should return null when the issuer publishes no list', async () => {
+    const feed = new HttpRevocationFeed(`${baseUrl}/revocations/{issuer}`);
+
+    expect(await feed.fetchRevocationList(ISSUER_B)).toBeNull();
+  });
+});
+
+describe('createRevocationFeed', () => {
+  it('should create feeds from configuration', () => {
+    expect(createRevocationFeed('file', '/tmp/revocations.json')).toBeInstanceOf(FileRevocationFeed);
+    expect(createRevocationFeed('http', 'http://localhost/{issuer}')).toBeInstanceOf(HttpRevocationFeed);
+    expect(createRevocationFeed('none')).toBeNull();
+  });
+});
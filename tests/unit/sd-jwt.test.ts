@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import SdJwtVerifier from '../../src/services/sd-jwt-verifier';
+import { createDIDResolver } from '../../src/services/did-resolver';
+import { decodeSdJwt, hashSdJwtValue, isSdJwt } from '../../src/utils/sd-jwt';
+import { signJws } from '../../src/utils/jws';
+import { base64UrlDecode, base64UrlEncode, encodeBase58btc } from '../../src/utils/encoding';
+
+const createIssuerKey = () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const raw = base64UrlDecode(publicKey.export({ format: 'jwk' }).x as string);
+  const fingerprint = `z${encodeBase58btc(Buffer.concat([Buffer.from([0xed, 0x01]), raw]))}`;
+  return { did: `did:key:${fingerprint}`, kid: `did:key:${fingerprint}#${fingerprint}`, privateKey };
+};
+
+const disclose = (...values: any[]): string => {
+  return base64UrlEncode(JSON.stringify([crypto.randomBytes(16).toString('base64url'), ...values]));
+};
+
+describe('SD-JWT VC', () => {
+  const issuer = createIssuerKey();
+  const holder = crypto.generateKeyPairSync('ed25519');
+  const holderJwk = holder.publicKey.export({ format: 'jwk' });
+  const now = Math.floor(Date.now() / 1000);
+
+  const ageDisclosure = disclose('age', 34);
+  const countryDisclosure = disclose('country', 'US');
+  const nationalityDisclosure = disclose('DE');
+
+  const issuerJwt = (overrides: Record<string, any> = {}) => signJws(
+    { typ: 'dc+sd-jwt', kid: issuer.kid },
+    {
+      iss: issuer.did,
+      vct: 'BasicProfileCredential',
+      iat: now - 60,
+      exp: now + 3600,
+      cnf: { jwk: holderJwk },
+      _sd_alg: 'sha-256',
+      _sd: [hashSdJwtValue(ageDisclosure), hashSdJwtValue(countryDisclosure), hashSdJwtValue('decoy')],
+      nationalities: [{ '...': hashSdJwtValue(nationalityDisclosure) }, 'FR'],
+      ...overrides
+    },
+    issuer.privateKey
+  );
+
+  const present = (
+    disclosures: string[],
+    keyBinding: Record<string, any> = {},
+    jwt: string = issuerJwt()
+  ): string => {
+    const sdJwt = `${jwt}~${disclosures.map(disclosure => `${disclosure}~`).join('')}`;
+    return sdJwt + signJws(
+      { typ: 'kb+jwt' },
+      { iat: now, aud: 'did:key:verifier', nonce: 'challenge-1', sd_hash: hashSdJwtValue(sdJwt), ...keyBinding },
+      holder.privateKey
+    );
+  };
+
+  const verifier = new SdJwtVerifier(createDIDResolver(null));
+  const expectation = { nonce: 'challenge-1', audience: 'did:key:verifier' };
+
+  it('should reconstruct only the disclosed claims', () => {
+    const token = present([countryDisclosure, nationalityDisclosure]);
+
+    expect(isSdJwt(token)).toBe(true);
+    expect(isSdJwt(issuerJwt())).toBe(false);
+    expect(decodeSdJwt(token)).toEqual(expect.objectContaining({
+      vct: 'BasicProfileCredential',
+      country: 'US',
+      nationalities: ['DE', 'FR']
+    }));
+    expect(decodeSdJwt(token)).not.toHaveProperty('age');
+    expect(() => decodeSdJwt(present([countryDisclosure, countryDisclosure]))).toThrow();
+    expect(() => decodeSdJwt(present([disclose('unreferenced', true)]))).toThrow();
+  });
+
+  it('should verify the issuer signature and key binding and map disclosures to attributes', async () => {
+    const result = await verifier.verify(present([ageDisclosure, countryDisclosure]), expectation);
+
+    expect(result.errors).toEqual([]);
+    expect(result).toEqual(expect.objectContaining({
+      isValid: true,
+      holderDID: expect.stringMatching(/^did:jwk:/),
+      disclosedAttributes: { age: 34, country: 'US', nationalities: ['FR'] },
+      verificationMethod: 'sd-jwt'
+    }));
+    expect(result.credentials?.[0]).toEqual(expect.objectContaining({
+      issuer: issuer.did,
+      type: ['BasicProfileCredential'],
+      expirationDate: new Date((now + 3600) * 1000).toISOString()
+    }));
+  });
+
+  it('should reject key binding JWTs for another request or other disclosures', async () => {
+    const codes = async (token: string) => (await verifier.verify(token, expectation)).errors?.map(error => error.code);
+
+    expect(await codes(present([ageDisclosure], { nonce: 'other', aud: 'did:key:other' })))
+      .toEqual(['CHALLENGE_MISMATCH', 'DOMAIN_MISMATCH']);
+    expect(await codes(present([ageDisclosure], { sd_hash: hashSdJwtValue('other') }))).toEqual(['INVALID_KEY_BINDING']);
+    expect(await codes(present([ageDisclosure], { iat: now - 3600 }))).toEqual(['INVALID_KEY_BINDING']);
+    expect(await codes(`${issuerJwt()}~${ageDisclosure}~`)).toEqual(['MISSING_KEY_BINDING']);
+  });
+
+  it('should require unbound key binding JWTs to be addressed to this service', async () => {
+    const serviceVerifier = new SdJwtVerifier(createDIDResolver(null), { audience: 'did:key:verifier' });
+    const codes = async (token: string) => (await serviceVerifier.verify(token)).errors?.map(error => error.code);
+
+    expect(await codes(present([ageDisclosure]))).toEqual([]);
+    expect(await codes(present([ageDisclosure], { aud: 'did:key:other' }))).toEqual(['DOMAIN_MISMATCH']);
+    expect(await codes(present([ageDisclosure], { iat: now - 3600 }))).toEqual(['INVALID_KEY_BINDING']);
+  });
+
+  it('should reject tampered, expired and foreign-signed credentials', async () => {
+    const codes = async (token: string) => (await verifier.verify(token, expectation)).errors?.map(error => error.code);
+    const [header, payload, signature] = issuerJwt().split('.');
+    const tampered = JSON.parse(base64UrlDecode(payload).toString('utf8'));
+    tampered.vct = 'AdminCredential';
+
+    expect(await codes(present([], {}, `${header}.${base64UrlEncode(JSON.stringify(tampered))}.${signature}`)))
+      .toEqual(['INVALID_SIGNATURE']);
+    expect(await codes(present([], {}, issuerJwt({ exp: now - 3600 })))).toEqual(['EXPIRED_CREDENTIAL']);
+    expect(await codes(present([], {}, issuerJwt({ iss: createIssuerKey().did })))).toEqual(['INVALID_SIGNATURE']);
+  });
+});
@@ -1,5 +1,10 @@
 import ServiceProviderService from '../../src/services/service-provider.service';
-import { ValidationError, ServiceError } from '../../src/utils/errors';
+import {
+  ValidationError,
+  ServiceError,
+  InvalidPresentationError,
+  MissingAttributesError
+} from '../../src/utils/errors';
 
 // Mock anon-identity module
 jest.mock('anon-identity', () => ({
@@ -102,6 +107,85 @@ describe('ServiceProviderService', () => {
     });
   });
 
+  describe('presentation binding', () => {
+    const mockResult = {
+      isValid: true,
+      holderDID: 'did:test:holder',
+      credentialIds: ['cred-1'],
+      disclosedAttributes: {}
+    };
+
+    it('should accept a presentation bound to the request challenge and domain', async () => {
+      const mockValidate = jest.fn().mockResolvedValue(mockResult);
+      (serviceProvider as any).serviceProvider.validatePresentationAgainstRequest = mockValidate;
+
+      const result = await serviceProvider.verifyPresentationWithRequest(
+        { proof: { challenge: 'abc', domain: 'localhost:3000' } } as any,
+        { requestId: 'req-1', challenge: 'abc', domain: 'localhost:3000' }
+      );
+
+      expect(result).toEqual(mockResult);
+    });
+
+    it('should reject a presentation with a mismatched challenge', async () => {
+      const mockValidate = jest.fn().mockResolvedValue(mockResult);
+      (serviceProvider as any).serviceProvider.validatePresentationAgainstRequest = mockValidate;
+
+      await expect(
+        serviceProvider.verifyPresentationWithRequest(
+          { proof: { challenge: 'other', domain: 'localhost:3000' } } as any,
+          { requestId: 'req-1', challenge: 'abc', domain: 'localhost:3000' }
+        )
+      ).rejects.toThrow(InvalidPresentationError);
+      expect(mockValidate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a presentation with a mismatched domain', async () => {
+      (serviceProvider as any).serviceProvider.validatePresentationAgainstRequest = jest.fn();
+
+      await expect(
+        serviceProvider.verifyPresentationWithRequest(
+          { proof: [{ challenge: 'abc', domain: 'evil.example' }] } as any,
+          { requestId: 'req-1', challenge: 'abc', domain: 'localhost:3000' }
+        )
+      ).rejects.toThrow(InvalidPresentationError);
+    });
+  });
+
+  describe('attribute constraint enforcement', () => {
+    it('should throw MissingAttributesError when a required attribute is missing', async () => {
+      (serviceProvider as any).serviceProvider.validatePresentationAgainstRequest = jest.fn().mockResolvedValue({
+        isValid: true,
+        holderDID: 'did:test:holder',
+        credentialIds: ['cred-1'],
+        disclosedAttributes: { isOver21: true }
+      });
+
+      await expect(
+        serviceProvider.verifyPresentationWithRequest({} as any, {
+          requestId: 'req-1',
+          attributeConstraints: [{ name: 'creditScore', required: true, minValue: 600 }]
+        })
+      ).rejects.toThrow(MissingAttributesError);
+    });
+
+    it('should throw InvalidPresentationError when a constraint is violated', async () => {
+      (serviceProvider as any).serviceProvider.validatePresentationAgainstRequest = jest.fn().mockResolvedValue({
+        isValid: true,
+        holderDID: 'did:test:holder',
+        credentialIds: ['cred-1'],
+        disclosedAttributes: { creditScore: 550 }
+      });
+
+      await expect(
+        serviceProvider.verifyPresentationWithRequest({} as any, {
+          requestId: 'req-1',
+          attributeConstraints: [{ name: 'creditScore', required: true, minValue: 600 }]
+        })
+      ).rejects.toThrow(InvalidPresentationError);
+    });
+  });
+
   describe('createSessionFromVerification', () => {
     it('should create session successfully', async () => {
       const mockVerificationResult = {
@@ -0,0 +1,64 @@
+import SessionExpiryScheduler from '../../src/services/session-expiry-scheduler';
+
+// A credential expiry that also ends the session
+const at = (ms: number): [Date, Date] => [new Date(Date.now() + ms), new Date(Date.now() + ms)];
+
+describe('SessionExpiryScheduler', () => {
+  let onExpire: jest.Mock;
+  let scheduler: SessionExpiryScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onExpire = jest.fn().mockResolvedValue(true);
+    scheduler = new SessionExpiryScheduler(onExpire);
+  });
+
+  afterEach(() => {
+    scheduler.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('should invalidate a session when its credential expires', () => {
+    scheduler.schedule('session-1', ...at(60000));
+
+    jest.advanceTimersByTime(59999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledWith('session-1');
+    expect(scheduler.size).toBe(0);
+  });
+
+  it('should replace and cancel pending timers', () => {
+    scheduler.schedule('session-1', ...at(60000));
+    scheduler.schedule('session-1', ...at(120000));
+    scheduler.schedule('session-2', ...at(60000));
+    scheduler.cancel('session-2');
+
+    jest.advanceTimersByTime(60000);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not track sessions that expire before their credentials', () => {
+    scheduler.schedule('session-1', new Date(Date.now() + 120000), new Date(Date.now() + 60000));
+
+    expect(scheduler.size).toBe(0);
+    jest.advanceTimersByTime(120000);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+
+  it('should re-arm expiries beyond the maximum timer delay', () => {
+    const fortyDays = 40 * 24 * 3600 * 1000;
+    scheduler.schedule('session-1', ...at(fortyDays));
+
+    jest.advanceTimersByTime(2 ** 31 - 1);
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(scheduler.size).toBe(1);
+
+    jest.advanceTimersByTime(fortyDays - (2 ** 31 - 1));
+    expect(onExpire).toHaveBeenCalledWith('session-1');
+  });
+});
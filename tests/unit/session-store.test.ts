@@ -0,0 +1,228 @@
+import {
+  InMemorySessionStore,
+  RedisSessionStore,
+  createSessionStore
+} from '../../src/services/session-store';
+import type CacheService from '../../src/services/cache.service';
+import type { ExtendedSession } from '../../src/models/types';
+
+const buildSession = (overrides: Partial<ExtendedSession> = {}): ExtendedSession => ({
+  id: 'session-123',
+  holderDID: 'did:test:holder',
+  credentialIds: ['cred-1'],
+  attributes: { age: 25 },
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 3600000),
+  ...overrides
+});
+
+describe('InMemorySessionStore', () => {
+  let store: InMemorySessionStore;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore();
+  });
+
+  afterEach(() => {
+    store.shutdown();
+  });
+
+  it('should save and retrieve a session', async () => {
+    const session = buildSession();
+
+    await store.save(session);
+    const result = await store.get('session-123');
+
+    expect(result).toEqual(session);
+  });
+
+  it('should return null for unknown sessions', async () => {
+    const result = await store.get('unknown');
+
+    expect(result).toBeNull();
+  });
+
+  it('should not return expired sessions', async () => {
+    await store.save(buildSession({ expiresAt: new Date(Date.now() - 1000) }));
+
+    const result = await store.get('session-123');
+
+    expect(result).toBeNull();
+  });
+
+  it('should delete sessions', async () => {
+    await store.save(buildSession());
+
+    expect(await store.delete('session-123')).toBe(true);
+    expect(await store.get('session-123')).toBeNull();
+    expect(await store.delete('session-123')).toBe(false);
+  });
+
+  it('should not re-create a deleted session when recording an access', async () => {
+    await store.save(buildSession());
+    const accessedAt = new Date();
+
+    expect(await store.touch('session-123', accessedAt)).toBe(true);
+    expect((await store.get('session-123'))?.lastAccessedAt).toBe(accessedAt);
+
+    await store.delete('session-123');
+    expect(await store.touch('session-123', new Date())).toBe(false);
+    expect(await store.get('session-123')).toBeNull();
+    expect(await store.listByHolder('did:test:holder')).toEqual([]);
+  });
+
+  it('should purge expired sessions', async () => {
+    await store.save(buildSession({ id: 'expired', expiresAt: new Date(Date.now() - 1000) }));
+    await store.save(buildSession({ id: 'active' }));
+
+    const purged = store.purgeExpired();
+
+    expect(purged).toBe(1);
+    expect(await store.get('active')).not.toBeNull();
+  });
+
+  it('should list active sessions by holder', async () => {
+    await store.save(buildSession({ id: 'first' }));
+    await store.save(buildSession({ id: 'second' }));
+    await store.save(buildSession({ id: 'expired', expiresAt: new Date(Date.now() - 1000) }));
+    await store.save(buildSession({ id: 'other', holderDID: 'did:test:other' }));
+    await store.delete('second');
+
+    const sessions = await store.listByHolder('did:test:holder');
+
+    expect(sessions.map(session => session.id)).toEqual(['first']);
+    expect(await store.listByHolder('did:test:unknown')).toEqual([]);
+  });
+
+  it('should list sessions by backing credential', async () => {
+    await store.save(buildSession({ id: 'first', credentialIds: ['cred-1', 'cred-2'] }));
+    await store.save(buildSession({ id: 'second', credentialIds: ['cred-2'] }));
+
+    expect((await store.listByCredential('cred-2')).map(session => session.id)).toEqual(['first', 'second']);
+
+    await store.delete('first');
+    expect(await store.listByCredential('cred-1')).toEqual([]);
+  });
+
+  it('should list credentials backing active sessions', async () => {
+    await store.save(buildSession({ id: 'active', credentialIds: ['cred-1'] }));
+    await store.save(buildSession({ id: 'expired', credentialIds: ['cred-2'], expiresAt: new Date(Date.now() - 1000) }));
+
+    expect(await store.listActiveCredentialIds()).toEqual(['cred-1']);
+  });
+});
+
+describe('RedisSessionStore', () => {
+  let mockCacheService: jest.Mocked<CacheService>;
+  let store: RedisSessionStore;
+
+  beforeEach(() => {
+    mockCacheService = {
+      get: jest.fn(),
+      set: jest.fn().mockResolvedValue(true),
+      update: jest.fn().mockResolvedValue(true),
+      delete: jest.fn().mockResolvedValue(true),
+      addToSet: jest.fn().mockResolvedValue(true),
+      getSetMembers: jest.fn().mockResolvedValue([]),
+      removeFromSet: jest.fn().mockResolvedValue(true),
+      addToSortedSet: jest.fn().mockResolvedValue(true),
+      getSortedSetMembers: jest.fn().mockResolvedValue([])
+    } as any;
+
+    store = new RedisSessionStore(mockCacheService);
+  });
+
+  it('should store sessions with a TTL matching the expiry', async () => {
+    const session = buildSession();
+
+    await store.save(session);
+
+    expect(mockCacheService.set).toHaveBeenCalledWith(
+      'session:data:session-123',
+      session,
+      3600
+    );
+    expect(mockCacheService.addToSet).toHaveBeenCalledWith('session:holder:did:test:holder', ['session-123'], 3600);
+    expect(mockCacheService.addToSet).toHaveBeenCalledWith('session:credential:cred-1', ['session-123'], 3600);
+    expect(mockCacheService.addToSortedSet).toHaveBeenCalledWith(
+      'session:credentials:active',
+      { 'cred-1': session.expiresAt.getTime() }
+    );
+  });
+
+  it('should throw when the cache cannot persist the session', async () => {
+    mockCacheService.set.mockResolvedValue(false);
+
+    await expect(store.save(buildSession())).rejects.toThrow('Failed to persist session');
+  });
+
+  it('should revive dates when reading a session', async () => {
+    const session = buildSession();
+    mockCacheService.get.mockResolvedValue(JSON.parse(JSON.stringify(session)));
+
+    const result = await store.get('session-123');
+
+    expect(result?.createdAt).toBeInstanceOf(Date);
+    expect(result?.expiresAt).toBeInstanceOf(Date);
+    expect(result?.expiresAt.getTime()).toBe(session.expiresAt.getTime());
+  });
+
+  it('should record accesses only while the session key still exists', async () => {
+    mockCacheService.get.mockResolvedValue(JSON.parse(JSON.stringify(buildSession())));
+    mockCacheService.update.mockResolvedValue(false);
+    const accessedAt = new Date();
+
+    expect(await store.touch('session-123', accessedAt)).toBe(false);
+    expect(mockCacheService.update).toHaveBeenCalledWith(
+      'session:data:session-123',
+      expect.objectContaining({ id: 'session-123', lastAccessedAt: accessedAt }),
+      expect.any(Number)
+    );
+    expect(mockCacheService.set).not.toHaveBeenCalled();
+    expect(mockCacheService.addToSet).not.toHaveBeenCalled();
+  });
+
+  it('should delete the stored session key', async () => {
+    const result = await store.delete('session-123');
+
+    expect(result).toBe(true);
+    expect(mockCacheService.delete).toHaveBeenCalledWith('session:data:session-123');
+  });
+
+  it('should remove deleted sessions from the holder index', async () => {
+    mockCacheService.get.mockResolvedValue(JSON.parse(JSON.stringify(buildSession())));
+
+    await store.delete('session-123');
+
+    expect(mockCacheService.removeFromSet).toHaveBeenCalledWith('session:holder:did:test:holder', ['session-123']);
+    expect(mockCacheService.removeFromSet).toHaveBeenCalledWith('session:credential:cred-1', ['session-123']);
+  });
+
+  it('should list sessions by holder and prune expired index entries', async () => {
+    mockCacheService.getSetMembers.mockResolvedValue(['session-123', 'gone']);
+    mockCacheService.get.mockImplementation(async (key: string) =>
+      key === 'session:data:session-123' ? JSON.parse(JSON.stringify(buildSession())) : null
+    );
+
+    const sessions = await store.listByHolder('did:test:holder');
+
+    expect(sessions.map(session => session.id)).toEqual(['session-123']);
+    expect(mockCacheService.removeFromSet).toHaveBeenCalledWith('session:holder:did:test:holder', ['gone']);
+  });
+});
+
+describe('createSessionStore', () => {
+  it('should create a memory store by default', () => {
+    expect(createSessionStore('memory')).toBeInstanceOf(InMemorySessionStore);
+  });
+
+  it('should create a redis store when a cache service is provided', () => {
+    const store = createSessionStore('redis', {} as CacheService);
+
+    expect(store).toBeInstanceOf(RedisSessionStore);
+  });
+
+  it('should require a cache service for the redis store', () => {
+    expect(() => createSessionStore('redis')).toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+import StatusEventBus, { type StatusEvent } from '../../src/services/status-events';
+
+describe('StatusEventBus', () => {
+  let bus: StatusEventBus;
+
+  beforeEach(() => {
+    bus = new StatusEventBus({ replayBufferSize: 2 });
+  });
+
+  it('should deliver events to subscribers of the channel only', () => {
+    const received: StatusEvent[] = [];
+    const unsubscribe = bus.subscribe('credential:cred-1', event => received.push(event));
+
+    bus.credentialRevoked('cred-1', 'did:key:issuer', 'compromised');
+    bus.credentialRevoked('cred-2');
+    unsubscribe();
+    bus.credentialRevoked('cred-1');
+
+    expect(received).toEqual([{
+      id: '1',
+      channel: 'credential:cred-1',
+      event: 'credential:status',
+      data: expect.objectContaining({ credentialId: 'cred-1', isRevoked: true, reason: 'compromised' })
+    }]);
+  });
+
+  it('should fan out issuer revocations alongside credential status', () => {
+    const received: StatusEvent[] = [];
+    bus.on('event', event => received.push(event));
+
+    bus.revocationNotice({
+      noticeId: 'notice-1',
+      issuerDID: 'did:key:issuer',
+      credentialIds: ['cred-1'],
+      reason: 'superseded',
+      timestamp: Date.now()
+    });
+
+    expect(received.map(event => [event.channel, event.event])).toEqual([
+      ['credential:cred-1', 'credential:status'],
+      ['issuer:did:key:issuer', 'issuer:revocation']
+    ]);
+    expect(received[1].data.reason).toBe('Issuer revocation notice: superseded');
+  });
+
+  it('should replay buffered events after the last event ID', async () => {
+    bus.sessionExpired('session-1');
+    bus.credentialRevoked('cred-1');
+    bus.sessionExpired('session-1');
+    bus.sessionExpired('session-1');
+
+    // Buffer keeps the two most recent events of the channel
+    expect((await bus.replay('session:session-1')).map(event => event.id)).toEqual(['3', '4']);
+    expect((await bus.replay('session:session-1', '3')).map(event => event.id)).toEqual(['4']);
+    expect(await bus.replay('session:session-1', '4')).toEqual([]);
+  });
+
+  it('should deliver through the transport and fall back to this instance when it fails', async () => {
+    const received: StatusEvent[] = [];
+    bus.on('event', event => received.push(event));
+    const transport = {
+      publish: jest.fn().mockImplementation(async (event: Omit<StatusEvent, 'id'>) => ({ id: '41', ...event })),
+      replay: jest.fn().mockResolvedValue([])
+    };
+    bus.setTransport(transport);
+
+    // Events published through a transport arrive back through deliver()
+    bus.sessionExpired('session-1');
+    await Promise.resolve();
+    expect(transport.publish).toHaveBeenCalledWith(expect.objectContaining({ channel: 'session:session-1' }));
+    expect(received).toEqual([]);
+
+    transport.publish.mockRejectedValue(new Error('Redis unavailable'));
+    bus.sessionExpired('session-2');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(received.map(event => event.channel)).toEqual(['session:session-2']);
+
+    await bus.replay('session:session-1', '40');
+    expect(transport.replay).toHaveBeenCalledWith('session:session-1', '40');
+  });
+
+  it('should report keys with active channel subscribers', () => {
+    const unsubscribe = bus.subscribe('credential:cred-1', () => undefined);
+    bus.subscribe('credential:cred-1', () => undefined);
+    bus.subscribe('session:session-1', () => undefined);
+
+    unsubscribe();
+
+    expect(bus.getSubscribedKeys('credential')).toEqual(['cred-1']);
+    expect(bus.getSubscribedKeys('issuer')).toEqual([]);
+  });
+});
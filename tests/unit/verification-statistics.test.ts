@@ -0,0 +1,125 @@
+import {
+  VerificationStatisticsRecorder,
+  summarizeCounters
+} from '../../src/services/verification-statistics';
+import type CacheService from '../../src/services/cache.service';
+
+describe('summarizeCounters', () => {
+  it('should return zeroed statistics without samples', () => {
+    const summary = summarizeCounters({});
+
+    expect(summary.totalVerifications).toBe(0);
+    expect(summary.successRate).toBe(0);
+    expect(summary.latencyPercentiles).toEqual({ p50: 0, p95: 0, p99: 0 });
+  });
+
+  it('should compute rates, averages and percentiles from counters', () => {
+    const summary = summarizeCounters({
+      total: 100,
+      successful: 90,
+      failed: 10,
+      latencySum: 3000,
+      'latency:25': 50,
+      'latency:50': 45,
+      'latency:1000': 5,
+      'error:REVOKED_CREDENTIAL': 10
+    });
+
+    expect(summary.successRate).toBe(90);
+    expect(summary.averageProcessingTime).toBe(30);
+    expect(summary.latencyPercentiles).toEqual({ p50: 25, p95: 50, p99: 1000 });
+    expect(summary.errorCodes).toEqual({ REVOKED_CREDENTIAL: 10 });
+  });
+});
+
+describe('VerificationStatisticsRecorder', () => {
+  describe('without a cache service', () => {
+    let recorder: VerificationStatisticsRecorder;
+
+    beforeEach(() => {
+      recorder = new VerificationStatisticsRecorder(null);
+    });
+
+    it('should aggregate single and batch verifications', async () => {
+      await recorder.recordVerification({ success: true, processingTimeMs: 20 });
+      await recorder.recordBatch([
+        { success: true, processingTimeMs: 40 },
+        { success: false, processingTimeMs: 60, errorCode: 'EXPIRED_CREDENTIAL' }
+      ]);
+
+      const stats = await recorder.getStatistics();
+
+      expect(stats.totalVerifications).toBe(3);
+      expect(stats.successful).toBe(2);
+      expect(stats.failed).toBe(1);
+      expect(stats.totalBatches).toBe(1);
+      expect(stats.errorCodes).toEqual({ EXPIRED_CREDENTIAL: 1 });
+      expect(stats.lastHour.totalVerifications).toBe(3);
+      expect(stats.lastDay.totalVerifications).toBe(3);
+    });
+
+    it('should drop samples outside the rolling windows', async () => {
+      await recorder.recordVerification({ success: true, processingTimeMs: 10 });
+
+      const stats = await recorder.getStatistics(Date.now() + 2 * 60 * 60 * 1000);
+
+      expect(stats.totalVerifications).toBe(1);
+      expect(stats.lastHour.totalVerifications).toBe(0);
+      expect(stats.lastDay.totalVerifications).toBe(1);
+    });
+  });
+
+  describe('with a cache service', () => {
+    let mockCacheService: jest.Mocked<CacheService>;
+    let recorder: VerificationStatisticsRecorder;
+
+    beforeEach(() => {
+      mockCacheService = {
+        incrementHashFields: jest.fn().mockResolvedValue(true),
+        getHashCounters: jest.fn()
+      } as any;
+      recorder = new VerificationStatisticsRecorder(mockCacheService);
+    });
+
+    it('should write counters to the total, minute and hour buckets', async () => {
+      await recorder.recordVerification({ success: false, processingTimeMs: 7, errorCode: 'UNTRUSTED_ISSUER' });
+
+      expect(mockCacheService.incrementHashFields).toHaveBeenCalledTimes(3);
+      expect(mockCacheService.incrementHashFields).toHaveBeenCalledWith(
+        'stats:verification:total',
+        { total: 1, failed: 1, latencySum: 7, 'latency:10': 1, 'error:UNTRUSTED_ISSUER': 1 },
+        undefined
+      );
+      expect(mockCacheService.incrementHashFields).toHaveBeenCalledWith(
+        expect.stringMatching(/^stats:verification:minute:\d+$/),
+        expect.any(Object),
+        7200
+      );
+    });
+
+    it('should aggregate counters read from the cache', async () => {
+      const bucket: Record<string, number> = { total: 4, successful: 4, latencySum: 40, 'latency:10': 4 };
+      mockCacheService.getHashCounters.mockImplementation(async (keys: string[]) =>
+        keys.map(key => (key.includes(':hour:') ? {} : bucket))
+      );
+
+      const stats = await recorder.getStatistics();
+
+      expect(stats.totalVerifications).toBe(4);
+      expect(stats.lastHour.totalVerifications).toBe(240);
+      expect(stats.lastDay.totalVerifications).toBe(0);
+      expect(stats.successRate).toBe(100);
+    });
+
+    it('should keep counters locally when the cache write fails', async () => {
+      mockCacheService.incrementHashFields.mockResolvedValue(false);
+      mockCacheService.getHashCounters.mockResolvedValue(null);
+
+      await recorder.recordVerification({ success: true, processingTimeMs: 5 });
+      const stats = await recorder.getStatistics();
+
+      expect(stats.totalVerifications).toBe(1);
+      expect(stats.lastHour.successful).toBe(1);
+    });
+  });
+});
@@ -2,7 +2,13 @@ import type { Request, Response } from 'express';
 import VerificationController from '../../src/controllers/verification.controller';
 import type ServiceProviderService from '../../src/services/service-provider.service';
 import type CacheService from '../../src/services/cache.service';
-import { ValidationError, InvalidPresentationError } from '../../src/utils/errors';
+import {
+  ValidationError,
+  AuthenticationError,
+  InvalidPresentationError,
+  NotFoundError,
+  ReplayedPresentationError
+} from '../../src/utils/errors';
 
 // Mock dependencies
 jest.mock('../../src/services/service-provider.service');
@@ -25,8 +31,7 @@ describe('VerificationController', () => {
       createSessionFromVerification: jest.fn(),
       batchVerifyPresentations: jest.fn(),
       batchCheckRevocations: jest.fn(),
-      getBatchStatistics: jest.fn(),
-      verifyPresentation: jest.fn()
+      getBatchStatistics: jest.fn()
     } as any;
 
     mockCacheService = {
@@ -34,6 +39,8 @@ describe('VerificationController', () => {
       get: jest.fn(),
       cachePresentationRequest: jest.fn(),
       getCachedPresentationRequest: jest.fn(),
+      consumePresentationRequest: jest.fn().mockResolvedValue(true),
+      isPresentationRequestConsumed: jest.fn().mockResolvedValue(false),
       cacheSessionMetadata: jest.fn(),
       cacheBatchResult: jest.fn(),
       getCachedBatchResult: jest.fn()
@@ -57,21 +64,33 @@ describe('VerificationController', () => {
   describe('getRequirements', () => {
     it('should return service requirements for valid endpoint', async () => {
       mockRequest.query = { endpoint: '/profile' };
-      mockCacheService.set.mockResolvedValue(true);
+      const presentationRequest = {
+        requestId: 'req-123',
+        challenge: 'challenge-123',
+        domain: 'example.com'
+      };
+      mockServiceProvider.createPresentationRequest.mockResolvedValue(presentationRequest);
 
       await controller.getRequirements(mockRequest as Request, mockResponse as Response);
 
+      // Cached as a consumable request, so verifyPresentation accepts the returned requestId
+      expect(mockCacheService.cachePresentationRequest).toHaveBeenCalledWith(
+        'req-123',
+        { ...presentationRequest, endpoint: '/profile' },
+        300
+      );
       expect(mockResponse.json).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceDID: expect.any(String),
           serviceName: expect.any(String),
           endpoint: '/profile',
-          requestId: expect.any(String),
+          requestId: 'req-123',
           requirements: expect.objectContaining({
             credentialTypes: expect.any(Array),
             attributeConstraints: expect.any(Array)
           }),
-          challenge: expect.any(String),
+          challenge: 'challenge-123',
+          domain: 'example.com',
           presentationEndpoint: '/auth/verify-presentation',
           expiresIn: 300
         })
@@ -129,7 +148,7 @@ describe('VerificationController', () => {
       );
       expect(mockCacheService.cachePresentationRequest).toHaveBeenCalledWith(
         'test-request-id',
-        mockRequest,
+        { ...mockRequest, endpoint: '/profile' },
         300
       );
       expect(mockResponse.json).toHaveBeenCalledWith({
@@ -162,13 +181,14 @@ describe('VerificationController', () => {
         expiresIn: 3600
       };
 
+      const cachedRequest = { requestId: 'test-request', endpoint: '/profile' };
+
       mockRequest.body = {
         presentation: mockPresentation,
-        requestId: 'test-request',
-        endpoint: '/profile'
+        requestId: 'test-request'
       };
 
-      mockCacheService.getCachedPresentationRequest.mockResolvedValue(mockRequest);
+      mockCacheService.getCachedPresentationRequest.mockResolvedValue(cachedRequest);
       mockServiceProvider.verifyPresentationWithRequest.mockResolvedValue(mockVerificationResult);
       mockServiceProvider.createSessionFromVerification.mockResolvedValue(mockSession);
       mockCacheService.cacheSessionMetadata.mockResolvedValue(undefined);
@@ -177,7 +197,7 @@ describe('VerificationController', () => {
 
       expect(mockServiceProvider.verifyPresentationWithRequest).toHaveBeenCalledWith(
         mockPresentation,
-        mockRequest
+        cachedRequest
       );
       expect(mockServiceProvider.createSessionFromVerification).toHaveBeenCalledWith(
         mockVerificationResult,
@@ -195,49 +215,28 @@ describe('VerificationController', () => {
       });
     });
 
-    it('should verify presentation with endpoint (legacy) successfully', async () => {
-      const mockPresentation = { type: 'VerifiablePresentation' };
-      const mockLegacyResult = {
-        type: 'selective_disclosure',
-        attributes: { age: 25, country: 'US' },
-        credentialId: 'cred-1',
-        holderDID: 'did:test:holder'
-      };
-      const mockSession = { id: 'session-123', expiresIn: 3600 };
-
+    it('should not verify presentations by endpoint without a presentation request', async () => {
       mockRequest.body = {
-        presentation: mockPresentation,
+        presentation: { type: 'VerifiablePresentation' },
         endpoint: '/profile'
       };
 
-      mockServiceProvider.verifyPresentation.mockResolvedValue(mockLegacyResult);
-      mockServiceProvider.createSessionFromVerification.mockResolvedValue(mockSession);
-      mockCacheService.cacheSessionMetadata.mockResolvedValue(undefined);
-
-      await controller.verifyPresentation(mockRequest as Request, mockResponse as Response);
-
-      expect(mockServiceProvider.verifyPresentation).toHaveBeenCalledWith(
-        mockPresentation,
-        '/profile'
-      );
-      expect(mockResponse.json).toHaveBeenCalledWith({
-        success: true,
-        sessionId: 'session-123',
-        expiresIn: 3600,
-        disclosureType: 'selective',
-        verifiedAttributes: ['age', 'country']
-      });
+      await expect(
+        controller.verifyPresentation(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(ValidationError);
+      expect(mockServiceProvider.verifyPresentationWithRequest).not.toHaveBeenCalled();
+      expect(mockServiceProvider.createSessionFromVerification).not.toHaveBeenCalled();
     });
 
     it('should throw ValidationError for missing presentation', async () => {
-      mockRequest.body = { endpoint: '/profile' };
+      mockRequest.body = { requestId: 'test-request' };
 
       await expect(
         controller.verifyPresentation(mockRequest as Request, mockResponse as Response)
       ).rejects.toThrow(ValidationError);
     });
 
-    it('should throw ValidationError for missing endpoint and requestId', async () => {
+    it('should throw ValidationError for missing requestId', async () => {
       mockRequest.body = { presentation: { type: 'VerifiablePresentation' } };
 
       await expect(
@@ -257,6 +256,57 @@ describe('VerificationController', () => {
         controller.verifyPresentation(mockRequest as Request, mockResponse as Response)
       ).rejects.toThrow(ValidationError);
     });
+
+    it('should consume the presentation request after successful verification', async () => {
+      const cachedRequest = { requestId: 'test-request', challenge: 'test-challenge' };
+      mockRequest.body = {
+        presentation: { type: 'VerifiablePresentation' },
+        requestId: 'test-request'
+      };
+
+      mockCacheService.getCachedPresentationRequest.mockResolvedValue(cachedRequest);
+      mockServiceProvider.verifyPresentationWithRequest.mockResolvedValue({
+        isValid: true,
+        holderDID: 'did:test:holder',
+        credentialIds: ['cred-1'],
+        disclosedAttributes: {}
+      });
+      mockServiceProvider.createSessionFromVerification.mockResolvedValue({ id: 'session-123' });
+
+      await controller.verifyPresentation(mockRequest as Request, mockResponse as Response);
+
+      expect(mockCacheService.consumePresentationRequest).toHaveBeenCalledWith('test-request');
+    });
+
+    it('should throw ReplayedPresentationError when the request was already consumed', async () => {
+      mockRequest.body = {
+        presentation: { type: 'VerifiablePresentation' },
+        requestId: 'used-request'
+      };
+
+      mockCacheService.getCachedPresentationRequest.mockResolvedValue(null);
+      mockCacheService.isPresentationRequestConsumed.mockResolvedValue(true);
+
+      await expect(
+        controller.verifyPresentation(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(ReplayedPresentationError);
+    });
+
+    it('should not create a session when a concurrent request consumed it first', async () => {
+      mockRequest.body = {
+        presentation: { type: 'VerifiablePresentation' },
+        requestId: 'raced-request'
+      };
+
+      mockCacheService.getCachedPresentationRequest.mockResolvedValue({ requestId: 'raced-request' });
+      mockServiceProvider.verifyPresentationWithRequest.mockResolvedValue({ isValid: true });
+      mockCacheService.consumePresentationRequest.mockResolvedValue(false);
+
+      await expect(
+        controller.verifyPresentation(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(ReplayedPresentationError);
+      expect(mockServiceProvider.createSessionFromVerification).not.toHaveBeenCalled();
+    });
   });
 
   describe('batchVerifyPresentations', () => {
@@ -318,6 +368,49 @@ describe('VerificationController', () => {
         controller.batchVerifyPresentations(mockRequest as Request, mockResponse as Response)
       ).rejects.toThrow(ValidationError);
     });
+
+    it('should queue async batches and return the batch ID immediately', async () => {
+      const mockBatchJobs = {
+        submit: jest.fn().mockResolvedValue({ batchId: 'batch-async', status: 'queued', total: 120 })
+      } as any;
+      controller = new VerificationController(mockServiceProvider, mockCacheService, mockBatchJobs);
+      const presentations = new Array(120).fill({ type: 'VerifiablePresentation' });
+      mockRequest.body = { presentations, options: { async: true } };
+      mockRequest.session = { holderDID: 'did:key:holder' } as any;
+
+      await controller.batchVerifyPresentations(mockRequest as Request, mockResponse as Response);
+
+      expect(mockBatchJobs.submit).toHaveBeenCalledWith(presentations, 'did:key:holder');
+      expect(mockServiceProvider.batchVerifyPresentations).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        batchId: 'batch-async',
+        status: 'queued',
+        total: 120,
+        statusEndpoint: '/auth/presentation/batch-async'
+      });
+    });
+
+    it('should require a session to queue async batches', async () => {
+      const mockBatchJobs = { submit: jest.fn() } as any;
+      controller = new VerificationController(mockServiceProvider, mockCacheService, mockBatchJobs);
+      mockRequest.body = { presentations: [{ type: 'VerifiablePresentation' }], options: { async: true } };
+
+      await expect(
+        controller.batchVerifyPresentations(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(AuthenticationError);
+      expect(mockBatchJobs.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject async batches when no job queue is configured', async () => {
+      mockRequest.body = { presentations: [{ type: 'VerifiablePresentation' }], options: { async: true } };
+      mockRequest.session = { holderDID: 'did:key:holder' } as any;
+
+      await expect(
+        controller.batchVerifyPresentations(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow('Async batch verification is not available');
+    });
   });
 
   describe('batchCheckRevocations', () => {
@@ -394,6 +487,50 @@ describe('VerificationController', () => {
       });
     });
 
+    it('should return async batch job status and progress', async () => {
+      const job = {
+        batchId: 'batch-async',
+        status: 'running',
+        total: 100,
+        processed: 40,
+        successful: 38,
+        failed: 2,
+        submittedBy: 'did:key:holder',
+        createdAt: new Date().toISOString()
+      };
+      mockRequest.params = { id: 'batch-async' };
+      mockRequest.session = { holderDID: 'did:key:holder' } as any;
+      mockCacheService.getCachedBatchResult.mockResolvedValue(job);
+
+      await controller.getPresentationStatus(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'batch-async',
+        type: 'batch_verification',
+        status: 'running',
+        progress: { total: 100, processed: 40, successful: 38, failed: 2 }
+      }));
+    });
+
+    it('should hide async batch jobs from anyone but the submitter', async () => {
+      mockRequest.params = { id: 'batch-async' };
+      mockCacheService.getCachedBatchResult.mockResolvedValue({
+        batchId: 'batch-async',
+        status: 'completed',
+        submittedBy: 'did:key:holder'
+      });
+
+      await expect(
+        controller.getPresentationStatus(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(NotFoundError);
+
+      mockRequest.session = { holderDID: 'did:key:other' } as any;
+      await expect(
+        controller.getPresentationStatus(mockRequest as Request, mockResponse as Response)
+      ).rejects.toThrow(NotFoundError);
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
     it('should return presentation request when ID exists in cache', async () => {
       const presentationRequest = { requestId: 'req-123', challenge: 'test' };
       mockRequest.params = { id: 'req-123' };
@@ -437,7 +574,7 @@ describe('VerificationController', () => {
         successRate: 98.5
       };
 
-      mockServiceProvider.getBatchStatistics.mockResolvedValue(mockStats);
+      mockServiceProvider.getBatchStatistics.mockResolvedValue(mockStats as any);
 
       await controller.getBatchStatistics(mockRequest as Request, mockResponse as Response);
 
@@ -0,0 +1,167 @@
+import { EventEmitter } from 'events';
+import WebhookDispatcher, {
+  createWebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../../src/services/webhooks';
+import startWebhookReceiver, { type WebhookReceiver } from '../../src/utils/webhook-receiver';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import type { WebhookDeliveryAttempt } from '../../src/models/types';
+
+const SECRET = 'whsec_test-secret-value';
+
+// Resolve once the dispatcher has logged an attempt with the given status
+const waitForAttempt = (dispatcher: WebhookDispatcher, status: WebhookDeliveryAttempt['status']) => {
+  return new Promise<WebhookDeliveryAttempt>(resolve => {
+    const listener = (attempt: WebhookDeliveryAttempt) => {
+      if (attempt.status === status) {
+        dispatcher.off('attempt', listener);
+        resolve(attempt);
+      }
+    };
+    dispatcher.on('attempt', listener);
+  });
+};
+
+describe('WebhookDispatcher', () => {
+  let dispatcher: WebhookDispatcher;
+  let receiver: WebhookReceiver;
+
+  beforeEach(async () => {
+    receiver = await startWebhookReceiver({ secret: SECRET });
+    dispatcher = new WebhookDispatcher(null, { maxAttempts: 3, retryBaseDelayMs: 10, timeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    dispatcher.shutdown();
+    await receiver.close();
+  });
+
+  it('should deliver subscribed events with a valid signature', async () => {
+    const subscription = await dispatcher.createSubscription({
+      url: receiver.url,
+      events: ['presentation.verified'],
+      secret: SECRET
+    });
+
+    await dispatcher.dispatch('session.created', { sessionId: 'session-1' });
+    const event = await dispatcher.dispatch('presentation.verified', { requestId: 'req-1' });
+    const [delivery] = await receiver.waitForDeliveries(1);
+
+    expect(receiver.received).toHaveLength(1);
+    expect(delivery.signatureValid).toBe(true);
+    expect(delivery.event).toEqual(event);
+    expect(delivery.headers['x-webhook-event']).toBe('presentation.verified');
+
+    const [logged] = await dispatcher.listDeliveries({ subscriptionId: subscription.id });
+    expect(logged).toEqual(expect.objectContaining({ eventId: event.id, attempt: 1, status: 'delivered', responseStatus: 200 }));
+  });
+
+  it('should retry failed deliveries with backoff and dead-letter them after the last attempt', async () => {
+    receiver.respondWith(500);
+    await dispatcher.createSubscription({ url: receiver.url, events: ['credential.revoked'], secret: SECRET });
+
+    const deadLettered = waitForAttempt(dispatcher, 'dead_lettered');
+    const event = await dispatcher.dispatch('credential.revoked', { credentialIds: ['cred-1'] });
+    await deadLettered;
+
+    const attempts = await dispatcher.listDeliveries({ eventId: event.id });
+    expect(attempts.map(attempt => [attempt.attempt, attempt.status])).toEqual([
+      [3, 'dead_lettered'],
+      [2, 'retrying'],
+      [1, 'retrying']
+    ]);
+    // Same delivery ID on every attempt so receivers can deduplicate
+    expect(new Set(receiver.received.map(delivery => delivery.headers['x-webhook-id'])).size).toBe(1);
+
+    const [deadLetter] = await dispatcher.listDeadLetters();
+    expect(deadLetter).toEqual(expect.objectContaining({
+      event,
+      attempts: 3,
+      lastError: 'Receiver responded with HTTP 500'
+    }));
+
+    receiver.respondWith(204);
+    await dispatcher.redeliver(deadLetter.deliveryId);
+
+    expect(await dispatcher.listDeadLetters()).toEqual([]);
+    expect((await dispatcher.listDeliveries({ eventId: event.id }))[0].status).toBe('delivered');
+  });
+
+  it('should reject invalid subscriptions', async () => {
+    await expect(dispatcher.createSubscription({ url: 'ftp://example.com/hook', events: ['session.created'] }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(dispatcher.createSubscription({ url: receiver.url, events: ['session.deleted' as any] }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(dispatcher.createSubscription({ url: receiver.url, events: ['session.created'], secret: 'short' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should forward service provider events without disclosed attributes', async () => {
+    const serviceProvider = new EventEmitter() as unknown as ServiceProviderService;
+    const forwarding = createWebhookDispatcher(serviceProvider, null);
+    try {
+      await forwarding.createSubscription({ url: receiver.url, events: ['session.created'], secret: SECRET });
+
+      serviceProvider.emit('sessionCreated', {
+        id: 'session-1',
+        holderDID: 'did:key:holder',
+        credentialIds: ['cred-1'],
+        attributes: { givenName: 'Alice' },
+        expiresAt: new Date()
+      });
+      const [delivery] = await receiver.waitForDeliveries(1);
+
+      expect(delivery.event?.type).toBe('session.created');
+      expect(delivery.event?.data).toEqual(expect.objectContaining({ sessionId: 'session-1', holderDID: 'did:key:holder' }));
+      expect(delivery.body).not.toContain('Alice');
+    } finally {
+      forwarding.shutdown();
+    }
+  });
+
+  it('should send session.expired for sessions that expire without being invalidated', async () => {
+    const serviceProvider = new EventEmitter() as unknown as ServiceProviderService;
+    const sessions = new Map<string, { expiresAt: Date }>([
+      ['session-1', { expiresAt: new Date(Date.now() - 1000) }],
+      ['session-2', { expiresAt: new Date(Date.now() + 60000) }]
+    ]);
+    const lookup = async (sessionId: string) => {
+      const session = sessions.get(sessionId);
+      return session && session.expiresAt.getTime() > Date.now() ? session : null;
+    };
+    const forwarding = createWebhookDispatcher(serviceProvider, null);
+    try {
+      await forwarding.createSubscription({ url: receiver.url, events: ['session.expired'], secret: SECRET });
+      ['session-1', 'session-2', 'session-3'].forEach(id => {
+        serviceProvider.emit('sessionCreated', { id, holderDID: 'did:key:holder', expiresAt: new Date(Date.now() - 1000) });
+      });
+      serviceProvider.emit('sessionInvalidated', { sessionId: 'session-3', reason: 'logout' });
+      await receiver.waitForDeliveries(1);
+
+      // session-2 was extended, so it stays tracked until its new expiry
+      expect(await forwarding.sweepExpiredSessions(lookup)).toEqual(['session-1']);
+      const deliveries = await receiver.waitForDeliveries(2);
+      expect(deliveries[1].event?.data).toEqual({ sessionId: 'session-1', reason: 'expired' });
+      expect(await forwarding.sweepExpiredSessions(lookup)).toEqual([]);
+    } finally {
+      forwarding.shutdown();
+    }
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const body = JSON.stringify({ id: 'event-1' });
+    const now = Date.now();
+    const timestamp = Math.floor(now / 1000);
+
+    it('should reject tampered bodies, wrong secrets and stale timestamps', () => {
+      const header = signWebhookPayload(SECRET, timestamp, body);
+
+      expect(verifyWebhookSignature(SECRET, header, body, 300, now)).toBe(true);
+      expect(verifyWebhookSignature(SECRET, header, `${body} `, 300, now)).toBe(false);
+      expect(verifyWebhookSignature('whsec_other-secret-value', header, body, 300, now)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, header, body, 300, now + 301 * 1000)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, undefined, body, 300, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { Server as SocketIOServer } from 'socket.io';
+import type { Server as HttpServer } from 'http';
+import WebSocketServer from '../../src/websocket/server';
+import type ServiceProviderService from '../../src/services/service-provider.service';
+import type CacheService from '../../src/services/cache.service';
+import type BatchJobQueue from '../../src/services/batch-jobs';
+import { RevokedCredentialError } from '../../src/utils/errors';
+
+jest.mock('socket.io');
+
+describe('WebSocketServer authentication', () => {
+  let webSocketServer: WebSocketServer;
+  let mockIO: any;
+  let mockServiceProvider: jest.Mocked<ServiceProviderService>;
+  let mockBatchJobs: jest.Mocked<BatchJobQueue>;
+  let authenticate: (socket: any, next: jest.Mock) => Promise<void>;
+  let onConnection: (socket: any) => void;
+
+  const session = {
+    id: 'session-1',
+    holderDID: 'did:key:holder',
+    credentialIds: ['cred-1'],
+    attributes: {},
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    metadata: { credentialIssuers: ['did:key:issuer'] }
+  };
+
+  const createSocket = (handshake: Record<string, any> = {}) => {
+    const handlers: Record<string, (...args: any[]) => any> = {};
+    return {
+      id: 'socket-1',
+      connected: true,
+      data: {} as Record<string, any>,
+      handshake: { address: '127.0.0.1', headers: {}, auth: {}, ...handshake },
+      handlers,
+      on: jest.fn((event: string, handler: (...args: any[]) => any) => {
+        handlers[event] = handler;
+      }),
+      emit: jest.fn(),
+      join: jest.fn(),
+      leave: jest.fn()
+    };
+  };
+
+  // Run the handshake middleware and connection handler for an authenticated socket
+  const connect = async (token = 'session-1') => {
+    const socket = createSocket({ auth: { token } });
+    const next = jest.fn();
+    await authenticate(socket, next);
+    expect(next).toHaveBeenCalledWith();
+    onConnection(socket);
+    return socket;
+  };
+
+  beforeEach(() => {
+    mockIO = {
+      use: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+      engine: { on: jest.fn(), clientsCount: 0 },
+      sockets: { adapter: { rooms: new Map() } },
+      to: jest.fn().mockReturnThis(),
+      in: jest.fn().mockReturnThis(),
+      emit: jest.fn(),
+      disconnectSockets: jest.fn()
+    };
+    (SocketIOServer as unknown as jest.Mock).mockImplementation(() => mockIO);
+
+    mockServiceProvider = {
+      validateSession: jest.fn().mockResolvedValue(true),
+      getSession: jest.fn().mockResolvedValue(session),
+      checkSessionCredentials: jest.fn().mockResolvedValue(undefined),
+      getHolderScope: jest.fn().mockResolvedValue({
+        sessionIds: new Set(['session-1']),
+        credentialIds: new Set(['cred-1']),
+        issuerDIDs: new Set(['did:key:issuer'])
+      }),
+      batchCheckRevocations: jest.fn().mockResolvedValue(new Map([['cred-1', false]]))
+    } as any;
+
+    mockBatchJobs = {
+      getJob: jest.fn().mockImplementation(async (batchId: string) => ({
+        batchId,
+        status: 'running',
+        submittedBy: batchId === 'batch-own' ? 'did:key:holder' : 'did:key:other'
+      }))
+    } as any;
+
+    webSocketServer = new WebSocketServer(
+      {} as HttpServer,
+      mockServiceProvider,
+      {} as CacheService,
+      undefined,
+      mockBatchJobs
+    );
+    authenticate = mockIO.use.mock.calls[0][0];
+    onConnection = mockIO.on.mock.calls.find((call: any[]) => call[0] === 'connection')[1];
+  });
+
+  afterEach(() => {
+    webSocketServer.shutdown();
+  });
+
+  describe('handshake', () => {
+    it('should reject connections without a bearer token', async () => {
+      const next = jest.fn();
+
+      await authenticate(createSocket(), next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ data: { code: 'AUTHENTICATION_REQUIRED' } }));
+      expect(mockServiceProvider.validateSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired sessions', async () => {
+      mockServiceProvider.validateSession.mockResolvedValue(false);
+      const next = jest.fn();
+
+      await authenticate(createSocket({ headers: { authorization: 'Bearer expired' } }), next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ data: { code: 'INVALID_SESSION' } }));
+    });
+
+    it('should reject sessions backed by a revoked credential', async () => {
+      mockServiceProvider.checkSessionCredentials.mockRejectedValue(new RevokedCredentialError('cred-1'));
+      const next = jest.fn();
+
+      await authenticate(createSocket({ auth: { token: 'session-1' } }), next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ data: { code: 'REVOKED_CREDENTIAL' } }));
+    });
+
+    it('should bind the socket to the session holder', async () => {
+      const socket = await connect();
+
+      expect(socket.data.identity).toEqual({
+        sessionId: 'session-1',
+        holderDID: 'did:key:holder',
+        expiresAt: session.expiresAt
+      });
+      expect(socket.join).toHaveBeenCalledWith('auth:session-1');
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should allow subscribing to the holder\'s own credentials, issuers and sessions', async () => {
+      const socket = await connect();
+
+      await socket.handlers['subscribe:credential']('cred-1');
+      await socket.handlers['subscribe:issuer']('did:key:issuer');
+      await socket.handlers['subscribe:session']('session-1');
+
+      expect(socket.join).toHaveBeenCalledWith('credential:cred-1');
+      expect(socket.join).toHaveBeenCalledWith('issuer:did:key:issuer');
+      expect(socket.join).toHaveBeenCalledWith('session:session-1');
+      expect(socket.emit).not.toHaveBeenCalledWith('error', expect.anything());
+    });
+
+    it('should reject subscriptions to other holders\' credentials, issuers and sessions', async () => {
+      const socket = await connect();
+      mockServiceProvider.getSession.mockResolvedValue({ ...session, id: 'session-2', holderDID: 'did:key:other' });
+
+      await socket.handlers['subscribe:credential']('cred-other');
+      await socket.handlers['subscribe:issuer']('did:key:other-issuer');
+      await socket.handlers['subscribe:session']('session-2');
+
+      expect(socket.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: 'SUBSCRIPTION_FORBIDDEN',
+        credentialId: 'cred-other'
+      }));
+      expect(socket.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: 'SUBSCRIPTION_FORBIDDEN',
+        issuerDID: 'did:key:other-issuer'
+      }));
+      expect(socket.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: 'SUBSCRIPTION_FORBIDDEN',
+        sessionId: 'session-2'
+      }));
+      expect(socket.join).toHaveBeenCalledTimes(1); // auth:session-1 only
+    });
+
+    it('should refuse missing and foreign sessions alike without touching them', async () => {
+      const socket = await connect();
+      mockServiceProvider.validateSession.mockClear();
+      mockServiceProvider.getSession.mockImplementation(async (sessionId: string) => (
+        sessionId === 'session-2' ? { ...session, id: 'session-2', holderDID: 'did:key:other' } : null
+      ));
+
+      await socket.handlers['subscribe:session']('session-2');
+      await socket.handlers['subscribe:session']('session-missing');
+
+      const errors = socket.emit.mock.calls
+        .filter(([event]: [string]) => event === 'error')
+        .map(([, payload]: [string, any]) => ({ ...payload, sessionId: undefined }));
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toEqual(errors[1]);
+      expect(errors[0].code).toBe('SUBSCRIPTION_FORBIDDEN');
+      expect(mockServiceProvider.validateSession).not.toHaveBeenCalled();
+    });
+
+    it('should only let the submitting holder subscribe to batch progress', async () => {
+      const socket = await connect();
+
+      await socket.handlers['subscribe:batch']('batch-own');
+      await socket.handlers['subscribe:batch']('batch-other');
+
+      expect(socket.join).toHaveBeenCalledWith('batch:batch-own');
+      expect(socket.join).not.toHaveBeenCalledWith('batch:batch-other');
+      expect(socket.emit).toHaveBeenCalledWith('error', expect.objectContaining({
+        code: 'SUBSCRIPTION_FORBIDDEN',
+        batchId: 'batch-other'
+      }));
+    });
+  });
+
+  describe('session expiry', () => {
+    it('should notify and disconnect sockets bound to an expired session', () => {
+      webSocketServer.notifySessionExpired('session-1');
+
+      expect(mockIO.to).toHaveBeenCalledWith('session:session-1');
+      expect(mockIO.to).toHaveBeenCalledWith('auth:session-1');
+      expect(mockIO.emit).toHaveBeenCalledWith('session:status', expect.objectContaining({ isValid: false }));
+      expect(mockIO.in).toHaveBeenCalledWith('auth:session-1');
+      expect(mockIO.disconnectSockets).toHaveBeenCalledWith(true);
+    });
+
+    it('should disconnect the socket once its session lapses', async () => {
+      jest.useFakeTimers();
+      try {
+        mockServiceProvider.getSession.mockResolvedValue({ ...session, expiresAt: new Date(Date.now() + 1000) });
+        await connect();
+        mockServiceProvider.validateSession.mockResolvedValue(false);
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(mockIO.in).toHaveBeenCalledWith('auth:session-1');
+        expect(mockIO.disconnectSockets).toHaveBeenCalledWith(true);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});